@@ -1,6 +1,30 @@
 import type { Icon, ICredentialType, INodeProperties } from 'n8n-workflow';
 import { ConnectionDispatcher } from '../nodes/NetDevicesUbuntu/utils/index';
 
+/**
+ * Algorithm list fields of the target or the jump host, in the form of
+ * OpenSSH's KexAlgorithms, Ciphers, MACs etc.
+ */
+function algorithmListFields(prefix: string, show: { [field: string]: boolean[] }): INodeProperties[] {
+	const lists = [
+		{ displayName: 'Key Exchange Algorithms', name: 'Kex', placeholder: '+diffie-hellman-group-exchange-sha1' },
+		{ displayName: 'Server Host Key Algorithms', name: 'ServerHostKey', placeholder: '-ssh-rsa' },
+		{ displayName: 'Cipher Algorithms', name: 'Cipher', placeholder: '^aes128-cbc' },
+		{ displayName: 'MAC Algorithms', name: 'Hmac', placeholder: 'hmac-sha2-256,hmac-sha1' },
+		{ displayName: 'Compression Algorithms', name: 'Compress', placeholder: 'none' },
+	];
+	return lists.map((list) => ({
+		displayName: `${prefix ? 'Jump Host ' : ''}${list.displayName}`,
+		name: `${prefix}ssh${list.name}`,
+		type: 'string',
+		default: '',
+		placeholder: list.placeholder,
+		description:
+			'Comma-separated algorithm names that replace the profile\'s list. Start with "+" to append them, "^" to put them first or "-" to remove them.',
+		displayOptions: { show },
+	}));
+}
+
 export class NetDevicesUbuntuApi implements ICredentialType {
 	name = 'netDevicesUbuntuApi';
 	displayName = 'Net Devices Ubuntu API'; 
@@ -74,6 +98,32 @@ export class NetDevicesUbuntuApi implements ICredentialType {
 			displayOptions: { show: { authMethod: ['privateKey'] } },
 			description: 'Passphrase for the private key (optional)',
 		},
+		{
+			displayName: 'Keyboard-Interactive Prompts',
+			name: 'keyboardInteractive',
+			type: 'boolean',
+			default: false,
+			description: 'Whether to answer keyboard-interactive prompts of the device, such as a one-time code after the password or key, from a list of rules',
+		},
+		{
+			displayName: 'Prompt Responses',
+			name: 'promptResponses',
+			type: 'string',
+			typeOptions: { rows: 4 },
+			default: '',
+			placeholder: 'password => {password}\nverification code => {totp}',
+			description: 'One "regex => response" rule per line, matched against each prompt regardless of case. The response may contain {password} and {totp}. Leave empty to answer verification code, passcode, token and OTP prompts with the TOTP code and password prompts with the password.',
+			displayOptions: { show: { keyboardInteractive: [true] } },
+		},
+		{
+			displayName: 'TOTP Secret',
+			name: 'totpSecret',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'Base32 secret or otpauth:// URI of the authenticator enrollment, used to generate the {totp} code (RFC 6238)',
+			displayOptions: { show: { keyboardInteractive: [true] } },
+		},
 		{
 			displayName: 'Device Type',
 			name: 'deviceType',
@@ -106,6 +156,86 @@ export class NetDevicesUbuntuApi implements ICredentialType {
 			default: true,
 			description: 'Send keep-alive packets to maintain the connection',
 		},
+		{
+			displayName: 'SSH Algorithm Profile',
+			name: 'algorithmProfile',
+			type: 'options',
+			options: [
+				{
+					name: 'Auto',
+					value: 'auto',
+					description: 'Try Modern first, then fall back to Compatible and Legacy',
+				},
+				{
+					name: 'Compatible',
+					value: 'compatible',
+					description: 'Modern plus ssh-rsa host keys, SHA-1 key exchange and MACs and CBC ciphers',
+				},
+				{
+					name: 'Legacy',
+					value: 'legacy',
+					description: 'Compatible plus DSA host keys, diffie-hellman-group1-sha1 and 3DES for very old devices',
+				},
+				{
+					name: 'Modern',
+					value: 'modern',
+					description: 'Curve25519, ed25519, rsa-sha2 and chacha20/AES-GCM only, without SHA-1',
+				},
+			],
+			default: 'auto',
+			description: 'SSH key exchange, host key, cipher and MAC algorithms offered to the device and the jump host',
+		},
+		{
+			displayName: 'Custom SSH Algorithms',
+			name: 'customAlgorithms',
+			type: 'boolean',
+			default: false,
+			description: 'Whether to change the algorithm lists of the profile for this device',
+		},
+		...algorithmListFields('', { customAlgorithms: [true] }),
+		{
+			displayName: 'Host Key Policy',
+			name: 'hostKeyPolicy',
+			type: 'options',
+			options: [
+				{
+					name: 'Off',
+					value: 'off',
+					description: 'Accept any host key',
+				},
+				{
+					name: 'Strict',
+					value: 'strict',
+					description: 'Only connect when the host key matches a pinned fingerprint or known_hosts entry',
+				},
+				{
+					name: 'Trust on First Use',
+					value: 'trustOnFirstUse',
+					description: 'Check pinned keys when set, otherwise remember the first key seen in the workflow static data',
+				},
+			],
+			default: 'trustOnFirstUse',
+			description: 'How the SSH host keys of the device and the jump host are verified',
+		},
+		{
+			displayName: 'Host Key Fingerprints',
+			name: 'hostFingerprints',
+			type: 'string',
+			typeOptions: { rows: 2 },
+			default: '',
+			placeholder: 'SHA256:uNiVztksCsDhcc0u9e8BujQXVUpKZIDTMczCvj3tD2s',
+			description: 'Pinned SHA256 fingerprints of the device host key, one per line, as printed by "ssh-keygen -lf"',
+			displayOptions: { hide: { hostKeyPolicy: ['off'] } },
+		},
+		{
+			displayName: 'Known Hosts',
+			name: 'knownHosts',
+			type: 'string',
+			typeOptions: { rows: 4 },
+			default: '',
+			description: 'Entries in OpenSSH known_hosts format; hashed entries and "[host]:port" names are supported',
+			displayOptions: { hide: { hostKeyPolicy: ['off'] } },
+		},
 		{
 			displayName: 'Use Jump Host',
 			name: 'useJumpHost',
@@ -177,5 +307,60 @@ export class NetDevicesUbuntuApi implements ICredentialType {
 			required: false,
 			displayOptions: { show: { useJumpHost: [true], jumpHostAuthMethod: ['privateKey'] } },
 		},
+		{
+			displayName: 'Jump Host Keyboard-Interactive Prompts',
+			name: 'jumpHostKeyboardInteractive',
+			type: 'boolean',
+			default: false,
+			description: 'Whether to answer keyboard-interactive prompts of the jump host, such as a one-time code after the password or key, from a list of rules',
+			displayOptions: { show: { useJumpHost: [true] } },
+		},
+		{
+			displayName: 'Jump Host Prompt Responses',
+			name: 'jumpHostPromptResponses',
+			type: 'string',
+			typeOptions: { rows: 4 },
+			default: '',
+			placeholder: 'password => {password}\nverification code => {totp}',
+			description: 'One "regex => response" rule per line, matched against each prompt regardless of case. The response may contain {password} and {totp}. Leave empty to answer verification code, passcode, token and OTP prompts with the TOTP code and password prompts with the password.',
+			displayOptions: { show: { useJumpHost: [true], jumpHostKeyboardInteractive: [true] } },
+		},
+		{
+			displayName: 'Jump Host TOTP Secret',
+			name: 'jumpHostTotpSecret',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'Base32 secret or otpauth:// URI of the authenticator enrollment, used to generate the {totp} code (RFC 6238)',
+			displayOptions: { show: { useJumpHost: [true], jumpHostKeyboardInteractive: [true] } },
+		},
+		{
+			displayName: 'Jump Host Key Fingerprints',
+			name: 'jumpHostFingerprints',
+			type: 'string',
+			typeOptions: { rows: 2 },
+			default: '',
+			placeholder: 'SHA256:uNiVztksCsDhcc0u9e8BujQXVUpKZIDTMczCvj3tD2s',
+			description: 'Pinned SHA256 fingerprints of the jump host key, one per line',
+			displayOptions: { show: { useJumpHost: [true] }, hide: { hostKeyPolicy: ['off'] } },
+		},
+		{
+			displayName: 'Jump Host Known Hosts',
+			name: 'jumpHostKnownHosts',
+			type: 'string',
+			typeOptions: { rows: 4 },
+			default: '',
+			description: 'Entries in OpenSSH known_hosts format for the jump host',
+			displayOptions: { show: { useJumpHost: [true] }, hide: { hostKeyPolicy: ['off'] } },
+		},
+		{
+			displayName: 'Jump Host Custom SSH Algorithms',
+			name: 'jumpHostCustomAlgorithms',
+			type: 'boolean',
+			default: false,
+			description: 'Whether to change the algorithm lists of the profile for the jump host',
+			displayOptions: { show: { useJumpHost: [true] } },
+		},
+		...algorithmListFields('jumpHost', { useJumpHost: [true], jumpHostCustomAlgorithms: [true] }),
 	];
 }
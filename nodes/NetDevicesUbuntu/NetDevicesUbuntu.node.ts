@@ -1,4 +1,6 @@
 import type {
+	IBinaryKeyData,
+	ICredentialDataDecryptedObject,
 	IExecuteFunctions,
 	IDataObject,
 	INodeExecutionData,
@@ -7,7 +9,42 @@ import type {
 } from 'n8n-workflow';
 
 import { NodeOperationError } from 'n8n-workflow';
-import { ConnectHandler, CommandResult } from './utils/index';
+import {
+	ConnectHandler,
+	ConnectionDispatcher,
+	CommandResult,
+	ComplianceRule,
+	ConfigLine,
+	ConfigSyntax,
+	ConfigTree,
+	DeviceStateResult,
+	HostKeyMismatchError,
+	InteractiveStep,
+	InteractiveStepResult,
+	PingOptions,
+	PingResult,
+	TemplateIndex,
+	TextFsmError,
+	TracerouteResult,
+	getBuiltinTemplateEntries,
+	getPendingConfig,
+	checkCompliance,
+	diagnoseConnection,
+	diffConfig,
+	generateRemediation,
+	parseComplianceRules,
+	DEFAULT_BACKUP_FILE_NAME,
+	formatFileTimestamp,
+	getRemoteFileName,
+	renderConfigTemplate,
+	renderFileName,
+	runCommitConfirmed,
+	COMMIT_CONFIRMED_RECONNECT_ATTEMPTS,
+	runSoftwareUpgrade,
+	SOFTWARE_STAGING_TIMEOUT,
+	sha256,
+	SshAlgorithmOverrides,
+} from './utils/index';
 
 // Add logging support
 let Logger: any;
@@ -25,6 +62,195 @@ try {
     };
 }
 
+// Command result enriched with operation-specific fields for the output item
+interface OperationResult extends CommandResult {
+    data?: IDataObject;
+    binary?: IBinaryKeyData;
+    // Rows that are output as separate items, e.g. configuration revisions
+    items?: IDataObject[];
+}
+
+function splitLines(text: string): string[] {
+    return text.split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0);
+}
+
+// Parameter names of a configuration that can come from text, an input field or binary data
+interface ConfigInputParameters {
+    source: string;
+    text: string;
+    field: string;
+    binaryProperty: string;
+}
+
+const BASELINE_PARAMETERS: ConfigInputParameters = {
+    source: 'baselineSource',
+    text: 'baselineConfig',
+    field: 'baselineField',
+    binaryProperty: 'baselineBinaryProperty',
+};
+
+const COMPLIANCE_RULES_PARAMETERS: ConfigInputParameters = {
+    source: 'complianceRulesSource',
+    text: 'complianceRules',
+    field: 'complianceRulesField',
+    binaryProperty: 'complianceRulesBinaryProperty',
+};
+
+const INTENDED_PARAMETERS: ConfigInputParameters = {
+    source: 'intendedSource',
+    text: 'intendedConfig',
+    field: 'intendedField',
+    binaryProperty: 'intendedBinaryProperty',
+};
+
+const REPLACEMENT_PARAMETERS: ConfigInputParameters = {
+    source: 'replacementSource',
+    text: 'replacementConfig',
+    field: 'replacementField',
+    binaryProperty: 'replacementBinaryProperty',
+};
+
+// Whole-configuration operations can take minutes on large configurations
+const CONFIG_OPERATION_TIMEOUT = 300000;
+
+// Connection method behind each normalized getter of Get Device State
+const DEVICE_STATE_GETTERS: { [getter: string]: string } = {
+    facts: 'getFacts',
+    interfaces: 'getInterfaces',
+    interfacesIp: 'getInterfacesIp',
+    arpTable: 'getArpTable',
+    macAddressTable: 'getMacAddressTable',
+    lldpNeighbors: 'getLldpNeighbors',
+    bgpNeighbors: 'getBgpNeighbors',
+};
+
+// Read a configuration from the source selected in the node parameters
+async function getConfigInput(context: IExecuteFunctions, itemIndex: number, parameters: ConfigInputParameters): Promise<string> {
+    const source = context.getNodeParameter(parameters.source, itemIndex, 'text') as string;
+
+    if (source === 'binary') {
+        const propertyName = context.getNodeParameter(parameters.binaryProperty, itemIndex) as string;
+        const buffer = await context.helpers.getBinaryDataBuffer(itemIndex, propertyName);
+        return buffer.toString('utf8');
+    }
+
+    if (source === 'field') {
+        const fieldName = context.getNodeParameter(parameters.field, itemIndex) as string;
+        const value = fieldName
+            .split('.')
+            .reduce<unknown>((current, key) => (current && typeof current === 'object' ? (current as IDataObject)[key] : undefined),
+                context.getInputData()[itemIndex].json);
+        if (typeof value !== 'string') {
+            throw new NodeOperationError(
+                context.getNode(),
+                `Input field "${fieldName}" does not contain a configuration`,
+                { itemIndex },
+            );
+        }
+        return value;
+    }
+
+    return context.getNodeParameter(parameters.text, itemIndex) as string;
+}
+
+// A parameter pasted into a command line as one word, such as a ping target
+function getCommandWord(context: IExecuteFunctions, itemIndex: number, name: string, label: string, required = false): string | undefined {
+    const value = (context.getNodeParameter(name, itemIndex, '') as string).trim();
+    if (value === '') {
+        if (required) {
+            throw new NodeOperationError(context.getNode(), `${label} is required`, { itemIndex });
+        }
+        return undefined;
+    }
+    if (/[\s\x00-\x1f\x7f]/.test(value)) {
+        throw new NodeOperationError(
+            context.getNode(),
+            `${label} ${JSON.stringify(value)} must not contain whitespace or control characters`,
+            { itemIndex },
+        );
+    }
+    return value;
+}
+
+// Render the Send Config template for the device type with the item fields and the template variables
+function renderItemTemplate(context: IExecuteFunctions, itemIndex: number, deviceType: string, defaultTemplate: string): string {
+    const variants = context.getNodeParameter('templateVariants.variant', itemIndex, []) as IDataObject[];
+    const variant = variants.find((entry) =>
+        String(entry.deviceType || '')
+            .split(',')
+            .map((type) => type.trim().toLowerCase())
+            .includes(deviceType.toLowerCase()),
+    );
+
+    const variables: IDataObject = { ...context.getInputData()[itemIndex].json, deviceType };
+    for (const entry of context.getNodeParameter('templateVariables.variable', itemIndex, []) as IDataObject[]) {
+        let value = entry.value;
+        if (typeof value === 'string' && /^\s*[[{]/.test(value)) {
+            try {
+                value = JSON.parse(value);
+            } catch (error) {
+                // Not JSON, e.g. a banner starting with a bracket
+            }
+        }
+        variables[entry.name as string] = value;
+    }
+
+    try {
+        return renderConfigTemplate(variant ? (variant.template as string) : defaultTemplate, variables);
+    } catch (error) {
+        throw new NodeOperationError(
+            context.getNode(),
+            `Failed to render the configuration template: ${error instanceof Error ? error.message : String(error)}`,
+            { itemIndex },
+        );
+    }
+}
+
+// Custom algorithm lists of the target ("ssh" fields) or the jump host ("jumpHostSsh" fields)
+function getAlgorithmOverrides(credentials: ICredentialDataDecryptedObject, prefix: string): SshAlgorithmOverrides {
+    return {
+        kex: credentials[`${prefix}Kex`] as string,
+        serverHostKey: credentials[`${prefix}ServerHostKey`] as string,
+        cipher: credentials[`${prefix}Cipher`] as string,
+        hmac: credentials[`${prefix}Hmac`] as string,
+        compress: credentials[`${prefix}Compress`] as string,
+    };
+}
+
+/**
+ * Open a new session to the device, e.g. to check it after a commit or a
+ * reload. A session still connecting when the timeout wins is closed, so
+ * abandoned attempts do not stay logged in.
+ */
+async function connectWithTimeout(
+    deviceCredentials: Parameters<typeof ConnectHandler>[0],
+    timeout: number,
+): Promise<ReturnType<typeof ConnectHandler>> {
+    const connection = ConnectHandler(deviceCredentials);
+    const connecting = connection.connect();
+    let timer: NodeJS.Timeout | undefined;
+    try {
+        await Promise.race([
+            connecting,
+            new Promise<never>((_, reject) => {
+                timer = global.setTimeout(() => {
+                    reject(new Error(`Connection timeout after ${timeout / 1000} seconds`));
+                }, timeout);
+            }),
+        ]);
+        return connection;
+    } catch (error) {
+        // End the handshake now, and the session should the attempt still complete
+        connection.disconnect().catch(() => undefined);
+        connecting.then(() => connection.disconnect(), () => undefined).catch(() => undefined);
+        throw error;
+    } finally {
+        global.clearTimeout(timer);
+    }
+}
+
 export class NetDevicesUbuntu implements INodeType {
 	description: INodeTypeDescription = {
 		displayName: 'Net Devices Ubuntu',
@@ -39,90 +265,1436 @@ export class NetDevicesUbuntu implements INodeType {
 		outputs: ['main'],
 		credentials: [
 			{
-				displayName: 'Net Devices Ubuntu API',
-				name: 'netDevicesUbuntuApi', // <-- must match credential
-				required: true,
-            }
-        ],
-        
-        properties: [
-            // Required properties
-            {
-                displayName: 'Operation',
-                name: 'operation',
-                type: 'options',
-                noDataExpression: true,
-                required: true,
-                options: [
+				displayName: 'Net Devices Ubuntu API',
+				name: 'netDevicesUbuntuApi', // <-- must match credential
+				required: true,
+            }
+        ],
+        
+        properties: [
+            // Required properties
+            {
+                displayName: 'Operation',
+                name: 'operation',
+                type: 'options',
+                noDataExpression: true,
+                required: true,
+                options: [
+					{
+						name: 'Check Compliance',
+						value: 'checkCompliance',
+						description: 'Check the running configuration against a set of compliance rules',
+						action: 'Check the running configuration for compliance',
+					},
+					{
+						name: 'Compare Config',
+						value: 'compareConfig',
+						description: 'Compare the running configuration with a baseline',
+						action: 'Compare the running configuration with a baseline',
+					},
+					{
+						name: 'Diagnose Connection',
+						value: 'diagnoseConnection',
+						description: 'Test each phase of the SSH connection and report why it fails, without running commands',
+						action: 'Diagnose the SSH connection to a device',
+					},
+					{
+						name: 'Download File',
+						value: 'downloadFile',
+						description: 'Download a file from the device over SFTP or SCP',
+						action: 'Download a file from the device',
+					},
+					{
+						name: 'Generate Remediation',
+						value: 'generateRemediation',
+						description: 'Generate the commands that converge the running configuration on an intended one, and optionally apply them',
+						action: 'Generate remediation commands for configuration drift',
+					},
+					{
+						name: 'Get Device State',
+						value: 'getDeviceState',
+						description: 'Get facts, interfaces, ARP, MAC, LLDP or BGP state in the same JSON schema on every platform',
+						action: 'Get normalized device state',
+					},
+					{
+						name: 'Get Running Config',
+						value: 'getRunningConfig',
+						description: 'Get the current running configuration',
+						action: 'Get the current running configuration',
+					},
+					{
+						name: 'Interactive Command',
+						value: 'sendInteractive',
+						description: 'Send a command that asks questions and answer each prompt in turn',
+						action: 'Send an interactive command to the device',
+					},
+					{
+						name: 'Parse Config',
+						value: 'parseConfig',
+						description: 'Parse the running configuration into a parent/child tree and query it',
+						action: 'Parse the running configuration into a tree',
+					},
+					{
+						name: 'Ping',
+						value: 'ping',
+						description: 'Ping a target from the device and get the loss and round-trip times',
+						action: 'Ping a target from the device',
+					},
+					{
+						name: 'Reboot Device',
+						value: 'rebootDevice',
+						description: 'Reboot the network device',
+						action: 'Reboot the network device',
+					},
+					{
+						name: 'Replace Config',
+						value: 'replaceConfig',
+						description: 'Replace the whole configuration using the platform\'s native replace',
+						action: 'Replace the whole configuration',
+					},
+					{
+						name: 'Rollback Config',
+						value: 'rollbackConfig',
+						description: 'Roll back to a previous configuration revision or list the revisions',
+						action: 'Roll back to a previous configuration revision',
+					},
+					{
+						name: 'Save Config',
+						value: 'saveConfig',
+						description: 'Save the current configuration',
+						action: 'Save the current configuration',
+					},
+					{
+						name: 'Send Command',
+						value: 'sendCommand',
+						description: 'Send a command to the device and get the response',
+						action: 'Send a command to the device',
+					},
+					{
+						name: 'Send Commands',
+						value: 'sendCommands',
+						description: 'Send several commands over one session and get a result per command',
+						action: 'Send several commands to the device',
+					},
+					{
+						name: 'Send Config',
+						value: 'sendConfig',
+						description: 'Send configuration commands to the device',
+						action: 'Send configuration commands to the device',
+					},
+					{
+						name: 'Traceroute',
+						value: 'traceroute',
+						description: 'Trace the path from the device to a target and get the hops',
+						action: 'Trace the route from the device to a target',
+					},
+					{
+						name: 'Upgrade Software',
+						value: 'upgradeSoftware',
+						description: 'Copy, verify and stage a software image, then optionally reload and check the version',
+						action: 'Upgrade the device software',
+					},
+					{
+						name: 'Upload File',
+						value: 'uploadFile',
+						description: 'Upload a file to the device over SFTP or SCP',
+						action: 'Upload a file to the device',
+					},
+				],
+				default: 'sendCommand',
+            },
+			// ----------------------------------
+			//         Send Command Options
+			// ----------------------------------
+			{
+				displayName: 'Command',
+				name: 'command',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['sendCommand'],
+					},
+				},
+				description: 'The command to send to the device',
+				placeholder: 'show version',
+			},
+			// ----------------------------------
+			//         Send Commands Options
+			// ----------------------------------
+			{
+				displayName: 'Commands',
+				name: 'commands',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['sendCommands'],
+					},
+				},
+				description: 'Commands to send in order (one per line)',
+				placeholder: 'show version\nshow inventory\nshow ip interface brief',
+				typeOptions: {
+					rows: 5,
+				},
+			},
+			{
+				displayName: 'Stop on First Error',
+				name: 'stopOnError',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['sendCommands'],
+					},
+				},
+				description: 'Whether to skip the remaining commands once a command fails',
+			},
+			// ----------------------------------
+			//         Interactive Command Options
+			// ----------------------------------
+			{
+				displayName: 'Command',
+				name: 'interactiveCommand',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['sendInteractive'],
+					},
+				},
+				description: 'The command that starts the dialog',
+				placeholder: 'copy running-config tftp:',
+			},
+			{
+				displayName: 'Prompts',
+				name: 'interactionSteps',
+				type: 'fixedCollection',
+				placeholder: 'Add Prompt',
+				default: {},
+				typeOptions: {
+					multipleValues: true,
+					sortable: true,
+				},
+				displayOptions: {
+					show: {
+						operation: ['sendInteractive'],
+					},
+				},
+				description:
+					'Prompts the command asks, in order, with the answer to each. The command fails at the first prompt that does not appear in time.',
+				options: [
+					{
+						displayName: 'Prompt',
+						name: 'step',
+						values: [
+							{
+								displayName: 'Expect',
+								name: 'expect',
+								type: 'string',
+								default: '',
+								placeholder: 'Address or name of remote host \\[.*\\]\\?',
+								description: 'Regular expression the device output must match before the response is sent',
+							},
+							{
+								displayName: 'Response',
+								name: 'response',
+								type: 'string',
+								default: '',
+								placeholder: '192.0.2.10',
+								description: 'Text to send when the prompt appears. Leave empty to just press Enter.',
+							},
+							{
+								displayName: 'Timeout (Seconds)',
+								name: 'timeout',
+								type: 'number',
+								default: 10,
+								typeOptions: {
+									minValue: 1,
+								},
+								description: 'How long to wait for this prompt',
+							},
+							{
+								displayName: 'Send Newline',
+								name: 'sendNewline',
+								type: 'boolean',
+								default: true,
+								description: 'Whether to press Enter after the response. Turn off for single-key prompts such as (y/n) on FortiOS.',
+							},
+						],
+					},
+				],
+			},
+			// ----------------------------------
+			//         Output Parsing Options
+			// ----------------------------------
+			{
+				displayName: 'Parse Output',
+				name: 'parseOutput',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['sendCommand', 'sendCommands'],
+					},
+				},
+				description:
+					'Whether to parse the command output into JSON rows with a TextFSM template selected by device type and command. Built-in templates cover common show commands; the raw output is returned when none matches.',
+			},
+			{
+				displayName: 'TextFSM Templates',
+				name: 'textfsmTemplates',
+				type: 'fixedCollection',
+				placeholder: 'Add Template',
+				default: {},
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						operation: ['sendCommand', 'sendCommands'],
+						parseOutput: [true],
+					},
+				},
+				description:
+					'Additional templates, matched in order before the built-in ones. The first template for the device type and command is used.',
+				options: [
+					{
+						displayName: 'Template',
+						name: 'template',
+						values: [
+							{
+								displayName: 'Device Types',
+								name: 'deviceType',
+								type: 'string',
+								default: '',
+								placeholder: 'cisco_ios, cisco_ios_xe',
+								description:
+									'Comma-separated device types this template applies to. Leave empty to match any device type.',
+							},
+							{
+								displayName: 'Command',
+								name: 'command',
+								type: 'string',
+								default: '',
+								placeholder: 'sh[[ow]] ip int[[erface]] br[[ief]]',
+								description:
+									'Command the template parses. Use [[...]] for optional completions as in the ntc-templates index.',
+							},
+							{
+								displayName: 'Template',
+								name: 'template',
+								type: 'string',
+								default: '',
+								typeOptions: {
+									rows: 8,
+								},
+								placeholder: 'Value INTF (\\S+)\nValue STATUS (up|down)\n\nStart\n  ^${INTF}\\s+${STATUS} -> Record',
+								description: 'TextFSM template source',
+							},
+						],
+					},
+				],
+			},
+			// ----------------------------------
+			//         Send Config Options
+			// ----------------------------------
+			{
+				displayName: 'Configuration Commands',
+				name: 'configCommands',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['sendConfig'],
+					},
+				},
+				description: 'Configuration commands to send (one per line)',
+				placeholder: 'interface GigabitEthernet1/0/1\ndescription Test Interface\nno shutdown',
+				typeOptions: {
+					rows: 5,
+				},
+			},
+			{
+				displayName: 'Render as Template',
+				name: 'renderTemplate',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['sendConfig'],
+					},
+				},
+				description:
+					'Whether to render the configuration commands as a Jinja2 template with the input item fields and the template variables. The rendered configuration is returned for auditing.',
+			},
+			{
+				displayName: 'Template Variables',
+				name: 'templateVariables',
+				type: 'fixedCollection',
+				placeholder: 'Add Variable',
+				default: {},
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						operation: ['sendConfig'],
+						renderTemplate: [true],
+					},
+				},
+				description: 'Variables for the template, in addition to the fields of the input item. They take precedence over fields with the same name.',
+				options: [
+					{
+						displayName: 'Variable',
+						name: 'variable',
+						values: [
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								placeholder: 'ntp_servers',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+								placeholder: '["192.0.2.1", "192.0.2.2"]',
+								description: 'Value of the variable. JSON arrays and objects are parsed so they can be looped over.',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Device Type Templates',
+				name: 'templateVariants',
+				type: 'fixedCollection',
+				placeholder: 'Add Device Type Template',
+				default: {},
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						operation: ['sendConfig'],
+						renderTemplate: [true],
+					},
+				},
+				description:
+					'Templates for specific device types. The first one for the device type of the connection is rendered instead of the configuration commands.',
+				options: [
+					{
+						displayName: 'Template',
+						name: 'variant',
+						values: [
+							{
+								displayName: 'Device Types',
+								name: 'deviceType',
+								type: 'string',
+								default: '',
+								placeholder: 'juniper_junos, juniper_srx',
+								description: 'Comma-separated device types this template applies to',
+							},
+							{
+								displayName: 'Template',
+								name: 'template',
+								type: 'string',
+								default: '',
+								typeOptions: {
+									rows: 5,
+								},
+								placeholder: '{% for server in ntp_servers %}\nset system ntp server {{ server }}\n{% endfor %}',
+								description: 'Jinja2 template of the configuration commands',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Only Apply Changes',
+				name: 'onlyApplyChanges',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['sendConfig'],
+					},
+				},
+				description:
+					'Whether to read the running configuration first and only send the lines it does not have yet, with their parent sections. Nothing is sent when the device already has the configuration, and the output reports changed as true or false. Indent child lines below their parent as in the running configuration.',
+			},
+			{
+				displayName: 'Validate Only',
+				name: 'validateOnly',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['sendConfig'],
+					},
+				},
+				description:
+					'Whether to only load the commands into the candidate, run the platform check and return the diff, then discard the candidate. Supported on Junos, IOS-XR, PAN-OS and VyOS.',
+			},
+			{
+				displayName: 'Commit Confirmed',
+				name: 'commitConfirmed',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['sendConfig'],
+						validateOnly: [false],
+					},
+				},
+				description:
+					'Whether to commit with a confirm timer, reconnect, run the post-check commands and only confirm the commit when they pass. The device rolls back on its own when it cannot be reached again. Supported on Junos, IOS-XR and VyOS.',
+			},
+			{
+				displayName: 'Confirm Timeout (Minutes)',
+				name: 'confirmTimeout',
+				type: 'number',
+				default: 5,
+				typeOptions: {
+					minValue: 1,
+					maxValue: 60,
+				},
+				displayOptions: {
+					show: {
+						operation: ['sendConfig'],
+						validateOnly: [false],
+						commitConfirmed: [true],
+					},
+				},
+				description: 'Minutes before the device rolls back an unconfirmed commit',
+			},
+			{
+				displayName: 'Post-Check Commands',
+				name: 'postCheckCommands',
+				type: 'string',
+				default: '',
+				typeOptions: {
+					rows: 4,
+				},
+				displayOptions: {
+					show: {
+						operation: ['sendConfig'],
+						validateOnly: [false],
+						commitConfirmed: [true],
+					},
+				},
+				description:
+					'Commands to run on a new session after the commit (one per line). The commit is only confirmed when all of them succeed.',
+				placeholder: 'show bgp summary\nping 10.0.0.1 count 3',
+			},
+			{
+				displayName: 'Post-Check Failure Pattern',
+				name: 'postCheckFailPattern',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['sendConfig'],
+						validateOnly: [false],
+						commitConfirmed: [true],
+					},
+				},
+				description:
+					'Regular expression that fails a post-check when it matches the command output. Leave empty to only fail on command errors.',
+				placeholder: '100% packet loss|Idle|Active',
+			},
+			// ----------------------------------
+			//         Get Running Config Options
+			// ----------------------------------
+			{
+				displayName: 'Output as Binary',
+				name: 'binaryOutput',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['getRunningConfig'],
+					},
+				},
+				description:
+					'Whether to also return the configuration as a binary file, ready for nodes such as Write Binary File, S3 or Git',
+			},
+			{
+				displayName: 'Binary Property',
+				name: 'binaryPropertyName',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['getRunningConfig'],
+						binaryOutput: [true],
+					},
+				},
+				description: 'Name of the binary property to write the configuration file to',
+			},
+			{
+				displayName: 'File Name',
+				name: 'fileNameTemplate',
+				type: 'string',
+				default: DEFAULT_BACKUP_FILE_NAME,
+				displayOptions: {
+					show: {
+						operation: ['getRunningConfig'],
+						binaryOutput: [true],
+					},
+				},
+				description:
+					'File name template. Supports {host}, {port}, {deviceType} and {timestamp} (UTC, e.g. 2024-01-15T10-00-00Z).',
+			},
+			{
+				displayName: 'MIME Type',
+				name: 'mimeType',
+				type: 'string',
+				default: 'text/plain',
+				displayOptions: {
+					show: {
+						operation: ['getRunningConfig'],
+						binaryOutput: [true],
+					},
+				},
+				description: 'MIME type of the configuration file',
+			},
+			// ----------------------------------
+			//         Check Compliance Options
+			// ----------------------------------
+			{
+				displayName: 'Rules Source',
+				name: 'complianceRulesSource',
+				type: 'options',
+				default: 'text',
+				displayOptions: {
+					show: {
+						operation: ['checkCompliance'],
+					},
+				},
+				options: [
+					{
+						name: 'Binary Data',
+						value: 'binary',
+						description: 'Read the rules from a binary property of the input item',
+					},
+					{
+						name: 'Input Field',
+						value: 'field',
+						description: 'Read the rules from a field of the input item',
+					},
+					{
+						name: 'Text',
+						value: 'text',
+						description: 'Enter the rules directly',
+					},
+				],
+				description: 'Where the compliance rules come from',
+			},
+			{
+				displayName: 'Rules',
+				name: 'complianceRules',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['checkCompliance'],
+						complianceRulesSource: ['text'],
+					},
+				},
+				placeholder: 'rules:\n  - name: No Telnet\n    type: mustNotExist\n    pattern: transport input .*telnet',
+				description:
+					'Rule set in YAML or JSON. Rule types are mustExist, mustNotExist, regex, block and range.',
+				typeOptions: {
+					rows: 10,
+				},
+			},
+			{
+				displayName: 'Rules Field',
+				name: 'complianceRulesField',
+				type: 'string',
+				default: 'rules',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['checkCompliance'],
+						complianceRulesSource: ['field'],
+					},
+				},
+				description: 'Name of the input item field holding the rule set as YAML or JSON text. Use dot notation for nested fields.',
+			},
+			{
+				displayName: 'Rules Binary Property',
+				name: 'complianceRulesBinaryProperty',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['checkCompliance'],
+						complianceRulesSource: ['binary'],
+					},
+				},
+				description: 'Name of the binary property holding the rule set file',
+			},
+			// ----------------------------------
+			//         Compare Config Options
+			// ----------------------------------
+			{
+				displayName: 'Baseline Source',
+				name: 'baselineSource',
+				type: 'options',
+				default: 'text',
+				displayOptions: {
+					show: {
+						operation: ['compareConfig'],
+					},
+				},
+				options: [
+					{
+						name: 'Binary Data',
+						value: 'binary',
+						description: 'Read the baseline from a binary property of the input item',
+					},
+					{
+						name: 'Input Field',
+						value: 'field',
+						description: 'Read the baseline from a field of the input item',
+					},
+					{
+						name: 'Text',
+						value: 'text',
+						description: 'Enter the baseline configuration directly',
+					},
+				],
+				description: 'Where the baseline configuration comes from',
+			},
+			{
+				displayName: 'Baseline Config',
+				name: 'baselineConfig',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['compareConfig'],
+						baselineSource: ['text'],
+					},
+				},
+				description: 'Configuration to compare the running configuration against',
+				typeOptions: {
+					rows: 10,
+				},
+			},
+			{
+				displayName: 'Baseline Field',
+				name: 'baselineField',
+				type: 'string',
+				default: 'output',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['compareConfig'],
+						baselineSource: ['field'],
+					},
+				},
+				description:
+					'Name of the input item field holding the baseline, such as the output of a previous Get Running Config. Use dot notation for nested fields.',
+			},
+			{
+				displayName: 'Baseline Binary Property',
+				name: 'baselineBinaryProperty',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['compareConfig'],
+						baselineSource: ['binary'],
+					},
+				},
+				description: 'Name of the binary property holding the baseline file',
+			},
+			{
+				displayName: 'Compare Options',
+				name: 'compareOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['compareConfig'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Context Lines',
+						name: 'contextLines',
+						type: 'number',
+						default: 3,
+						description: 'Number of unchanged lines shown around each change',
+						typeOptions: {
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Ignore Patterns',
+						name: 'ignorePatterns',
+						type: 'string',
+						default: '',
+						placeholder: '^ntp clock-period',
+						description:
+							'Regular expressions, one per line. Matching lines are left out of the comparison on both sides.',
+						typeOptions: {
+							rows: 3,
+						},
+					},
+				],
+			},
+			// ----------------------------------
+			//         Generate Remediation Options
+			// ----------------------------------
+			{
+				displayName: 'Intended Config Source',
+				name: 'intendedSource',
+				type: 'options',
+				default: 'text',
+				displayOptions: {
+					show: {
+						operation: ['generateRemediation'],
+					},
+				},
+				options: [
+					{
+						name: 'Binary Data',
+						value: 'binary',
+						description: 'Read the intended configuration from a binary property of the input item',
+					},
+					{
+						name: 'Input Field',
+						value: 'field',
+						description: 'Read the intended configuration from a field of the input item',
+					},
+					{
+						name: 'Text',
+						value: 'text',
+						description: 'Enter the intended configuration directly',
+					},
+				],
+				description: 'Where the intended (golden) configuration comes from',
+			},
+			{
+				displayName: 'Intended Config',
+				name: 'intendedConfig',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['generateRemediation'],
+						intendedSource: ['text'],
+					},
+				},
+				description: 'Configuration the device should converge on, in the syntax the device prints or as set commands',
+				typeOptions: {
+					rows: 10,
+				},
+			},
+			{
+				displayName: 'Intended Config Field',
+				name: 'intendedField',
+				type: 'string',
+				default: 'config',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['generateRemediation'],
+						intendedSource: ['field'],
+					},
+				},
+				description: 'Name of the input item field holding the intended configuration. Use dot notation for nested fields.',
+			},
+			{
+				displayName: 'Intended Config Binary Property',
+				name: 'intendedBinaryProperty',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['generateRemediation'],
+						intendedSource: ['binary'],
+					},
+				},
+				description: 'Name of the binary property holding the intended configuration file',
+			},
+			{
+				displayName: 'Apply Remediation',
+				name: 'applyRemediation',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['generateRemediation'],
+					},
+				},
+				description: 'Whether to send the remediation commands to the device right away instead of only returning them',
+			},
+			{
+				displayName: 'Ignore Patterns',
+				name: 'remediationIgnorePatterns',
+				type: 'string',
+				default: '',
+				placeholder: '^ntp clock-period\n^crypto pki certificate',
+				displayOptions: {
+					show: {
+						operation: ['generateRemediation'],
+					},
+				},
+				description: 'Regular expressions, one per line. Matching lines are left out on both sides and never added or removed.',
+				typeOptions: {
+					rows: 3,
+				},
+			},
+			// ----------------------------------
+			//         Parse Config Options
+			// ----------------------------------
+			{
+				displayName: 'Config Syntax',
+				name: 'configSyntax',
+				type: 'options',
+				default: 'auto',
+				displayOptions: {
+					show: {
+						operation: ['parseConfig'],
+					},
+				},
+				options: [
+					{
+						name: 'Auto Detect',
+						value: 'auto',
+						description: 'Pick the syntax from the device type and the configuration',
+					},
+					{
+						name: 'Brace Blocks',
+						value: 'brace',
+						description: 'Blocks in braces, as in Junos, PAN-OS and VyOS',
+					},
+					{
+						name: 'FortiOS Blocks',
+						value: 'fortios',
+						description: 'Config, edit, next and end blocks',
+					},
+					{
+						name: 'Indented',
+						value: 'indent',
+						description: 'Children indented below their parent, as in Cisco and Ericsson',
+					},
+					{
+						name: 'Set Commands',
+						value: 'set',
+						description: 'Flat set commands, nested word by word',
+					},
+				],
+				description: 'How the configuration nests its statements',
+			},
+			{
+				displayName: 'Query',
+				name: 'configQuery',
+				type: 'options',
+				default: 'tree',
+				displayOptions: {
+					show: {
+						operation: ['parseConfig'],
+					},
+				},
+				options: [
+					{
+						name: 'Children of Matching Lines',
+						value: 'children',
+						description: 'Direct children of the lines matching the pattern',
+					},
+					{
+						name: 'Full Tree',
+						value: 'tree',
+						description: 'Return the whole configuration tree',
+					},
+					{
+						name: 'Lines With Child',
+						value: 'parentsWithChild',
+						description: 'Lines matching the pattern that have a child matching the child pattern',
+					},
+					{
+						name: 'Lines Without Child',
+						value: 'parentsWithoutChild',
+						description: 'Lines matching the pattern that have no child matching the child pattern',
+					},
+					{
+						name: 'Matching Lines',
+						value: 'find',
+						description: 'Lines at any depth matching the pattern',
+					},
+				],
+				description: 'What to return from the parsed configuration',
+			},
+			{
+				displayName: 'Pattern',
+				name: 'configPattern',
+				type: 'string',
+				default: '',
+				required: true,
+				placeholder: '^interface ',
+				displayOptions: {
+					show: {
+						operation: ['parseConfig'],
+						configQuery: ['children', 'find', 'parentsWithChild', 'parentsWithoutChild'],
+					},
+				},
+				description: 'Regular expression matched against each configuration line, without indentation',
+			},
+			{
+				displayName: 'Child Pattern',
+				name: 'configChildPattern',
+				type: 'string',
+				default: '',
+				placeholder: '^description',
+				displayOptions: {
+					show: {
+						operation: ['parseConfig'],
+						configQuery: ['children', 'parentsWithChild', 'parentsWithoutChild'],
+					},
+				},
+				description: 'Regular expression for the children. For Children of Matching Lines, leave empty to return all children.',
+			},
+			{
+				displayName: 'Search All Descendants',
+				name: 'configRecursive',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['parseConfig'],
+						configQuery: ['parentsWithChild', 'parentsWithoutChild'],
+					},
+				},
+				description: 'Whether to look for the child at any depth below the line instead of only among its direct children',
+			},
+			// ----------------------------------
+			//         Replace Config Options
+			// ----------------------------------
+			{
+				displayName: 'Configuration Source',
+				name: 'replacementSource',
+				type: 'options',
+				default: 'text',
+				displayOptions: {
+					show: {
+						operation: ['replaceConfig'],
+					},
+				},
+				options: [
+					{
+						name: 'Binary Data',
+						value: 'binary',
+						description: 'Read the configuration from a binary property of the input item',
+					},
+					{
+						name: 'Input Field',
+						value: 'field',
+						description: 'Read the configuration from a field of the input item',
+					},
+					{
+						name: 'Text',
+						value: 'text',
+						description: 'Enter the configuration directly',
+					},
+				],
+				description: 'Where the replacement configuration comes from',
+			},
+			{
+				displayName: 'Configuration',
+				name: 'replacementConfig',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['replaceConfig'],
+						replacementSource: ['text'],
+					},
+				},
+				description: 'Full configuration that replaces the running configuration',
+				typeOptions: {
+					rows: 10,
+				},
+			},
+			{
+				displayName: 'Configuration Field',
+				name: 'replacementField',
+				type: 'string',
+				default: 'output',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['replaceConfig'],
+						replacementSource: ['field'],
+					},
+				},
+				description: 'Name of the input item field holding the configuration. Use dot notation for nested fields.',
+			},
+			{
+				displayName: 'Configuration Binary Property',
+				name: 'replacementBinaryProperty',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['replaceConfig'],
+						replacementSource: ['binary'],
+					},
+				},
+				description: 'Name of the binary property holding the configuration file',
+			},
+			// ----------------------------------
+			//         Rollback Config Options
+			// ----------------------------------
+			{
+				displayName: 'Mode',
+				name: 'rollbackMode',
+				type: 'options',
+				default: 'rollback',
+				displayOptions: {
+					show: {
+						operation: ['rollbackConfig'],
+					},
+				},
+				options: [
+					{
+						name: 'List Revisions',
+						value: 'listRevisions',
+						description: 'Return the commit history as one item per revision',
+					},
+					{
+						name: 'Rollback',
+						value: 'rollback',
+						description: 'Restore a revision and commit it',
+					},
+				],
+			},
+			{
+				displayName: 'Revision',
+				name: 'revision',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['rollbackConfig'],
+						rollbackMode: ['rollback'],
+					},
+				},
+				description:
+					'Revision to restore, as returned by List Revisions: a rollback number on Junos and VyOS, a commit ID or number of commits on IOS-XR, a checkpoint name on NX-OS or a config version on PAN-OS',
+				placeholder: '1',
+			},
+			// ----------------------------------
+			//         Get Device State Options
+			// ----------------------------------
+			{
+				displayName: 'Getters',
+				name: 'getters',
+				type: 'multiOptions',
+				options: [
 					{
-						name: 'Get Running Config',
-						value: 'getRunningConfig',
-						description: 'Get the current running configuration',
-						action: 'Get the current running configuration',
+						name: 'ARP Table',
+						value: 'arpTable',
+						description: 'Like NAPALM get_arp_table',
 					},
 					{
-						name: 'Reboot Device',
-						value: 'rebootDevice',
-						description: 'Reboot the network device',
-						action: 'Reboot the network device',
+						name: 'BGP Neighbors',
+						value: 'bgpNeighbors',
+						description: 'Like NAPALM get_bgp_neighbors',
 					},
 					{
-						name: 'Save Config',
-						value: 'saveConfig',
-						description: 'Save the current configuration',
-						action: 'Save the current configuration',
+						name: 'Facts',
+						value: 'facts',
+						description: 'Like NAPALM get_facts',
 					},
 					{
-						name: 'Send Command',
-						value: 'sendCommand',
-						description: 'Send a command to the device and get the response',
-						action: 'Send a command to the device',
+						name: 'Interface IPs',
+						value: 'interfacesIp',
+						description: 'Like NAPALM get_interfaces_ip',
 					},
 					{
-						name: 'Send Config',
-						value: 'sendConfig',
-						description: 'Send configuration commands to the device',
-						action: 'Send configuration commands to the device',
+						name: 'Interfaces',
+						value: 'interfaces',
+						description: 'Like NAPALM get_interfaces',
+					},
+					{
+						name: 'LLDP Neighbors',
+						value: 'lldpNeighbors',
+						description: 'Like NAPALM get_lldp_neighbors',
+					},
+					{
+						name: 'MAC Address Table',
+						value: 'macAddressTable',
+						description: 'Like NAPALM get_mac_address_table',
 					},
 				],
-				default: 'sendCommand',
-            },
+				default: ['facts'],
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['getDeviceState'],
+					},
+				},
+				description: 'State to collect; each getter is returned under its own key',
+			},
 			// ----------------------------------
-			//         Send Command Options
+			//         Ping and Traceroute Options
 			// ----------------------------------
 			{
-				displayName: 'Command',
-				name: 'command',
+				displayName: 'Target',
+				name: 'pingTarget',
 				type: 'string',
 				default: '',
 				required: true,
 				displayOptions: {
 					show: {
-						operation: ['sendCommand'],
+						operation: ['ping', 'traceroute'],
 					},
 				},
-				description: 'The command to send to the device',
-				placeholder: 'show version',
+				description: 'Address or host name to reach from the device',
+				placeholder: '192.0.2.1',
+			},
+			{
+				displayName: 'Count',
+				name: 'pingCount',
+				type: 'number',
+				default: 5,
+				typeOptions: {
+					minValue: 1,
+					maxValue: 1000,
+				},
+				displayOptions: {
+					show: {
+						operation: ['ping'],
+					},
+				},
+				description: 'Number of echo requests to send',
+			},
+			{
+				displayName: 'Packet Size',
+				name: 'pingSize',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+					maxValue: 65000,
+				},
+				displayOptions: {
+					show: {
+						operation: ['ping'],
+					},
+				},
+				description: 'Size of each echo request in bytes. 0 uses the device default.',
+			},
+			{
+				displayName: 'Source',
+				name: 'pingSource',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['ping', 'traceroute'],
+					},
+				},
+				description: 'Source interface or address. Leave empty to let the device choose.',
+				placeholder: 'Loopback0',
+			},
+			{
+				displayName: 'VRF / Instance',
+				name: 'pingVrf',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['ping', 'traceroute'],
+					},
+				},
+				description:
+					'VRF on Cisco, Linux and VyOS, routing instance on Junos, vsys on PAN-OS or VDOM on FortiOS. Leave empty for the default.',
+			},
+			{
+				displayName: 'Timeout (Seconds)',
+				name: 'pingTimeout',
+				type: 'number',
+				default: 60,
+				typeOptions: {
+					minValue: 5,
+				},
+				displayOptions: {
+					show: {
+						operation: ['ping', 'traceroute'],
+					},
+				},
+				description: 'Maximum time to wait for the ping or traceroute to finish',
 			},
 			// ----------------------------------
-			//         Send Config Options
+			//         File Transfer Options
 			// ----------------------------------
 			{
-				displayName: 'Configuration Commands',
-				name: 'configCommands',
+				displayName: 'Remote Path',
+				name: 'remotePath',
 				type: 'string',
 				default: '',
 				required: true,
 				displayOptions: {
 					show: {
-						operation: ['sendConfig'],
+						operation: ['downloadFile', 'upgradeSoftware', 'uploadFile'],
 					},
 				},
-				description: 'Configuration commands to send (one per line)',
-				placeholder: 'interface GigabitEthernet1/0/1\ndescription Test Interface\nno shutdown',
+				description: 'Path of the file on the device',
+				placeholder: 'flash:/c8000v-universalk9.17.09.04a.SPA.bin',
+			},
+			{
+				displayName: 'Binary Property',
+				name: 'transferBinaryProperty',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['downloadFile', 'upgradeSoftware', 'uploadFile'],
+					},
+				},
+				description: 'Name of the binary property to upload from, or to write the downloaded file to',
+			},
+			{
+				displayName: 'Verify Checksum',
+				name: 'verifyChecksum',
+				type: 'boolean',
+				default: true,
+				displayOptions: {
+					show: {
+						operation: ['downloadFile', 'upgradeSoftware', 'uploadFile'],
+					},
+				},
+				description:
+					'Whether to compare the checksum reported by the device with the transferred data. Uses verify /md5 on Cisco IOS, IOS-XE and ASA, show file md5sum on NX-OS, show md5 file on IOS-XR, file checksum on Junos and sha256sum on Linux and VyOS.',
+			},
+			{
+				displayName: 'Transfer Timeout (Seconds)',
+				name: 'transferTimeout',
+				type: 'number',
+				default: 600,
 				typeOptions: {
-					rows: 5,
+					minValue: 10,
+				},
+				displayOptions: {
+					show: {
+						operation: ['downloadFile', 'upgradeSoftware', 'uploadFile'],
+					},
+				},
+				description: 'Maximum time for the transfer and checksum verification',
+			},
+			// ----------------------------------
+			//         Upgrade Software Options
+			// ----------------------------------
+			{
+				displayName: 'Reload After Staging',
+				name: 'reloadAfterStaging',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['upgradeSoftware'],
+					},
+				},
+				description:
+					'Whether to reload the device once the image is staged, wait for it to come back and check the running version',
+			},
+			{
+				displayName: 'Expected Version',
+				name: 'expectedVersion',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['upgradeSoftware'],
+						reloadAfterStaging: [true],
+					},
+				},
+				description: 'Version the device must report after the reload. Leave empty to only require a version other than the one before the upgrade.',
+				placeholder: '17.09.04a',
+			},
+			{
+				displayName: 'Reload Timeout (Minutes)',
+				name: 'reloadTimeout',
+				type: 'number',
+				default: 30,
+				typeOptions: {
+					minValue: 1,
+					maxValue: 120,
+				},
+				displayOptions: {
+					show: {
+						operation: ['upgradeSoftware'],
+						reloadAfterStaging: [true],
+					},
 				},
+				description: 'How long to wait for the device to accept connections again after the reload',
+			},
+			// ----------------------------------
+			//         Device Overrides
+			// ----------------------------------
+			{
+				displayName: 'Device Overrides',
+				name: 'deviceOverrides',
+				type: 'collection',
+				placeholder: 'Add Override',
+				default: {},
+				description:
+					'Per-item target settings that take precedence over the credential. Username, password and keys always come from the credential.',
+				options: [
+					{
+						displayName: 'Device Type',
+						name: 'deviceType',
+						type: 'options',
+						options: ConnectionDispatcher.getDeviceTypeOptions(),
+						default: '',
+						description: 'The type of network device to connect to for this item',
+					},
+					{
+						displayName: 'Host',
+						name: 'host',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. {{ $json.host }}',
+						description: 'The hostname or IP address of the network device for this item',
+					},
+					{
+						displayName: 'Port',
+						name: 'port',
+						type: 'number',
+						default: 22,
+						description: 'The SSH port number of the network device for this item',
+						typeOptions: {
+							minValue: 1,
+							maxValue: 65535,
+						},
+					},
+				],
 			},
 			// ----------------------------------
 			//         Advanced Options
@@ -146,7 +1718,7 @@ export class NetDevicesUbuntu implements INodeType {
 						name: 'commandRetryCount',
 						type: 'number',
 						default: 2,
-						description: 'Number of retry attempts for command failures',
+						description: 'Number of retry attempts for command failures. Operations that change the device, such as Replace Config, Rollback Config, Interactive Command, Upload File, Upgrade Software, Commit Confirmed and applied remediation, run once.',
 						typeOptions: {
 							minValue: 1,
 							maxValue: 5,
@@ -279,14 +1851,20 @@ async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
             connectionPooling,
             reuseConnection
         });
-        
+
+        // Per-item overrides for the target device; authentication always comes from the credential
+        const deviceOverrides = this.getNodeParameter('deviceOverrides', i, {}) as IDataObject;
+        const overrideHost = deviceOverrides.host ? String(deviceOverrides.host).trim() : '';
+        const overridePort = deviceOverrides.port !== undefined && deviceOverrides.port !== '' ? Number(deviceOverrides.port) : undefined;
+        const overrideDeviceType = deviceOverrides.deviceType ? String(deviceOverrides.deviceType).trim() : '';
+
         // Configure device credentials with optimization options
         const deviceCredentials: any = {
-            host: credentials.host as string,
-            port: credentials.port as number,
+            host: overrideHost || (credentials.host as string),
+            port: overridePort !== undefined ? overridePort : (credentials.port as number),
             username: credentials.username as string,
             authMethod: credentials.authMethod as 'password' | 'privateKey',
-            deviceType: credentials.deviceType as string,
+            deviceType: overrideDeviceType || (credentials.deviceType as string),
             timeout: connectionTimeout / 1000,
             keepAlive: true,
             fastMode: fastMode,
@@ -313,6 +1891,30 @@ async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
             (deviceCredentials as any).enablePassword = credentials.enablePassword;
         }
 
+        // Keyboard-interactive prompts answered by rules, e.g. a TOTP code after the password
+        if (credentials.keyboardInteractive) {
+            deviceCredentials.keyboardInteractive = true;
+            deviceCredentials.promptResponses = credentials.promptResponses;
+            deviceCredentials.totpSecret = credentials.totpSecret;
+        }
+
+        deviceCredentials.algorithmProfile = (credentials.algorithmProfile as string) || 'auto';
+        if (credentials.customAlgorithms) {
+            deviceCredentials.algorithms = getAlgorithmOverrides(credentials, 'ssh');
+        }
+
+        // Host key verification; keys trusted on first use are kept in the workflow static data
+        deviceCredentials.hostKeyPolicy = (credentials.hostKeyPolicy as string) || 'trustOnFirstUse';
+        deviceCredentials.hostFingerprints = credentials.hostFingerprints;
+        deviceCredentials.knownHosts = credentials.knownHosts;
+        if (deviceCredentials.hostKeyPolicy === 'trustOnFirstUse') {
+            const staticData = this.getWorkflowStaticData('node');
+            if (!staticData.hostKeys) {
+                staticData.hostKeys = {};
+            }
+            deviceCredentials.hostKeyStore = staticData.hostKeys;
+        }
+
         // Add jump host fields if useJumpHost is enabled
         if (credentials.useJumpHost) {
             deviceCredentials.useJumpHost = true;
@@ -323,6 +1925,16 @@ async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
             deviceCredentials.jumpHostPassword = credentials.jumpHostPassword;
             deviceCredentials.jumpHostPrivateKey = credentials.jumpHostPrivateKey;
             deviceCredentials.jumpHostPassphrase = credentials.jumpHostPassphrase;
+            deviceCredentials.jumpHostFingerprints = credentials.jumpHostFingerprints;
+            deviceCredentials.jumpHostKnownHosts = credentials.jumpHostKnownHosts;
+            if (credentials.jumpHostKeyboardInteractive) {
+                deviceCredentials.jumpHostKeyboardInteractive = true;
+                deviceCredentials.jumpHostPromptResponses = credentials.jumpHostPromptResponses;
+                deviceCredentials.jumpHostTotpSecret = credentials.jumpHostTotpSecret;
+            }
+            if (credentials.jumpHostCustomAlgorithms) {
+                deviceCredentials.jumpHostAlgorithms = getAlgorithmOverrides(credentials, 'jumpHostSsh');
+            }
         }
 
         Logger.debug('Configured device credentials', {
@@ -343,6 +1955,50 @@ async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 
                 try {
 
+            // Validate the target settings, which may come from per-item overrides
+            if (!deviceCredentials.host) {
+                throw new NodeOperationError(
+                    this.getNode(),
+                    'No host specified in the credential or the device overrides',
+                    { itemIndex: i },
+                );
+            }
+            if (!Number.isInteger(deviceCredentials.port) || deviceCredentials.port < 1 || deviceCredentials.port > 65535) {
+                throw new NodeOperationError(
+                    this.getNode(),
+                    `Invalid port "${deviceCredentials.port}" for device ${deviceCredentials.host}`,
+                    { itemIndex: i },
+                );
+            }
+            if (!ConnectionDispatcher.isDeviceTypeSupported(deviceCredentials.deviceType)) {
+                throw new NodeOperationError(
+                    this.getNode(),
+                    `Unsupported device type "${deviceCredentials.deviceType}" for device ${deviceCredentials.host}`,
+                    { itemIndex: i, description: `Supported types: ${ConnectionDispatcher.getSupportedDeviceTypes().join(', ')}` },
+                );
+            }
+
+            // The diagnosis makes its own connections, one per phase, instead of the device session
+            if (operation === 'diagnoseConnection') {
+                const report = await diagnoseConnection(deviceCredentials, connectionTimeout);
+                const output = report.steps
+                    .map(step => `[${step.success ? 'OK' : 'FAIL'}] ${step.name} (${step.duration} ms): ${step.message}`)
+                    .concat(`Suggestion: ${report.suggestion}`)
+                    .join('\n');
+                returnData.push(...this.helpers.constructExecutionMetaData(
+                    this.helpers.returnJsonArray({
+                        command: operation,
+                        output,
+                        deviceType: deviceCredentials.deviceType,
+                        timestamp: new Date().toISOString(),
+                        executionTime: Date.now() - startTime,
+                        ...report,
+                    } as unknown as IDataObject),
+                    { itemData: { item: i } },
+                ));
+                continue;
+            }
+
             // Connection with retry logic and timeout
             let connectionError: Error | null = null;
             
@@ -364,11 +2020,21 @@ async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
                     
                 } catch (error) {
                     connectionError = error instanceof Error ? error : new Error(String(error));
+
+                    // A changed host key is not retried
+                    if (connectionError instanceof HostKeyMismatchError) {
+                        throw new NodeOperationError(this.getNode(), connectionError.message, {
+                            itemIndex: i,
+                            description:
+                                'Update the pinned fingerprints or known_hosts entries in the credential if the key change is expected. ' +
+                                'A key trusted on first use is forgotten when the workflow static data is reset.',
+                        });
+                    }
                     
                     if (attempt === connectionRetryCount) {
                         throw new NodeOperationError(
                             this.getNode(),
-                            `Failed to connect to device ${credentials.host} after ${connectionRetryCount} attempts. Last error: ${connectionError.message}`,
+                            `Failed to connect to device ${deviceCredentials.host} after ${connectionRetryCount} attempts. Last error: ${connectionError.message}`,
                             { itemIndex: i, description: `Connection attempts: ${attempt}/${connectionRetryCount}` },
                         );
                     }
@@ -379,14 +2045,76 @@ async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
                 }
             }
 
-            let result: CommandResult;
+            let result: OperationResult;
             let commandError: Error | null = null;
 
+            // Batches get the command timeout once per command
+            let operationTimeout = commandTimeout;
+            if (operation === 'sendCommands') {
+                const batchSize = splitLines(this.getNodeParameter('commands', i, '') as string).length;
+                operationTimeout = commandTimeout * Math.max(1, batchSize);
+            }
+            const validateOnly = operation === 'sendConfig' && (this.getNodeParameter('validateOnly', i, false) as boolean);
+            const commitConfirmed =
+                operation === 'sendConfig' && !validateOnly && (this.getNodeParameter('commitConfirmed', i, false) as boolean);
+            const applyRemediation =
+                operation === 'generateRemediation' && (this.getNodeParameter('applyRemediation', i, false) as boolean);
+            if (operation === 'replaceConfig' || operation === 'rollbackConfig' || validateOnly || commitConfirmed || applyRemediation) {
+                operationTimeout = Math.max(commandTimeout, CONFIG_OPERATION_TIMEOUT);
+            }
+            if (commitConfirmed) {
+                // The commit and the confirm each get the configuration timeout, with every
+                // reconnect attempt and post-check in between, and never less than the confirm
+                // timer, so the run is not abandoned while it may still confirm the commit
+                const postCheckCount = splitLines(this.getNodeParameter('postCheckCommands', i, '') as string).length;
+                const confirmTimer = (this.getNodeParameter('confirmTimeout', i, 5) as number) * 60000;
+                operationTimeout = 2 * Math.max(commandTimeout, CONFIG_OPERATION_TIMEOUT) +
+                    Math.max(
+                        confirmTimer,
+                        COMMIT_CONFIRMED_RECONNECT_ATTEMPTS * (connectionTimeout + retryDelay) + postCheckCount * commandTimeout,
+                    );
+            }
+            if (operation === 'sendConfig' && (this.getNodeParameter('onlyApplyChanges', i, false) as boolean)) {
+                // The running configuration is read before anything is sent
+                operationTimeout += commandTimeout;
+            }
+            if (operation === 'uploadFile' || operation === 'downloadFile') {
+                operationTimeout = Math.max(commandTimeout, (this.getNodeParameter('transferTimeout', i, 600) as number) * 1000);
+            }
+            if (operation === 'getDeviceState') {
+                // A getter runs up to five show commands
+                const getterCount = (this.getNodeParameter('getters', i, []) as string[]).length;
+                operationTimeout = Math.max(commandTimeout, 20000) * 5 * Math.max(1, getterCount);
+            }
+            if (operation === 'ping' || operation === 'traceroute') {
+                // Option commands on FortiOS and PAN-OS run before and after the probe
+                operationTimeout = (this.getNodeParameter('pingTimeout', i, 60) as number) * 1000 + commandTimeout * 4;
+            }
+            if (operation === 'upgradeSoftware') {
+                // The checks and checksum, the wait for staging, which installs the package on Junos,
+                // and the reload wait come on top of the transfer
+                const reloadAfterStaging = this.getNodeParameter('reloadAfterStaging', i, false) as boolean;
+                operationTimeout = (this.getNodeParameter('transferTimeout', i, 600) as number) * 1000 +
+                    2 * CONFIG_OPERATION_TIMEOUT +
+                    SOFTWARE_STAGING_TIMEOUT +
+                    (reloadAfterStaging ? (this.getNodeParameter('reloadTimeout', i, 30) as number) * 60000 : 0);
+            }
+            if (operation === 'sendInteractive') {
+                const steps = this.getNodeParameter('interactionSteps.step', i, []) as IDataObject[];
+                operationTimeout = commandTimeout + steps.reduce((total, step) => total + ((step.timeout as number) || 10) * 1000, 0);
+            }
+
+            // A timed-out attempt may still be running on the channel, so operations
+            // that change the device are not sent again
+            const retryable = !['replaceConfig', 'rollbackConfig', 'sendInteractive', 'upgradeSoftware', 'uploadFile'].includes(operation) &&
+                !commitConfirmed && !applyRemediation;
+            const commandAttempts = retryable ? commandRetryCount : 1;
+
             // Command execution with retry logic and timeout
-            for (let attempt = 1; attempt <= commandRetryCount; attempt++) {
+            for (let attempt = 1; attempt <= commandAttempts; attempt++) {
                 try {
                     // Create command execution promise with timeout
-                    const executeCommand = async (): Promise<CommandResult> => {
+                    const executeCommand = async (): Promise<OperationResult> => {
                         switch (operation) {
                             case 'sendCommand':
                                 const command = this.getNodeParameter('command', i) as string;
@@ -399,8 +2127,79 @@ async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
                                  }
                                 return await connection.sendCommand(command);
 
+                            case 'sendCommands': {
+                                const commandList = splitLines(this.getNodeParameter('commands', i) as string);
+                                if (commandList.length === 0) {
+                                    throw new NodeOperationError(
+                                        this.getNode(),
+                                        'At least one command is required for sendCommands operation',
+                                        { itemIndex: i },
+                                    );
+                                }
+                                const stopOnError = this.getNodeParameter('stopOnError', i, false) as boolean;
+                                const results = await connection.sendCommands(commandList, stopOnError);
+                                const failed = results.find((entry: CommandResult) => !entry.success);
+
+                                return {
+                                    command: commandList.join('\n'),
+                                    output: results.map((entry: CommandResult) => entry.output).join('\n'),
+                                    success: !failed,
+                                    error: failed ? `Command "${failed.command}" failed: ${failed.error}` : undefined,
+                                    data: {
+                                        results: results as unknown as IDataObject[],
+                                        executedCount: results.length,
+                                        skippedCount: commandList.length - results.length,
+                                    },
+                                };
+                            }
+
+                            case 'sendInteractive': {
+                                const interactiveCommand = this.getNodeParameter('interactiveCommand', i) as string;
+                                if (!interactiveCommand) {
+                                    throw new NodeOperationError(
+                                        this.getNode(),
+                                        'Command parameter is required for sendInteractive operation',
+                                        { itemIndex: i },
+                                    );
+                                }
+
+                                const steps: InteractiveStep[] = [];
+                                for (const step of this.getNodeParameter('interactionSteps.step', i, []) as IDataObject[]) {
+                                    try {
+                                        steps.push({
+                                            expect: new RegExp(step.expect as string),
+                                            response: (step.response as string) || '',
+                                            timeout: ((step.timeout as number) || 10) * 1000,
+                                            sendNewline: step.sendNewline !== false,
+                                        });
+                                    } catch (error) {
+                                        throw new NodeOperationError(
+                                            this.getNode(),
+                                            `Invalid prompt pattern "${step.expect}": ${(error as Error).message}`,
+                                            { itemIndex: i },
+                                        );
+                                    }
+                                }
+
+                                const interaction = await connection.sendInteractive(interactiveCommand, steps, commandTimeout);
+                                return {
+                                    command: interaction.command,
+                                    output: interaction.output,
+                                    success: interaction.success,
+                                    error: interaction.error,
+                                    data: {
+                                        steps: interaction.steps as unknown as IDataObject[],
+                                        matchedCount: interaction.steps.filter((step: InteractiveStepResult) => step.matched).length,
+                                    },
+                                };
+                            }
+
                             case 'sendConfig':
-                                const configCommands = this.getNodeParameter('configCommands', i) as string;
+                                let configCommands = this.getNodeParameter('configCommands', i) as string;
+                                const renderTemplate = this.getNodeParameter('renderTemplate', i, false) as boolean;
+                                if (renderTemplate) {
+                                    configCommands = renderItemTemplate(this, i, connection.getDeviceType(), configCommands);
+                                }
                                                                  if (!configCommands) {
                                      throw new NodeOperationError(
                                          this.getNode(),
@@ -408,13 +2207,541 @@ async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
                                          { itemIndex: i },
                                      );
                                  }
-                                const commands = configCommands.split('\n')
-                                    .map(cmd => cmd.trim())
-                                    .filter(cmd => cmd.length > 0);
-                                return await connection.sendConfig(commands);
+                                let commands = splitLines(configCommands);
+                                // Rendered templates are returned so the pushed configuration can be audited
+                                const configData: IDataObject = renderTemplate ? { renderedConfig: configCommands } : {};
+                                if (this.getNodeParameter('onlyApplyChanges', i, false) as boolean) {
+                                    const running = await connection.getCurrentConfig();
+                                    if (!running.success) {
+                                        return running;
+                                    }
+                                    const pending = getPendingConfig(configCommands, running.output, connection.getDeviceType());
+                                    configData.changed = pending.changed;
+                                    configData.presentCount = pending.presentCount;
+                                    configData.appliedCommands = pending.commands;
+                                    if (!pending.changed) {
+                                        return {
+                                            command: running.command,
+                                            output: '',
+                                            success: true,
+                                            data: configData,
+                                        };
+                                    }
+                                    commands = pending.commands.map((command) => command.trim());
+                                }
+                                if (validateOnly) {
+                                    const validation = await connection.validateConfig(commands);
+                                    return {
+                                        command: validation.command,
+                                        output: validation.diff,
+                                        success: validation.success,
+                                        error: validation.error,
+                                        data: {
+                                            ...configData,
+                                            validateOnly: true,
+                                            valid: validation.valid,
+                                            diff: validation.diff,
+                                            messages: validation.messages,
+                                            validationScope: validation.scope,
+                                            checkOutput: validation.output,
+                                        },
+                                    };
+                                }
+                                if (commitConfirmed) {
+                                    const confirmTimeout = this.getNodeParameter('confirmTimeout', i, 5) as number;
+                                    const postCheckCommands = splitLines(this.getNodeParameter('postCheckCommands', i, '') as string);
+                                    const failPattern = this.getNodeParameter('postCheckFailPattern', i, '') as string;
+                                    let postCheckFailPattern: RegExp | undefined;
+                                    try {
+                                        postCheckFailPattern = failPattern ? new RegExp(failPattern, 'm') : undefined;
+                                    } catch (error) {
+                                        throw new NodeOperationError(
+                                            this.getNode(),
+                                            `Invalid post-check failure pattern: ${(error as Error).message}`,
+                                            { itemIndex: i },
+                                        );
+                                    }
+
+                                    // The checks run on a new session so lost management access is detected
+                                    const reconnect = () => connectWithTimeout(deviceCredentials, connectionTimeout);
+
+                                    const outcome = await runCommitConfirmed(connection, commands, reconnect, {
+                                        confirmTimeout,
+                                        postCheckCommands,
+                                        postCheckFailPattern,
+                                        reconnectAttempts: COMMIT_CONFIRMED_RECONNECT_ATTEMPTS,
+                                        reconnectDelay: retryDelay,
+                                    });
+                                    return {
+                                        command: commands.join('\n'),
+                                        output: outcome.phases.map((phase) => phase.output || '').filter(Boolean).join('\n'),
+                                        success: outcome.success,
+                                        error: outcome.error,
+                                        data: {
+                                            ...configData,
+                                            commitConfirmed: true,
+                                            confirmed: outcome.confirmed,
+                                            rollbackPending: outcome.rollbackPending,
+                                            confirmTimeout,
+                                            phases: outcome.phases as unknown as IDataObject[],
+                                            postCheckResults: outcome.postCheckResults as unknown as IDataObject[],
+                                        },
+                                    };
+                                }
+                                const applied: OperationResult = await connection.sendConfig(commands);
+                                return Object.keys(configData).length > 0 ? { ...applied, data: configData } : applied;
+
+                            case 'generateRemediation': {
+                                const intended = await getConfigInput(this, i, INTENDED_PARAMETERS);
+                                let ignorePatterns: RegExp[];
+                                try {
+                                    ignorePatterns = splitLines(this.getNodeParameter('remediationIgnorePatterns', i, '') as string)
+                                        .map(pattern => new RegExp(pattern));
+                                } catch (error) {
+                                    throw new NodeOperationError(
+                                        this.getNode(),
+                                        `Invalid ignore pattern: ${error instanceof Error ? error.message : String(error)}`,
+                                        { itemIndex: i },
+                                    );
+                                }
+
+                                const running = await connection.getCurrentConfig();
+                                if (!running.success) {
+                                    return running;
+                                }
+
+                                const plan = generateRemediation(intended, running.output, {
+                                    deviceType: connection.getDeviceType(),
+                                    ignorePatterns,
+                                });
+                                const planData: IDataObject = {
+                                    changed: plan.changed,
+                                    commands: plan.commands,
+                                    additions: plan.additions,
+                                    removals: plan.removals,
+                                    applied: false,
+                                };
+
+                                if (!applyRemediation || !plan.changed) {
+                                    return {
+                                        command: running.command,
+                                        output: plan.commands.join('\n'),
+                                        success: true,
+                                        data: planData,
+                                    };
+                                }
+
+                                const applied = await connection.sendConfig(plan.commands.map((command) => command.trim()));
+                                return { ...applied, data: { ...planData, applied: applied.success } };
+                            }
+
+                            case 'getDeviceState': {
+                                const getters = this.getNodeParameter('getters', i, []) as string[];
+                                if (getters.length === 0) {
+                                    throw new NodeOperationError(this.getNode(), 'Select at least one getter', { itemIndex: i });
+                                }
+
+                                // Collect every getter, and report the ones that failed together
+                                const state: IDataObject = {};
+                                const errors: IDataObject = {};
+                                const outputs: string[] = [];
+                                for (const getter of getters) {
+                                    const getterResult: DeviceStateResult<unknown> = await connection[DEVICE_STATE_GETTERS[getter]]();
+                                    state[getter] = getterResult.state as IDataObject;
+                                    outputs.push(getterResult.output);
+                                    if (!getterResult.success) {
+                                        errors[getter] = getterResult.error;
+                                    }
+                                }
+
+                                const failed = Object.keys(errors);
+                                return {
+                                    command: getters.join(', '),
+                                    output: outputs.filter(Boolean).join('\n'),
+                                    success: failed.length === 0,
+                                    error: failed.length > 0
+                                        ? failed.map((getter) => `${getter}: ${errors[getter]}`).join('\n')
+                                        : undefined,
+                                    data: failed.length > 0 ? { ...state, errors } : state,
+                                };
+                            }
+
+                            case 'getRunningConfig': {
+                                const running: OperationResult = await connection.getCurrentConfig();
+                                const binaryOutput = this.getNodeParameter('binaryOutput', i, false) as boolean;
+                                if (!binaryOutput || !running.success) {
+                                    return running;
+                                }
+
+                                const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+                                const fileName = renderFileName(
+                                    this.getNodeParameter('fileNameTemplate', i, DEFAULT_BACKUP_FILE_NAME) as string,
+                                    {
+                                        host: connection.getHost(),
+                                        port: deviceCredentials.port,
+                                        deviceType: connection.getDeviceType(),
+                                        timestamp: formatFileTimestamp(),
+                                    },
+                                );
+                                const mimeType = this.getNodeParameter('mimeType', i, 'text/plain') as string;
+                                const content = Buffer.from(running.output, 'utf8');
+
+                                return {
+                                    ...running,
+                                    data: {
+                                        fileName,
+                                        mimeType,
+                                        fileSize: content.length,
+                                        checksum: sha256(content),
+                                        checksumAlgorithm: 'sha256',
+                                    },
+                                    binary: {
+                                        [binaryPropertyName]: await this.helpers.prepareBinaryData(content, fileName, mimeType),
+                                    },
+                                };
+                            }
+
+                            case 'checkCompliance': {
+                                const rulesText = await getConfigInput(this, i, COMPLIANCE_RULES_PARAMETERS);
+                                let rules: ComplianceRule[];
+                                try {
+                                    rules = parseComplianceRules(rulesText);
+                                } catch (error) {
+                                    throw new NodeOperationError(
+                                        this.getNode(),
+                                        `Invalid compliance rules: ${error instanceof Error ? error.message : String(error)}`,
+                                        { itemIndex: i },
+                                    );
+                                }
+
+                                const running = await connection.getCurrentConfig();
+                                if (!running.success) {
+                                    return running;
+                                }
+
+                                const report = checkCompliance(running.output, rules, connection.getDeviceType());
+                                return {
+                                    command: running.command,
+                                    output: report.results
+                                        .map((rule) => `${rule.passed ? 'PASS' : 'FAIL'} ${rule.name}${rule.message ? `: ${rule.message}` : ''}`)
+                                        .join('\n'),
+                                    success: true,
+                                    data: { ...report },
+                                };
+                            }
+
+                            case 'compareConfig': {
+                                const baseline = await getConfigInput(this, i, BASELINE_PARAMETERS);
+                                const compareOptions = this.getNodeParameter('compareOptions', i, {}) as IDataObject;
+                                const contextLines = compareOptions.contextLines !== undefined ? Number(compareOptions.contextLines) : 3;
+                                let ignorePatterns: RegExp[];
+                                try {
+                                    ignorePatterns = splitLines((compareOptions.ignorePatterns as string) || '')
+                                        .map(pattern => new RegExp(pattern));
+                                } catch (error) {
+                                    throw new NodeOperationError(
+                                        this.getNode(),
+                                        `Invalid ignore pattern: ${error instanceof Error ? error.message : String(error)}`,
+                                        { itemIndex: i },
+                                    );
+                                }
+
+                                const running = await connection.getCurrentConfig();
+                                if (!running.success) {
+                                    return running;
+                                }
+
+                                const comparison = diffConfig(baseline, running.output, {
+                                    deviceType: connection.getDeviceType(),
+                                    contextLines,
+                                    ignorePatterns,
+                                });
+
+                                return {
+                                    command: running.command,
+                                    output: comparison.diff,
+                                    success: true,
+                                    data: {
+                                        hasChanges: comparison.hasChanges,
+                                        added: comparison.added,
+                                        removed: comparison.removed,
+                                        addedCount: comparison.added.length,
+                                        removedCount: comparison.removed.length,
+                                        runningConfig: running.output,
+                                    },
+                                };
+                            }
+
+                            case 'uploadFile': {
+                                const remotePath = (this.getNodeParameter('remotePath', i) as string).trim();
+                                const binaryProperty = this.getNodeParameter('transferBinaryProperty', i) as string;
+                                const content = await this.helpers.getBinaryDataBuffer(i, binaryProperty);
+
+                                const uploaded = await connection.uploadFile(
+                                    remotePath,
+                                    content,
+                                    this.getNodeParameter('verifyChecksum', i, true) as boolean,
+                                );
+                                return {
+                                    command: uploaded.command,
+                                    output: uploaded.output,
+                                    success: uploaded.success,
+                                    error: uploaded.error,
+                                    data: {
+                                        remotePath,
+                                        fileSize: uploaded.size,
+                                        transferMethod: uploaded.method,
+                                        checksum: uploaded.checksum,
+                                        checksumAlgorithm: uploaded.checksumAlgorithm,
+                                        checksumVerified: uploaded.checksumVerified,
+                                    },
+                                };
+                            }
+
+                            case 'downloadFile': {
+                                const remotePath = (this.getNodeParameter('remotePath', i) as string).trim();
+                                const downloaded = await connection.downloadFile(
+                                    remotePath,
+                                    this.getNodeParameter('verifyChecksum', i, true) as boolean,
+                                );
+                                const transfer: OperationResult = {
+                                    command: downloaded.command,
+                                    output: downloaded.output,
+                                    success: downloaded.success,
+                                    error: downloaded.error,
+                                    data: {
+                                        remotePath,
+                                        fileName: getRemoteFileName(remotePath),
+                                        fileSize: downloaded.size,
+                                        transferMethod: downloaded.method,
+                                        checksum: downloaded.checksum,
+                                        checksumAlgorithm: downloaded.checksumAlgorithm,
+                                        checksumVerified: downloaded.checksumVerified,
+                                    },
+                                };
+                                if (downloaded.data) {
+                                    const binaryProperty = this.getNodeParameter('transferBinaryProperty', i) as string;
+                                    transfer.binary = {
+                                        [binaryProperty]: await this.helpers.prepareBinaryData(downloaded.data, getRemoteFileName(remotePath)),
+                                    };
+                                }
+                                return transfer;
+                            }
+
+                            case 'upgradeSoftware': {
+                                const remotePath = (this.getNodeParameter('remotePath', i) as string).trim();
+                                const binaryProperty = this.getNodeParameter('transferBinaryProperty', i) as string;
+                                const image = await this.helpers.getBinaryDataBuffer(i, binaryProperty);
+                                const reload = this.getNodeParameter('reloadAfterStaging', i, false) as boolean;
+                                const expectedVersion = reload
+                                    ? (this.getNodeParameter('expectedVersion', i, '') as string).trim()
+                                    : '';
+                                const reloadTimeout = reload ? (this.getNodeParameter('reloadTimeout', i, 30) as number) : 0;
 
-                            case 'getRunningConfig':
-                                return await connection.getCurrentConfig();
+                                // The device comes back on a new session after the reload
+                                const reconnect = () => connectWithTimeout(deviceCredentials, connectionTimeout);
+
+                                const outcome = await runSoftwareUpgrade(connection, reconnect, {
+                                    image,
+                                    remotePath,
+                                    verifyChecksum: this.getNodeParameter('verifyChecksum', i, true) as boolean,
+                                    reload,
+                                    expectedVersion,
+                                    reloadTimeout: reloadTimeout * 60000,
+                                });
+                                return {
+                                    command: `upgrade ${remotePath}`,
+                                    output: outcome.phases.map((phase) => phase.output || '').filter(Boolean).join('\n'),
+                                    success: outcome.success,
+                                    error: outcome.error,
+                                    data: {
+                                        remotePath,
+                                        imageSize: image.length,
+                                        staged: outcome.staged,
+                                        reloaded: outcome.reloaded,
+                                        previousVersion: outcome.previousVersion,
+                                        version: outcome.version,
+                                        expectedVersion,
+                                        failedPhase: outcome.failedPhase,
+                                        phases: outcome.phases as unknown as IDataObject[],
+                                    },
+                                };
+                            }
+
+                            case 'rollbackConfig': {
+                                const rollbackMode = this.getNodeParameter('rollbackMode', i, 'rollback') as string;
+                                if (rollbackMode === 'listRevisions') {
+                                    const history = await connection.getConfigRevisions();
+                                    // One item per revision; an empty history still outputs a single item
+                                    return {
+                                        command: history.command,
+                                        output: history.output,
+                                        success: history.success,
+                                        error: history.error,
+                                        data: { revisions: [] },
+                                        items: history.revisions.length > 0 ? (history.revisions as unknown as IDataObject[]) : undefined,
+                                    };
+                                }
+
+                                const revision = (this.getNodeParameter('revision', i) as string).trim();
+                                if (!revision) {
+                                    throw new NodeOperationError(
+                                        this.getNode(),
+                                        'A revision is required for rollbackConfig operation',
+                                        { itemIndex: i },
+                                    );
+                                }
+                                const rolledBack: OperationResult = await connection.rollbackConfig(revision);
+                                return { ...rolledBack, data: { revision } };
+                            }
+
+                            case 'replaceConfig': {
+                                const replacement = await getConfigInput(this, i, REPLACEMENT_PARAMETERS);
+                                if (!replacement.trim()) {
+                                    throw new NodeOperationError(
+                                        this.getNode(),
+                                        'A configuration is required for replaceConfig operation',
+                                        { itemIndex: i },
+                                    );
+                                }
+
+                                const before = await connection.getCurrentConfig();
+                                if (!before.success) {
+                                    return before;
+                                }
+
+                                const replaced = await connection.replaceConfig(replacement);
+                                if (!replaced.success) {
+                                    return replaced;
+                                }
+
+                                const after = await connection.getCurrentConfig();
+                                if (!after.success) {
+                                    return {
+                                        ...replaced,
+                                        success: false,
+                                        error: `Configuration replaced, but reading it back failed: ${after.error}`,
+                                    };
+                                }
+
+                                const comparison = diffConfig(before.output, after.output, {
+                                    deviceType: connection.getDeviceType(),
+                                    fromLabel: 'before',
+                                    toLabel: 'after',
+                                });
+
+                                return {
+                                    command: replaced.command,
+                                    output: comparison.diff,
+                                    success: true,
+                                    data: {
+                                        hasChanges: comparison.hasChanges,
+                                        added: comparison.added,
+                                        removed: comparison.removed,
+                                        replaceOutput: replaced.output,
+                                    },
+                                };
+                            }
+
+                            case 'parseConfig': {
+                                const syntax = this.getNodeParameter('configSyntax', i, 'auto') as string;
+                                const query = this.getNodeParameter('configQuery', i, 'tree') as string;
+                                let pattern: RegExp | undefined;
+                                let childPattern: RegExp | undefined;
+                                try {
+                                    if (query !== 'tree') {
+                                        pattern = new RegExp(this.getNodeParameter('configPattern', i) as string);
+                                        const child = this.getNodeParameter('configChildPattern', i, '') as string;
+                                        childPattern = child ? new RegExp(child) : undefined;
+                                    }
+                                } catch (error) {
+                                    throw new NodeOperationError(
+                                        this.getNode(),
+                                        `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`,
+                                        { itemIndex: i },
+                                    );
+                                }
+                                if ((query === 'parentsWithChild' || query === 'parentsWithoutChild') && !childPattern) {
+                                    throw new NodeOperationError(this.getNode(), 'Child Pattern is required for this query', { itemIndex: i });
+                                }
+
+                                const running = await connection.getCurrentConfig();
+                                if (!running.success) {
+                                    return running;
+                                }
+
+                                const tree = new ConfigTree(running.output, {
+                                    deviceType: connection.getDeviceType(),
+                                    syntax: syntax === 'auto' ? undefined : syntax as ConfigSyntax,
+                                });
+                                if (query === 'tree') {
+                                    return { ...running, data: { syntax: tree.syntax, tree: tree.toJSON() } };
+                                }
+
+                                const recursive = this.getNodeParameter('configRecursive', i, false) as boolean;
+                                const matches: ConfigLine[] =
+                                    query === 'children' ? tree.findChildren(pattern!, childPattern) :
+                                    query === 'parentsWithChild' ? tree.findParentsWithChild(pattern!, childPattern!, recursive) :
+                                    query === 'parentsWithoutChild' ? tree.findParentsWithoutChild(pattern!, childPattern!, recursive) :
+                                    tree.find(pattern!);
+
+                                return {
+                                    command: running.command,
+                                    output: matches.map((line) => line.path.join(' > ')).join('\n'),
+                                    success: true,
+                                    data: {
+                                        syntax: tree.syntax,
+                                        matchCount: matches.length,
+                                        matches: matches.map((line) => line.toJSON()),
+                                    },
+                                };
+                            }
+
+                            case 'ping':
+                            case 'traceroute': {
+                                const target = getCommandWord(this, i, 'pingTarget', 'Target', true)!;
+                                const reachabilityOptions: PingOptions = {
+                                    source: getCommandWord(this, i, 'pingSource', 'Source'),
+                                    vrf: getCommandWord(this, i, 'pingVrf', 'VRF'),
+                                    timeout: (this.getNodeParameter('pingTimeout', i, 60) as number) * 1000,
+                                };
+
+                                if (operation === 'ping') {
+                                    reachabilityOptions.count = this.getNodeParameter('pingCount', i, 5) as number;
+                                    reachabilityOptions.size = (this.getNodeParameter('pingSize', i, 0) as number) || undefined;
+                                    const ping: PingResult = await connection.ping(target, reachabilityOptions);
+                                    return {
+                                        command: ping.command,
+                                        output: ping.output,
+                                        success: ping.success,
+                                        error: ping.error,
+                                        data: {
+                                            target,
+                                            sent: ping.sent,
+                                            received: ping.received,
+                                            lossPercent: ping.lossPercent,
+                                            rttMin: ping.rttMin,
+                                            rttAvg: ping.rttAvg,
+                                            rttMax: ping.rttMax,
+                                        },
+                                    };
+                                }
+
+                                const trace: TracerouteResult = await connection.traceroute(target, reachabilityOptions);
+                                return {
+                                    command: trace.command,
+                                    output: trace.output,
+                                    success: trace.success,
+                                    error: trace.error,
+                                    data: {
+                                        target,
+                                        destination: trace.destination,
+                                        reachedTarget: trace.reachedTarget,
+                                        hopCount: trace.hops.length,
+                                        hops: trace.hops as unknown as IDataObject[],
+                                    },
+                                };
+                            }
 
                             case 'saveConfig':
                                 return await connection.saveConfig();
@@ -435,8 +2762,8 @@ async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
                     const commandPromise = executeCommand();
                     const timeoutPromise = new Promise<never>((_, reject) => {
                         global.setTimeout(() => {
-                            reject(new Error(`Command timeout after ${commandTimeout / 1000} seconds`));
-                        }, commandTimeout);
+                            reject(new Error(`Command timeout after ${operationTimeout / 1000} seconds`));
+                        }, operationTimeout);
                     });
 
                     result = await Promise.race([commandPromise, timeoutPromise]);
@@ -454,12 +2781,12 @@ async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
                 } catch (error) {
                     commandError = error instanceof Error ? error : new Error(String(error));
                     
-                    if (attempt === commandRetryCount) {
+                    if (attempt === commandAttempts) {
                         if (failOnError) {
                             throw new NodeOperationError(
                                 this.getNode(),
-                                `Command execution failed after ${commandRetryCount} attempts: ${commandError.message}`,
-                                { itemIndex: i, description: `Command attempts: ${attempt}/${commandRetryCount}` },
+                                `Command execution failed after ${commandAttempts} attempts: ${commandError.message}`,
+                                { itemIndex: i, description: `Command attempts: ${attempt}/${commandAttempts}` },
                             );
                         } else {
                             // Return error as data instead of throwing
@@ -478,6 +2805,43 @@ async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
                 }
             }
 
+            // Parse command output into structured rows when requested
+            const parseOutput = (operation === 'sendCommand' || operation === 'sendCommands') &&
+                (this.getNodeParameter('parseOutput', i, false) as boolean);
+            if (parseOutput) {
+                const templates = this.getNodeParameter('textfsmTemplates.template', i, []) as IDataObject[];
+                const templateIndex = new TemplateIndex(templates
+                    .filter(entry => entry.command && entry.template)
+                    .map(entry => ({
+                        deviceType: (entry.deviceType as string) || '',
+                        command: entry.command as string,
+                        template: entry.template as string,
+                    }))
+                    .concat(getBuiltinTemplateEntries()));
+
+                try {
+                    const deviceType = connection.getDeviceType();
+                    if (operation === 'sendCommand') {
+                        const parsed = result!.success ? templateIndex.parse(deviceType, result!.command, result!.output) : undefined;
+                        if (parsed) {
+                            result!.data = { ...result!.data, parsed: parsed as IDataObject[] };
+                        }
+                    } else {
+                        for (const entry of (result!.data?.results || []) as IDataObject[]) {
+                            const parsed = entry.success ? templateIndex.parse(deviceType, entry.command as string, entry.output as string) : undefined;
+                            if (parsed) {
+                                entry.parsed = parsed as IDataObject[];
+                            }
+                        }
+                    }
+                } catch (error) {
+                    if (error instanceof TextFsmError) {
+                        throw new NodeOperationError(this.getNode(), `Failed to parse output: ${error.message}`, { itemIndex: i });
+                    }
+                    throw error;
+                }
+            }
+
             // Prepare the output data
             const executionTime = Date.now() - startTime;
             const outputData: IDataObject = {
@@ -489,15 +2853,41 @@ async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
                 timestamp: new Date().toISOString(),
                 executionTime: executionTime,
                 connectionRetries: connectionRetryCount,
-                commandRetries: commandRetryCount,
+                commandRetries: commandAttempts,
+                ...result!.data,
             };
 
             if (!result!.success && result!.error) {
                 outputData.error = result!.error;
             }
 
+            // Algorithms agreed in the SSH handshakes, for auditing
+            const negotiatedAlgorithms = connection.getNegotiatedAlgorithms();
+            if (negotiatedAlgorithms) {
+                outputData.sshAlgorithms = negotiatedAlgorithms;
+            }
+            const jumpHostAlgorithms = typeof connection.getJumpHostNegotiatedAlgorithms === 'function'
+                ? connection.getJumpHostNegotiatedAlgorithms()
+                : undefined;
+            if (jumpHostAlgorithms) {
+                outputData.jumpHostSshAlgorithms = jumpHostAlgorithms;
+            }
+
+            let outputItems: INodeExecutionData[];
+            if (result!.items) {
+                outputItems = this.helpers.returnJsonArray(result!.items.map(item => ({
+                    host: outputData.host,
+                    deviceType: outputData.deviceType,
+                    ...item,
+                })));
+            } else if (result!.binary) {
+                outputItems = [{ json: outputData, binary: result!.binary }];
+            } else {
+                outputItems = this.helpers.returnJsonArray(outputData);
+            }
+
             const executionData = this.helpers.constructExecutionMetaData(
-                this.helpers.returnJsonArray(outputData),
+                outputItems,
                 { itemData: { item: i } },
             );
             returnData.push(...executionData);
@@ -519,7 +2909,7 @@ async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
                     success: false,
                     timestamp: new Date().toISOString(),
                     executionTime: executionTime,
-                    host: credentials.host,
+                    host: deviceCredentials.host,
                     operation: operation,
                 };
                 returnData.push({ json: errorData });
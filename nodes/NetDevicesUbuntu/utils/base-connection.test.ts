@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BaseConnection } from './base-connection';
+
+class PromptConnection extends BaseConnection {
+	constructor(basePrompt: string) {
+		super({ host: 'r1', port: 22, username: 'admin', authMethod: 'password', deviceType: 'cisco_ios' });
+		this.basePrompt = basePrompt;
+	}
+
+	get promptPattern(): RegExp {
+		return this.getPromptPattern();
+	}
+}
+
+describe('BaseConnection', () => {
+	it('matches prompts with and without a trailing space', () => {
+		for (const [basePrompt, output] of [
+			['R1', 'Success rate is 100 percent (5/5)\nR1#'],
+			['R1', 'Success rate is 100 percent (5/5)\nR1# '],
+			['admin@mx1', '5 packets transmitted, 5 packets received\n\nadmin@mx1> '],
+			['FGT', '5 packets transmitted, 5 packets received\nFGT # '],
+		]) {
+			assert.ok(new PromptConnection(basePrompt).promptPattern.test(output), output);
+		}
+	});
+
+	it('does not match the prompt before the command output ends', () => {
+		const prompt = new PromptConnection('R1').promptPattern;
+		assert.equal(prompt.test('R1#ping 192.0.2.1\nType escape sequence to abort.\n'), false);
+		assert.equal(prompt.test('R1#ping 192.0.2.1\n!!!!!'), false);
+	});
+
+	it('rejects ping targets that are empty or more than one word', async () => {
+		const connection = new PromptConnection('R1');
+		await assert.rejects(connection.ping(''), /target is required/);
+		await assert.rejects(connection.ping('192.0.2.1\nreload'), /must not contain whitespace/);
+		await assert.rejects(connection.traceroute('192.0.2.1', { vrf: 'MGMT source Lo0' }), /must not contain whitespace/);
+	});
+});
@@ -1,5 +1,27 @@
 import { Client, ConnectConfig } from 'ssh2';
 import { EventEmitter } from 'events';
+import { ChecksumAlgorithm, RemoteChecksum, TransferMethod, computeChecksum, downloadFile, uploadFile } from './transfer';
+import { PingStatistics, TracerouteHop, parsePingOutput, parseTracerouteOutput } from './diagnostics';
+import {
+    ArpEntry,
+    BgpNeighbor,
+    DeviceFacts,
+    InterfaceAddress,
+    InterfaceState,
+    LldpNeighbor,
+    MacTableEntry
+} from './getters';
+import { HostKeyMismatchError, HostKeyPolicy, HostKeyStore, HostKeyVerifier } from './host-key';
+import { KeyboardInteractiveListener, KeyboardInteractiveResponder } from './keyboard-interactive';
+import {
+    AlgorithmProfileSetting,
+    NegotiatedSshAlgorithms,
+    SshAlgorithmOverrides,
+    SshAlgorithms,
+    applyAlgorithmOverrides,
+    getAlgorithmProfiles,
+    summarizeNegotiatedAlgorithms
+} from './ssh-algorithms';
 
 // Add logging support
 let Logger: any;
@@ -189,6 +211,26 @@ export interface DeviceCredentials {
     jumpHostPassword?: string;
     jumpHostPrivateKey?: string;
     jumpHostPassphrase?: string;
+    // Host key verification, for the target and the jump host
+    hostKeyPolicy?: HostKeyPolicy;
+    hostFingerprints?: string;
+    knownHosts?: string;
+    jumpHostFingerprints?: string;
+    jumpHostKnownHosts?: string;
+    // Fingerprints trusted on first use, kept by the caller between executions
+    hostKeyStore?: HostKeyStore;
+    // SSH algorithm profile, for the target and the jump host
+    algorithmProfile?: AlgorithmProfileSetting;
+    // Algorithm lists that override the profile, for the target and the jump host separately
+    algorithms?: SshAlgorithmOverrides;
+    jumpHostAlgorithms?: SshAlgorithmOverrides;
+    // Keyboard-interactive prompts answered by "regex => response" rules, for the target and the jump host
+    keyboardInteractive?: boolean;
+    promptResponses?: string;
+    totpSecret?: string;
+    jumpHostKeyboardInteractive?: boolean;
+    jumpHostPromptResponses?: string;
+    jumpHostTotpSecret?: string;
 }
 
 export interface CommandResult {
@@ -198,6 +240,90 @@ export interface CommandResult {
     error?: string;
 }
 
+export interface TimedCommandResult extends CommandResult {
+    duration: number;
+}
+
+export interface FileTransferResult extends CommandResult {
+    remotePath: string;
+    size: number;
+    method?: TransferMethod;
+    checksum?: string;
+    checksumAlgorithm?: ChecksumAlgorithm;
+    // Undefined when the platform cannot report a checksum of the remote file
+    checksumVerified?: boolean;
+    data?: Buffer;
+}
+
+export interface FreeSpaceResult extends CommandResult {
+    bytesFree: number;
+}
+
+export interface SoftwareVersionResult extends CommandResult {
+    version: string;
+}
+
+export interface PingOptions {
+    count?: number;
+    size?: number;
+    source?: string;
+    // VRF, routing instance, vsys or vdom, depending on the platform
+    vrf?: string;
+    timeout?: number;
+}
+
+export interface PingResult extends CommandResult, PingStatistics {
+    target: string;
+}
+
+export interface TracerouteResult extends CommandResult {
+    target: string;
+    destination: string;
+    reachedTarget: boolean;
+    hops: TracerouteHop[];
+}
+
+export interface DeviceStateResult<T> extends CommandResult {
+    state: T;
+}
+
+export interface InteractiveStep {
+    expect: string | RegExp;
+    response: string;
+    timeout?: number;
+    sendNewline?: boolean;
+}
+
+export interface InteractiveStepResult {
+    expect: string;
+    matched: boolean;
+    output: string;
+}
+
+export interface InteractiveCommandResult extends CommandResult {
+    steps: InteractiveStepResult[];
+}
+
+export interface ConfigValidationResult extends CommandResult {
+    valid: boolean;
+    diff: string;
+    messages: string[];
+    // What the check covered, where it is more than the commands sent
+    scope?: string;
+}
+
+export interface ConfigRevision {
+    revision: string;
+    timestamp: string;
+    user: string;
+    comment: string;
+    client?: string;
+}
+
+export interface ConfigRevisionsResult extends CommandResult {
+    revisions: ConfigRevision[];
+}
+
 export class BaseConnection extends EventEmitter {
     public client: Client;
     public credentials: DeviceCredentials;
@@ -216,6 +342,7 @@ export class BaseConnection extends EventEmitter {
     protected connectionPooling: boolean = false;
     protected lastActivity: number = 0;
     protected lastSuccessfulAlgorithmIndex: number = 0;
+    protected negotiatedAlgorithms?: NegotiatedSshAlgorithms;
 
     // Static connection pool for reusing connections
     private static connectionPool: Map<string, BaseConnection> = new Map();
@@ -247,6 +374,10 @@ export class BaseConnection extends EventEmitter {
             this.emit('error', error);
         });
 
+        this.client.on('handshake', (negotiated) => {
+            this.negotiatedAlgorithms = summarizeNegotiatedAlgorithms(negotiated);
+        });
+
         this.client.on('end', () => {
             this.isConnected = false;
             this.emit('end');
@@ -444,7 +575,8 @@ export class BaseConnection extends EventEmitter {
                     authMethod: this.credentials.authMethod
                 });
                 
-                if (i === algorithmConfigs.length - 1) {
+                // A rejected host key is the same with every algorithm configuration
+                if (i === algorithmConfigs.length - 1 || error instanceof HostKeyMismatchError) {
                     Logger.error('All connection attempts failed', {
                         host: this.credentials.host,
                         port: this.credentials.port,
@@ -459,7 +591,45 @@ export class BaseConnection extends EventEmitter {
         }
     }
 
-    private async tryConnectWithConfig(algorithms: any): Promise<void> {
+    /**
+     * Host key verifier for the target or the jump host, with the policy and
+     * trust-on-first-use store of the credentials
+     * @throws Error for invalid pinned fingerprints or known_hosts entries
+     */
+    protected createHostKeyVerifier(host: string, port: number, fingerprints?: string, knownHosts?: string): HostKeyVerifier {
+        return new HostKeyVerifier(host, port, {
+            policy: this.credentials.hostKeyPolicy,
+            fingerprints,
+            knownHosts,
+            store: this.credentials.hostKeyStore
+        });
+    }
+
+    /**
+     * Responder for keyboard-interactive prompts of the target or the jump
+     * host, when the credentials map prompts to responses
+     * @returns undefined when prompts are not mapped
+     * @throws Error for invalid rules
+     */
+    protected createKeyboardInteractiveResponder(jumpHost = false): KeyboardInteractiveResponder | undefined {
+        const credentials = this.credentials;
+        if (jumpHost) {
+            return credentials.jumpHostKeyboardInteractive
+                ? new KeyboardInteractiveResponder(credentials.jumpHostPromptResponses, {
+                    password: credentials.jumpHostPassword,
+                    totpSecret: credentials.jumpHostTotpSecret
+                })
+                : undefined;
+        }
+        return credentials.keyboardInteractive
+            ? new KeyboardInteractiveResponder(credentials.promptResponses, {
+                password: credentials.password,
+                totpSecret: credentials.totpSecret
+            })
+            : undefined;
+    }
+
+    private async tryConnectWithConfig(algorithms: SshAlgorithms): Promise<void> {
         return new Promise((resolve, reject) => {
             // Use faster timeout for connection attempts
             const connectionTimeout = this.fastMode ? 
@@ -481,14 +651,39 @@ export class BaseConnection extends EventEmitter {
                 readyTimeout: connectionTimeout,
                 keepaliveInterval: this.credentials.keepAlive ? 
                     (this.fastMode ? 60000 : 30000) : undefined,
-                algorithms: algorithms,
-                // Optimize settings for faster connection
-                hostHash: 'md5',
                 // Add debug option for troubleshooting
                 debug: process.env.SSH_DEBUG === 'true' ? 
                     (msg: string) => Logger.debug('SSH2 Debug: ' + msg) : undefined
             };
 
+            // Check the server host key against the credential's policy
+            let hostKeyVerifier: HostKeyVerifier;
+            try {
+                hostKeyVerifier = this.createHostKeyVerifier(
+                    this.credentials.host,
+                    this.credentials.port,
+                    this.credentials.hostFingerprints,
+                    this.credentials.knownHosts
+                );
+            } catch (error) {
+                reject(error);
+                return;
+            }
+            connectConfig.hostVerifier = hostKeyVerifier.verify;
+            // Ask for a key of a type already known for the device, so it can be checked
+            connectConfig.algorithms = {
+                ...algorithms,
+                serverHostKey: hostKeyVerifier.preferKnownKeyTypes(algorithms.serverHostKey)
+            };
+
+            let promptResponder: KeyboardInteractiveResponder | undefined;
+            try {
+                promptResponder = this.createKeyboardInteractiveResponder();
+            } catch (error) {
+                reject(error);
+                return;
+            }
+
             // Configure authentication method
             if (this.credentials.authMethod === 'privateKey') {
                 if (!this.credentials.privateKey) {
@@ -552,6 +747,11 @@ export class BaseConnection extends EventEmitter {
                 });
             }
 
+            // Mapped prompts are answered after the password or key, e.g. for a second factor
+            if (promptResponder) {
+                connectConfig.tryKeyboard = true;
+            }
+
             // Set up timeout for the entire connection process
             const timeoutId = setTimeout(() => {
                 Logger.error('SSH connection timeout reached', {
@@ -574,6 +774,7 @@ export class BaseConnection extends EventEmitter {
                 });
                 
                 clearTimeout(timeoutId);
+                this.client.removeListener('keyboard-interactive', onKeyboardInteractive);
                 this.lastActivity = Date.now();
                 this.isConnected = true;
                 resolve();
@@ -590,10 +791,15 @@ export class BaseConnection extends EventEmitter {
                 });
                 
                 clearTimeout(timeoutId);
+                this.client.removeListener('keyboard-interactive', onKeyboardInteractive);
                 
                 // Provide more specific error messages for common issues
                 let enhancedError = error;
-                if (error.message.includes('All configured authentication methods failed')) {
+                if (hostKeyVerifier.error) {
+                    enhancedError = hostKeyVerifier.error;
+                } else if (promptResponder && promptResponder.error) {
+                    enhancedError = promptResponder.error;
+                } else if (error.message.includes('All configured authentication methods failed')) {
                     enhancedError = new Error(`Authentication failed: ${error.message}. Please check your ${this.credentials.authMethod === 'privateKey' ? 'SSH private key and passphrase' : 'password'}.`);
                 } else if (error.message.includes('connect ECONNREFUSED')) {
                     enhancedError = new Error(`Connection refused: Cannot connect to ${this.credentials.host}:${this.credentials.port}. Please check if SSH service is running and the host/port are correct.`);
@@ -606,16 +812,18 @@ export class BaseConnection extends EventEmitter {
                 reject(enhancedError);
             });
 
-            // Handle keyboard-interactive authentication for some servers
-            this.client.once('keyboard-interactive', (name, instructions, instructionsLang, prompts, finish) => {
+            // Handle keyboard-interactive authentication; servers may ask in several rounds
+            const onKeyboardInteractive: KeyboardInteractiveListener = (name, instructions, instructionsLang, prompts, finish) => {
                 Logger.debug('Received keyboard-interactive authentication request', {
                     name,
                     instructions,
-                    promptCount: prompts.length,
+                    prompts: prompts.map(prompt => prompt.prompt),
                     authMethod: this.credentials.authMethod
                 });
                 
-                if (this.credentials.authMethod === 'password' && this.credentials.password) {
+                if (promptResponder) {
+                    promptResponder.respond(name, instructions, instructionsLang, prompts, finish);
+                } else if (this.credentials.authMethod === 'password' && this.credentials.password) {
                     Logger.debug('Responding to keyboard-interactive with password');
                     // Respond to keyboard-interactive with password
                     finish([this.credentials.password]);
@@ -624,7 +832,8 @@ export class BaseConnection extends EventEmitter {
                     // Reject keyboard-interactive if using key auth
                     finish([]);
                 }
-            });
+            };
+            this.client.on('keyboard-interactive', onKeyboardInteractive);
 
             // Handle banner messages
             this.client.once('banner', (message) => {
@@ -821,7 +1030,66 @@ export class BaseConnection extends EventEmitter {
         });
     }
 
-    protected async readUntilPrompt(expectedPrompt?: string, timeout: number = 10000): Promise<string> {
+    /**
+     * Read from the channel until the accumulated output matches a pattern.
+     * Resolves with what has been read so far if the timeout expires first.
+     * @param pattern Pattern tested against the whole output read so far
+     * @param timeout Maximum time to wait in milliseconds
+     */
+    protected async readUntilMatch(pattern: RegExp, timeout: number = 10000): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let buffer = '';
+            let timeoutId: NodeJS.Timeout;
+
+            const cleanup = () => {
+                if (this.currentChannel) {
+                    this.currentChannel.removeListener('data', onData);
+                    this.currentChannel.removeListener('error', onError);
+                }
+                if (timeoutId) clearTimeout(timeoutId);
+            };
+
+            const onData = (data: string) => {
+                buffer += data;
+                if (pattern.test(buffer)) {
+                    cleanup();
+                    resolve(buffer);
+                }
+            };
+
+            const onError = (error: Error) => {
+                cleanup();
+                reject(error);
+            };
+
+            timeoutId = setTimeout(() => {
+                cleanup();
+                resolve(buffer);
+            }, timeout);
+
+            if (this.currentChannel) {
+                this.currentChannel.on('data', onData);
+                this.currentChannel.on('error', onError);
+            } else {
+                cleanup();
+                reject(new Error('No active channel available'));
+            }
+        });
+    }
+
+    /**
+     * Read until the expected prompt, or any common device prompt when none is given
+     * @param expectedPrompt Text the output must contain, or a pattern it must match
+     * @param timeout Time to wait before returning what was read so far
+     */
+    protected async readUntilPrompt(expectedPrompt?: string | RegExp, timeout: number = 10000): Promise<string> {
+        if (expectedPrompt !== undefined) {
+            const pattern = typeof expectedPrompt === 'string'
+                ? new RegExp(this.escapeRegex(expectedPrompt))
+                : expectedPrompt;
+            return this.readUntilMatch(pattern, this.fastMode ? Math.min(timeout, 5000) : timeout);
+        }
+
         return new Promise((resolve, reject) => {
             let buffer = '';
             let timeoutId: NodeJS.Timeout;
@@ -957,6 +1225,89 @@ export class BaseConnection extends EventEmitter {
         }
     }
 
+    /**
+     * Run several commands in order over the current session
+     * @param commands Commands to execute
+     * @param stopOnError Stop at the first failed command
+     * @returns One result per executed command, including its duration in milliseconds
+     */
+    async sendCommands(commands: string[], stopOnError: boolean = false): Promise<TimedCommandResult[]> {
+        const results: TimedCommandResult[] = [];
+
+        for (const command of commands) {
+            const startTime = Date.now();
+            const result = await this.sendCommand(command);
+            results.push({
+                ...result,
+                duration: Date.now() - startTime
+            });
+
+            if (!result.success && stopOnError) {
+                break;
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Send a command that asks questions and answer each prompt in turn
+     * @param command Command to send
+     * @param steps Prompts to expect, in order, with the response to each
+     * @param finalTimeout Time to wait for the device prompt after the last response
+     * @returns Full transcript and which prompts were matched; fails at the first prompt that does not appear
+     */
+    async sendInteractive(command: string, steps: InteractiveStep[], finalTimeout: number = this.commandTimeout): Promise<InteractiveCommandResult> {
+        const stepResults: InteractiveStepResult[] = [];
+        let transcript = '';
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+
+            this.lastActivity = Date.now();
+            await this.writeChannel(command + this.newline);
+
+            for (const step of steps) {
+                const pattern = typeof step.expect === 'string' ? new RegExp(step.expect) : step.expect;
+                const output = await this.readUntilMatch(pattern, step.timeout || this.commandTimeout);
+                const matched = pattern.test(output);
+                transcript += output;
+                stepResults.push({ expect: pattern.source, matched, output });
+
+                if (!matched) {
+                    return {
+                        command,
+                        output: transcript,
+                        success: false,
+                        steps: stepResults,
+                        error: `Expected prompt /${pattern.source}/ did not appear`
+                    };
+                }
+
+                await this.writeChannel(step.response + (step.sendNewline === false ? '' : this.newline));
+            }
+
+            transcript += await this.readUntilPrompt(undefined, finalTimeout);
+
+            return {
+                command,
+                output: transcript,
+                success: true,
+                steps: stepResults
+            };
+        } catch (error) {
+            return {
+                command,
+                output: transcript,
+                success: false,
+                steps: stepResults,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
     async sendConfig(configCommands: string[]): Promise<CommandResult> {
         try {
             if (!this.isConnected || !this.currentChannel) {
@@ -965,7 +1316,7 @@ export class BaseConnection extends EventEmitter {
 
             // Enter configuration mode
             await this.enterConfigMode();
-            
+
             let allOutput = '';
             let hasError = false;
             let errorMessage = '';
@@ -1078,11 +1429,451 @@ export class BaseConnection extends EventEmitter {
         return cleanOutput;
     }
 
+    /**
+     * Upload a file over SFTP, or SCP where the device has no SFTP subsystem,
+     * and compare the remote checksum when the platform reports one
+     * @param remotePath Destination path on the device, e.g. flash:/ios.bin
+     * @param data File content
+     * @param verify Compare the checksum of the remote file
+     */
+    async uploadFile(remotePath: string, data: Buffer, verify: boolean = true): Promise<FileTransferResult> {
+        const command = `upload ${remotePath}`;
+
+        try {
+            if (!this.isConnected || !this.client) {
+                throw new Error('Not connected to device');
+            }
+
+            const method = await uploadFile(this.client, remotePath, data);
+            this.lastActivity = Date.now();
+
+            return await this.verifyTransfer({ command, output: '', success: true, remotePath, size: data.length, method }, data, verify);
+        } catch (error) {
+            return {
+                command,
+                output: '',
+                success: false,
+                remotePath,
+                size: data.length,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Download a file over SFTP, or SCP where the device has no SFTP subsystem,
+     * and compare the remote checksum when the platform reports one
+     * @param remotePath Source path on the device
+     * @param verify Compare the checksum of the remote file
+     */
+    async downloadFile(remotePath: string, verify: boolean = true): Promise<FileTransferResult> {
+        const command = `download ${remotePath}`;
+
+        try {
+            if (!this.isConnected || !this.client) {
+                throw new Error('Not connected to device');
+            }
+
+            const { data, method } = await downloadFile(this.client, remotePath);
+            this.lastActivity = Date.now();
+
+            return await this.verifyTransfer({ command, output: '', success: true, remotePath, size: data.length, method, data }, data, verify);
+        } catch (error) {
+            return {
+                command,
+                output: '',
+                success: false,
+                remotePath,
+                size: 0,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Checksum of a file on the device. Platforms without a checksum
+     * command return null and transfers are not verified.
+     * @param remotePath Path on the device
+     */
+    protected async getRemoteChecksum(remotePath: string): Promise<RemoteChecksum | null> {
+        return null;
+    }
+
+    private async verifyTransfer(result: FileTransferResult, data: Buffer, verify: boolean): Promise<FileTransferResult> {
+        const remote = verify ? await this.getRemoteChecksum(result.remotePath) : null;
+        if (!remote) {
+            return { ...result, checksum: computeChecksum(data, 'sha256'), checksumAlgorithm: 'sha256' };
+        }
+
+        const checksum = computeChecksum(data, remote.algorithm);
+        const checksumVerified = checksum === remote.value.toLowerCase();
+        return {
+            ...result,
+            output: `${remote.algorithm} ${remote.value}`,
+            success: checksumVerified,
+            checksum,
+            checksumAlgorithm: remote.algorithm,
+            checksumVerified,
+            error: checksumVerified ? undefined : `Checksum mismatch: local ${checksum}, remote ${remote.value}`
+        };
+    }
+
+    /**
+     * Free space on the file system that holds a path
+     * @param remotePath Path on the device, e.g. flash:/ios.bin
+     */
+    async getFreeSpace(remotePath: string): Promise<FreeSpaceResult> {
+        return {
+            command: 'free space',
+            output: '',
+            success: false,
+            bytesFree: 0,
+            error: `Software upgrade is not supported for device type ${this.credentials.deviceType}`
+        };
+    }
+
+    /**
+     * Stage a software image already on the device so it boots at the next reload
+     * @param remotePath Path of the image on the device
+     */
+    async stageSoftware(remotePath: string): Promise<CommandResult> {
+        return {
+            command: 'stage software',
+            output: '',
+            success: false,
+            error: `Software upgrade is not supported for device type ${this.credentials.deviceType}`
+        };
+    }
+
+    /**
+     * Running software version as reported by the device
+     */
+    async getSoftwareVersion(): Promise<SoftwareVersionResult> {
+        return {
+            command: 'show version',
+            output: '',
+            success: false,
+            version: '',
+            error: `Software version is not supported for device type ${this.credentials.deviceType}`
+        };
+    }
+
+    /**
+     * Ping from the device and parse the statistics
+     * @param target Address or host name to ping
+     * @param options Count, packet size, source, VRF and how long to wait for the result
+     */
+    async ping(target: string, options: PingOptions = {}): Promise<PingResult> {
+        this.checkReachabilityArguments(target, options);
+        const count = options.count || 5;
+        const command = this.getPingCommand(target, { ...options, count });
+        const result = await this.sendTimedCommand(command, options.timeout || this.commandTimeout + count * 2000);
+        const statistics = parsePingOutput(result.output);
+
+        if (!statistics) {
+            return {
+                ...result,
+                success: false,
+                target,
+                sent: 0,
+                received: 0,
+                lossPercent: 100,
+                rttMin: null,
+                rttAvg: null,
+                rttMax: null,
+                error: result.error || `Ping did not return statistics:\n\n${result.output}`
+            };
+        }
+
+        return { ...result, target, ...statistics };
+    }
+
+    /**
+     * Traceroute from the device and parse the hops
+     * @param target Address or host name to trace
+     * @param options Source, VRF and how long to wait for the result
+     */
+    async traceroute(target: string, options: PingOptions = {}): Promise<TracerouteResult> {
+        this.checkReachabilityArguments(target, options);
+        const command = this.getTracerouteCommand(target, options);
+        const result = await this.sendTimedCommand(command, options.timeout || this.commandTimeout + 120000);
+        const { destination, hops } = parseTracerouteOutput(result.output);
+        const lastAddress = hops.length > 0 ? hops[hops.length - 1].address : '';
+
+        return {
+            ...result,
+            success: result.success && hops.length > 0,
+            error: result.error || (hops.length > 0 ? undefined : `Traceroute returned no hops:\n\n${result.output}`),
+            target,
+            destination: destination || target,
+            reachedTarget: !!lastAddress && (lastAddress === target || lastAddress === destination),
+            hops
+        };
+    }
+
+    /**
+     * The target, source and VRF are pasted into the command line, so each must
+     * be one word: an empty target starts the extended ping dialog on IOS, and
+     * a newline would run whatever follows it
+     * @throws Error for an empty target or an argument with whitespace or control characters
+     */
+    private checkReachabilityArguments(target: string, options: PingOptions): void {
+        if (!target) {
+            throw new Error('A target is required');
+        }
+        for (const [name, value] of [['Target', target], ['Source', options.source], ['VRF', options.vrf]]) {
+            if (value && /[\s\x00-\x1f\x7f]/.test(value)) {
+                throw new Error(`${name} ${JSON.stringify(value)} must not contain whitespace or control characters`);
+            }
+        }
+    }
+
+    /**
+     * Ping command for the platform; options the platform has no keyword for are left out
+     */
+    protected getPingCommand(target: string, options: PingOptions): string {
+        return `ping ${target}`;
+    }
+
+    /**
+     * Traceroute command for the platform; options the platform has no keyword for are left out
+     */
+    protected getTracerouteCommand(target: string, options: PingOptions): string {
+        return `traceroute ${target}`;
+    }
+
+    /**
+     * Prompt the device returns to when a command has finished
+     */
+    protected getPromptPattern(): RegExp {
+        return new RegExp(`${this.escapeRegex(this.basePrompt)}[^\\n]*[>#$%]\\s*$`);
+    }
+
+    /**
+     * Send a command that runs longer than a show command, such as ping or
+     * traceroute, and wait for the prompt. A command that is still running at
+     * the timeout is interrupted.
+     * @param command Command to send
+     * @param timeout Maximum time to wait for the prompt, in milliseconds
+     */
+    protected async sendTimedCommand(command: string, timeout: number): Promise<CommandResult> {
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+
+            await this.writeChannel(command + this.newline);
+            const prompt = this.getPromptPattern();
+            const output = await this.readUntilMatch(prompt, timeout);
+            this.lastActivity = Date.now();
+
+            if (!prompt.test(output)) {
+                await this.writeChannel('\x03');
+                await this.readUntilMatch(prompt, 5000);
+                return {
+                    command,
+                    output: this.sanitizeOutput(output, command),
+                    success: false,
+                    error: `Command did not finish within ${timeout / 1000} seconds`
+                };
+            }
+
+            return {
+                command,
+                output: this.sanitizeOutput(output, command),
+                success: true
+            };
+        } catch (error) {
+            return {
+                command,
+                output: '',
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Hostname, vendor, model, OS version, serial number, uptime and interface names
+     */
+    async getFacts(): Promise<DeviceStateResult<DeviceFacts | null>> {
+        return this.unsupportedGetter('facts', null);
+    }
+
+    /**
+     * Admin and link state, description, MAC address, MTU and speed of each interface
+     */
+    async getInterfaces(): Promise<DeviceStateResult<InterfaceState[]>> {
+        return this.unsupportedGetter('interfaces', []);
+    }
+
+    /**
+     * IPv4 and IPv6 addresses configured on the interfaces
+     */
+    async getInterfacesIp(): Promise<DeviceStateResult<InterfaceAddress[]>> {
+        return this.unsupportedGetter('interface addresses', []);
+    }
+
+    async getArpTable(): Promise<DeviceStateResult<ArpEntry[]>> {
+        return this.unsupportedGetter('ARP table', []);
+    }
+
+    async getMacAddressTable(): Promise<DeviceStateResult<MacTableEntry[]>> {
+        return this.unsupportedGetter('MAC address table', []);
+    }
+
+    async getLldpNeighbors(): Promise<DeviceStateResult<LldpNeighbor[]>> {
+        return this.unsupportedGetter('LLDP neighbors', []);
+    }
+
+    async getBgpNeighbors(): Promise<DeviceStateResult<BgpNeighbor[]>> {
+        return this.unsupportedGetter('BGP neighbors', []);
+    }
+
+    /**
+     * Run the show commands of a getter and parse their outputs into the normalized state
+     * @param commands Commands to run, in order
+     * @param parse Turns the outputs, in command order, into the state
+     * @param empty State returned when a command fails
+     */
+    protected async runGetter<T>(commands: string[], parse: (outputs: string[]) => T, empty: T): Promise<DeviceStateResult<T>> {
+        const outputs: string[] = [];
+
+        for (const command of commands) {
+            const result = await this.sendCommand(command);
+            if (!result.success || /^\s*%\s*Invalid|^\s*error:|Invalid input|syntax error|unknown command|Unknown action|Command fail|Invalid command/im.test(result.output)) {
+                return {
+                    command: commands.join('; '),
+                    output: outputs.concat(result.output).join('\n'),
+                    success: false,
+                    state: empty,
+                    error: result.error || `Command "${command}" failed:\n\n${result.output}`
+                };
+            }
+            outputs.push(result.output);
+        }
+
+        try {
+            return {
+                command: commands.join('; '),
+                output: outputs.join('\n'),
+                success: true,
+                state: parse(outputs)
+            };
+        } catch (error) {
+            return {
+                command: commands.join('; '),
+                output: outputs.join('\n'),
+                success: false,
+                state: empty,
+                error: `Failed to parse the output: ${error instanceof Error ? error.message : String(error)}`
+            };
+        }
+    }
+
+    private unsupportedGetter<T>(name: string, empty: T): DeviceStateResult<T> {
+        return {
+            command: `get ${name}`,
+            output: '',
+            success: false,
+            state: empty,
+            error: `Getting the ${name} is not supported for device type ${this.credentials.deviceType}`
+        };
+    }
+
     async getCurrentConfig(): Promise<CommandResult> {
         // Default implementation - override in vendor classes
         return await this.sendCommand('show configuration');
     }
 
+    /**
+     * Replace the whole configuration with the platform's native replace
+     * semantics. Platforms without one fail instead of falling back to
+     * line-by-line configuration.
+     * @param config Full configuration, in the format shown by getCurrentConfig()
+     */
+    async replaceConfig(config: string): Promise<CommandResult> {
+        return {
+            command: 'replace configuration',
+            output: '',
+            success: false,
+            error: `Configuration replace is not supported for device type ${this.credentials.deviceType}`
+        };
+    }
+
+    /**
+     * Load configuration commands into the candidate, run the platform's
+     * check, return the candidate diff and discard the candidate.
+     * Only commit-based platforms support this.
+     * @param configCommands Configuration commands to validate
+     */
+    async validateConfig(configCommands: string[]): Promise<ConfigValidationResult> {
+        return {
+            command: configCommands.join('\n'),
+            output: '',
+            success: false,
+            valid: false,
+            diff: '',
+            messages: [],
+            error: `Validate-only is not supported for device type ${this.credentials.deviceType}`
+        };
+    }
+
+    /**
+     * Commit configuration commands with a confirm timer. The device rolls
+     * the commit back on its own unless confirmCommit() follows in time.
+     * @param configCommands Configuration commands to commit
+     * @param minutes Minutes before the automatic rollback
+     */
+    async commitConfirmed(configCommands: string[], minutes: number): Promise<CommandResult> {
+        return {
+            command: configCommands.join('\n'),
+            output: '',
+            success: false,
+            error: `Commit confirmed is not supported for device type ${this.credentials.deviceType}`
+        };
+    }
+
+    /**
+     * Confirm a pending commit-confirmed so it is not rolled back.
+     * Works from any session to the device, not only the one that committed.
+     */
+    async confirmCommit(): Promise<CommandResult> {
+        return {
+            command: 'confirm commit',
+            output: '',
+            success: false,
+            error: `Commit confirmed is not supported for device type ${this.credentials.deviceType}`
+        };
+    }
+
+    /**
+     * Restore a previous configuration revision and commit it.
+     * @param revision Revision as listed by getConfigRevisions()
+     */
+    async rollbackConfig(revision: string): Promise<CommandResult> {
+        return {
+            command: `rollback ${revision}`,
+            output: '',
+            success: false,
+            error: `Configuration rollback is not supported for device type ${this.credentials.deviceType}`
+        };
+    }
+
+    /**
+     * List the configuration revisions that rollbackConfig() accepts,
+     * newest first.
+     */
+    async getConfigRevisions(): Promise<ConfigRevisionsResult> {
+        return {
+            command: 'list revisions',
+            output: '',
+            success: false,
+            revisions: [],
+            error: `Configuration revisions are not supported for device type ${this.credentials.deviceType}`
+        };
+    }
+
     async saveConfig(): Promise<CommandResult> {
         // Default implementation - override in vendor classes
         return await this.sendCommand('save configuration');
@@ -1157,33 +1948,28 @@ export class BaseConnection extends EventEmitter {
         return `${this.credentials.host}:${this.credentials.port}:${this.credentials.username}`;
     }
 
-    protected getOptimizedAlgorithms(): any[] {
-        if (this.fastMode) {
-            return [
-                {
-                    serverHostKey: ['ssh-rsa', 'ecdsa-sha2-nistp256'],
-                    cipher: ['aes128-gcm@openssh.com', 'aes256-gcm@openssh.com', 'aes128-ctr', 'aes192-ctr', 'aes256-ctr'],
-                    hmac: [],
-                    kex: ['ecdh-sha2-nistp256', 'ecdh-sha2-nistp384', 'diffie-hellman-group14-sha256']
-                }
-            ];
-        } else {
-            return [
-                {
-                    serverHostKey: ['ssh-rsa', 'ecdsa-sha2-nistp256', 'ecdsa-sha2-nistp384', 'ecdsa-sha2-nistp521'],
-                    cipher: ['aes128-gcm@openssh.com', 'aes256-gcm@openssh.com', 'aes128-ctr', 'aes192-ctr', 'aes256-ctr'],
-                    hmac: [],
-                    kex: ['ecdh-sha2-nistp256', 'ecdh-sha2-nistp384', 'ecdh-sha2-nistp521', 'diffie-hellman-group14-sha256', 'diffie-hellman-group16-sha512']
-                },
-                // Legacy fallback for older devices that need separate HMAC
-                {
-                    serverHostKey: ['ssh-rsa', 'ssh-dss'],
-                    cipher: ['aes128-cbc', 'aes256-cbc', '3des-cbc'],
-                    hmac: ['hmac-sha2-256', 'hmac-sha1'],
-                    kex: ['diffie-hellman-group14-sha1', 'diffie-hellman-group1-sha1']
-                }
-            ];
-        }
+    /**
+     * Algorithm lists to try in turn, from the credential's algorithm profile
+     * with its custom algorithm lists applied
+     * @param deviceType Device type of the server, which decides the profile order for "auto"
+     * @param overrides Custom algorithm lists of the server
+     */
+    protected getOptimizedAlgorithms(
+        deviceType: string = this.credentials.deviceType,
+        overrides: SshAlgorithmOverrides | undefined = this.credentials.algorithms
+    ): SshAlgorithms[] {
+        const profiles = getAlgorithmProfiles(this.credentials.algorithmProfile, {
+            deviceType,
+            fastMode: this.fastMode
+        }).map((profile) => profile.algorithms);
+        return applyAlgorithmOverrides(profiles, overrides);
+    }
+
+    /**
+     * Algorithms agreed with the device in the last handshake
+     */
+    getNegotiatedAlgorithms(): NegotiatedSshAlgorithms | undefined {
+        return this.negotiatedAlgorithms;
     }
 
     // Static method to force cleanup connection pool
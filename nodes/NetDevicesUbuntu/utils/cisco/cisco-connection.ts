@@ -1,4 +1,32 @@
-import { BaseConnection, DeviceCredentials, CommandResult } from '../base-connection';
+import { isIP } from 'net';
+import {
+    BaseConnection,
+    DeviceCredentials,
+    CommandResult,
+    ConfigRevisionsResult,
+    DeviceStateResult,
+    FreeSpaceResult,
+    PingOptions,
+    SoftwareVersionResult
+} from '../base-connection';
+import { normalizeConfig, parseNxosCheckpoints } from '../config';
+import {
+    ArpEntry,
+    BgpNeighbor,
+    DeviceFacts,
+    InterfaceAddress,
+    InterfaceState,
+    LldpNeighbor,
+    MacTableEntry,
+    parseBgpSummary,
+    parseIosArpTable,
+    parseIosFacts,
+    parseIosInterfaceAddresses,
+    parseIosInterfaces,
+    parseIosLldpNeighbors,
+    parseIosMacTable
+} from '../getters';
+import { RemoteChecksum } from '../transfer';
 
 export class CiscoConnection extends BaseConnection {
     private enablePassword: string = '';
@@ -272,16 +300,369 @@ export class CiscoConnection extends BaseConnection {
         return await this.sendCommand('write memory');
     }
 
+    async replaceConfig(config: string): Promise<CommandResult> {
+        const isNxos = this.credentials.deviceType === 'cisco_nxos';
+        const fileName = isNxos ? 'bootflash:n8n-replace.cfg' : 'flash:n8n-replace.cfg';
+        const replaceCommand = isNxos ? `configure replace ${fileName}` : `configure replace ${fileName} force`;
+
+        if (this.credentials.deviceType === 'cisco_asa') {
+            return {
+                command: replaceCommand,
+                output: '',
+                success: false,
+                error: 'Configuration replace is not supported on Cisco ASA'
+            };
+        }
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+
+            if (!this.inEnableMode) {
+                await this.enterEnableMode();
+            }
+
+            // configure replace only reads from a file, so stage the candidate on flash first
+            await this.writeFileWithTcl(fileName, normalizeConfig(config, this.credentials.deviceType).join('\n'));
+
+            await this.writeChannel(replaceCommand + this.newline);
+            const output = await this.readUntilMatch(this.getEnabledPromptPattern(), 300000);
+
+            // Remove the staged file whatever the outcome
+            await this.sendCommand(isNxos ? `delete ${fileName} no-prompt` : `delete /force ${fileName}`);
+
+            const failed = isNxos
+                ? /Configure replace failed|% ?(?:Invalid|Error)/i.test(output)
+                : /Rollback aborted|% ?(?:Invalid|Error|Failed)/i.test(output);
+            const completed = isNxos
+                ? /Configure replace completed successfully/i.test(output)
+                : /Rollback Done/i.test(output);
+            if (failed || !completed) {
+                throw new Error(`Configuration replace failed:\n\n${this.sanitizeOutput(output, replaceCommand)}`);
+            }
+
+            return {
+                command: replaceCommand,
+                output: this.sanitizeOutput(output, replaceCommand),
+                success: true
+            };
+        } catch (error) {
+            return {
+                command: replaceCommand,
+                output: '',
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    async rollbackConfig(revision: string): Promise<CommandResult> {
+        // NX-OS rolls back to named checkpoints; other Cisco platforms have no revision history
+        if (this.credentials.deviceType !== 'cisco_nxos') {
+            return super.rollbackConfig(revision);
+        }
+
+        const command = `rollback running-config checkpoint ${revision}`;
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+            if (!/^[\w.-]+$/.test(revision)) {
+                throw new Error(`Invalid checkpoint name "${revision}"`);
+            }
+
+            if (!this.inEnableMode) {
+                await this.enterEnableMode();
+            }
+
+            await this.writeChannel(command + this.newline);
+            const output = await this.readUntilMatch(this.getEnabledPromptPattern(), 300000);
+
+            if (!/Rollback completed successfully/i.test(output)) {
+                throw new Error(`Rollback failed:\n\n${this.sanitizeOutput(output, command)}`);
+            }
+
+            return {
+                command,
+                output: this.sanitizeOutput(output, command),
+                success: true
+            };
+        } catch (error) {
+            return {
+                command,
+                output: '',
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    async getConfigRevisions(): Promise<ConfigRevisionsResult> {
+        if (this.credentials.deviceType !== 'cisco_nxos') {
+            return super.getConfigRevisions();
+        }
+
+        const result = await this.sendCommand('show checkpoint summary');
+        return {
+            ...result,
+            revisions: result.success ? parseNxosCheckpoints(result.output) : []
+        };
+    }
+
+    async getFreeSpace(remotePath: string): Promise<FreeSpaceResult> {
+        // Upgrades are handled on IOS and IOS-XE (bundle boot) only
+        if (!this.isIosOrIosXe()) {
+            return super.getFreeSpace(remotePath);
+        }
+
+        const fileSystem = remotePath.includes(':') ? remotePath.split(':')[0] : 'flash';
+        const result = await this.sendCommand(`dir ${fileSystem}:`);
+        const match = result.output.match(/\((\d+) bytes free\)/i);
+
+        if (result.success && !match) {
+            return {
+                ...result,
+                success: false,
+                bytesFree: 0,
+                error: `Could not read the free space of ${fileSystem}:`
+            };
+        }
+
+        return {
+            ...result,
+            bytesFree: match ? Number(match[1]) : 0
+        };
+    }
+
+    async stageSoftware(remotePath: string): Promise<CommandResult> {
+        if (!this.isIosOrIosXe()) {
+            return super.stageSoftware(remotePath);
+        }
+
+        const bootCommands = ['no boot system', `boot system ${remotePath}`];
+
+        const configResult = await this.sendConfig(bootCommands);
+        if (!configResult.success) {
+            return configResult;
+        }
+
+        const saveResult = await this.saveConfig();
+        if (!saveResult.success) {
+            return saveResult;
+        }
+
+        // The boot variable only counts once it is in the saved configuration
+        const checkResult = await this.sendCommand('show running-config | include boot system');
+        if (checkResult.success && !checkResult.output.includes(remotePath)) {
+            return {
+                ...checkResult,
+                success: false,
+                error: `Boot variable does not point to ${remotePath}:\n\n${checkResult.output}`
+            };
+        }
+
+        return {
+            command: bootCommands.join('; '),
+            output: [configResult.output, saveResult.output, checkResult.output].filter(Boolean).join('\n'),
+            success: checkResult.success,
+            error: checkResult.error
+        };
+    }
+
+    async getSoftwareVersion(): Promise<SoftwareVersionResult> {
+        const result = await this.sendCommand('show version');
+        const match = result.output.match(/\bVersion\s+([^\s,]+)/i);
+        return {
+            ...result,
+            version: match ? match[1] : ''
+        };
+    }
+
+    async getFacts(): Promise<DeviceStateResult<DeviceFacts | null>> {
+        // Getters are implemented for IOS and IOS-XE
+        if (!this.isIosOrIosXe()) {
+            return super.getFacts();
+        }
+        return this.runGetter(
+            ['show version', 'show ip interface brief', 'show running-config | include ^ip domain.name'],
+            ([version, interfaces, domain]) => parseIosFacts(version, interfaces, domain),
+            null
+        );
+    }
+
+    async getInterfaces(): Promise<DeviceStateResult<InterfaceState[]>> {
+        if (!this.isIosOrIosXe()) {
+            return super.getInterfaces();
+        }
+        return this.runGetter(['show interfaces'], ([output]) => parseIosInterfaces(output), []);
+    }
+
+    async getInterfacesIp(): Promise<DeviceStateResult<InterfaceAddress[]>> {
+        if (!this.isIosOrIosXe()) {
+            return super.getInterfacesIp();
+        }
+        return this.runGetter(
+            ['show ip interface', 'show ipv6 interface'],
+            ([ipv4, ipv6]) => parseIosInterfaceAddresses(ipv4, ipv6),
+            []
+        );
+    }
+
+    async getArpTable(): Promise<DeviceStateResult<ArpEntry[]>> {
+        if (!this.isIosOrIosXe()) {
+            return super.getArpTable();
+        }
+        return this.runGetter(['show ip arp'], ([output]) => parseIosArpTable(output), []);
+    }
+
+    async getMacAddressTable(): Promise<DeviceStateResult<MacTableEntry[]>> {
+        if (!this.isIosOrIosXe()) {
+            return super.getMacAddressTable();
+        }
+        return this.runGetter(['show mac address-table'], ([output]) => parseIosMacTable(output), []);
+    }
+
+    async getLldpNeighbors(): Promise<DeviceStateResult<LldpNeighbor[]>> {
+        if (!this.isIosOrIosXe()) {
+            return super.getLldpNeighbors();
+        }
+        return this.runGetter(['show lldp neighbors'], ([output]) => parseIosLldpNeighbors(output), []);
+    }
+
+    async getBgpNeighbors(): Promise<DeviceStateResult<BgpNeighbor[]>> {
+        if (!this.isIosOrIosXe()) {
+            return super.getBgpNeighbors();
+        }
+        return this.runGetter(['show ip bgp summary'], ([output]) => parseBgpSummary(output), []);
+    }
+
+    private isIosOrIosXe(): boolean {
+        return this.credentials.deviceType === 'cisco_ios' || this.credentials.deviceType === 'cisco_ios_xe';
+    }
+
+    /**
+     * Write a file on the device through the Tcl shell, as there is no
+     * file transfer on the CLI session
+     * @param fileName Destination, e.g. flash:candidate.cfg
+     * @param content File content
+     */
+    protected async writeFileWithTcl(fileName: string, content: string): Promise<void> {
+        // The content is sent as a braced Tcl word, which must be balanced
+        let depth = 0;
+        for (const char of content) {
+            depth += char === '{' ? 1 : char === '}' ? -1 : 0;
+            if (depth < 0) break;
+        }
+        if (depth !== 0) {
+            throw new Error('The configuration has unbalanced braces and cannot be written with tclsh');
+        }
+
+        const tclPrompt = /(?:\(tcl\)|-tcl)#\s*$/;
+        // Messages of the Tcl interpreter, e.g. couldn't open "flash:x": permission denied
+        const tclError = /^(?:couldn't (?:open|write)|invalid command name|wrong # args|can't |error (?:writing|flushing))/i;
+
+        await this.writeChannel('tclsh' + this.newline);
+        const enterOutput = await this.readUntilMatch(tclPrompt, 5000);
+        if (!tclPrompt.test(enterOutput)) {
+            throw new Error('Failed to enter tclsh');
+        }
+
+        try {
+            await this.writeChannel(`puts [open "${fileName}" w+] {${this.newline}${content}${this.newline}}${this.newline}`);
+            const output = await this.readUntilMatch(tclPrompt, 120000);
+            if (!tclPrompt.test(output)) {
+                throw new Error(`Failed to write ${fileName}: ${output.trim().split('\n').pop()}`);
+            }
+            // The device echoes the content, which ends with the closing brace; Tcl reports errors after it
+            const lines = output.split(/\r?\n/).slice(0, -1).map(line => line.trim());
+            const echoEnd = lines.map(line => line.endsWith('}')).lastIndexOf(true);
+            const tclMessage = lines.slice(echoEnd + 1).find(line => tclError.test(line));
+            if (tclMessage) {
+                throw new Error(`Failed to write ${fileName}: ${tclMessage}`);
+            }
+        } finally {
+            await this.writeChannel('tclquit' + this.newline);
+            await this.readUntilMatch(this.getEnabledPromptPattern(), 5000);
+        }
+    }
+
+    protected async getRemoteChecksum(remotePath: string): Promise<RemoteChecksum | null> {
+        // NX-OS reports the digest with "show file"; IOS, IOS-XE and ASA with "verify /md5"
+        const command = this.credentials.deviceType === 'cisco_nxos'
+            ? `show file ${remotePath} md5sum`
+            : `verify /md5 ${remotePath}`;
+
+        if (!this.inEnableMode) {
+            await this.enterEnableMode();
+        }
+
+        // Hashing a large image takes a while
+        await this.writeChannel(command + this.newline);
+        const output = await this.readUntilMatch(this.getEnabledPromptPattern(), 600000);
+        const match = this.sanitizeOutput(output, command).match(/\b([0-9a-f]{32})\b/i);
+        return match ? { algorithm: 'md5', value: match[1] } : null;
+    }
+
+    protected getPingCommand(target: string, options: PingOptions): string {
+        const { count, size, source, vrf } = options;
+        switch (this.credentials.deviceType) {
+            case 'cisco_nxos':
+                return [
+                    `ping ${target} count ${count}`,
+                    size ? `packet-size ${size}` : '',
+                    source ? `${isIP(source) ? 'source' : 'source-interface'} ${source}` : '',
+                    vrf ? `vrf ${vrf}` : ''
+                ].filter(Boolean).join(' ');
+            case 'cisco_asa':
+                // The ASA takes the source nameif in front of the target
+                return ['ping', source || '', `${target} repeat ${count}`, size ? `size ${size}` : ''].filter(Boolean).join(' ');
+            default:
+                return [
+                    'ping',
+                    vrf ? `vrf ${vrf}` : '',
+                    `${target} repeat ${count}`,
+                    size ? `size ${size}` : '',
+                    source ? `source ${source}` : ''
+                ].filter(Boolean).join(' ');
+        }
+    }
+
+    protected getTracerouteCommand(target: string, options: PingOptions): string {
+        const { source, vrf } = options;
+        switch (this.credentials.deviceType) {
+            case 'cisco_nxos':
+                return [
+                    `traceroute ${target}`,
+                    source ? `${isIP(source) ? 'source' : 'source-interface'} ${source}` : '',
+                    vrf ? `vrf ${vrf}` : ''
+                ].filter(Boolean).join(' ');
+            case 'cisco_asa':
+                return `traceroute ${target}${source ? ` source ${source}` : ''}`;
+            default:
+                return ['traceroute', vrf ? `vrf ${vrf}` : '', target, source ? `source ${source}` : ''].filter(Boolean).join(' ');
+        }
+    }
+
+    protected getEnabledPromptPattern(): RegExp {
+        return new RegExp(`${this.escapeRegex(this.basePrompt)}\\S*#\\s*$`);
+    }
+
     async rebootDevice(): Promise<CommandResult> {
         try {
             // Send reload command
             await this.writeChannel('reload' + this.newline);
             
-            // Wait for confirmation prompt
-            let output = await this.readChannel(5000);
+            // Unsaved changes are not saved here, that is what Save Config is for
+            let output = await this.readUntilPrompt(/\[yes\/no\]:?\s*$|\[confirm\]\s*$/, 10000);
+            if (/\[yes\/no\]:?\s*$/.test(output)) {
+                await this.writeChannel('no' + this.newline);
+                output += await this.readUntilPrompt(/\[confirm\]\s*$/, 10000);
+            }
             
-            // If we see a confirmation prompt, respond with yes
-            if (output.includes('[confirm]') || output.includes('?')) {
+            // Confirm the reload
+            if (/\[confirm\]\s*$/.test(output)) {
                 await this.writeChannel(this.newline);
                 output += await this.readChannel(5000);
             }
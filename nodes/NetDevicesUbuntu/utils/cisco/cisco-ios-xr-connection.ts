@@ -1,4 +1,6 @@
-import { BaseConnection, DeviceCredentials, CommandResult } from '../base-connection';
+import { BaseConnection, DeviceCredentials, CommandResult, ConfigValidationResult, ConfigRevisionsResult, PingOptions } from '../base-connection';
+import { normalizeConfig, parseIosXrCommitList } from '../config';
+import { RemoteChecksum } from '../transfer';
 
 export class CiscoIOSXRConnection extends BaseConnection {
     private inConfigMode: boolean = false;
@@ -199,15 +201,319 @@ export class CiscoIOSXRConnection extends BaseConnection {
         return await this.sendCommand('show running-config');
     }
 
+    async validateConfig(configCommands: string[]): Promise<ConfigValidationResult> {
+        let command = 'commit check';
+        const prompt = new RegExp(`${this.escapeRegex(this.basePrompt)}\\S*#\\s*$`);
+        const errorPattern = /% ?(?:Invalid input|Incomplete command|Ambiguous command|Failed|Error)/i;
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+
+            await this.enterConfigMode();
+
+            const messages: string[] = [];
+            for (const configCommand of configCommands) {
+                await this.writeChannel(configCommand + this.newline);
+                const output = await this.readUntilMatch(prompt, 10000);
+                if (errorPattern.test(output)) {
+                    messages.push(`${configCommand}: ${this.sanitizeOutput(output, configCommand)}`);
+                }
+            }
+
+            await this.writeChannel('show commit changes diff' + this.newline);
+            const diff = this.sanitizeOutput(await this.readUntilMatch(prompt, 30000), 'show commit changes diff');
+
+            await this.writeChannel(command + this.newline);
+            let checkOutput = await this.readUntilMatch(prompt, 120000);
+            if (/% ?Invalid input/i.test(checkOutput)) {
+                // Releases without "commit check" validate the target configuration this way
+                command = 'validate commit show-error';
+                await this.writeChannel(command + this.newline);
+                checkOutput = await this.readUntilMatch(prompt, 120000);
+            }
+            checkOutput = this.sanitizeOutput(checkOutput, command);
+            if (errorPattern.test(checkOutput)) {
+                messages.push(checkOutput);
+            }
+
+            await this.abortCandidate();
+
+            const valid = messages.length === 0;
+            return {
+                command,
+                output: checkOutput,
+                success: valid,
+                valid,
+                diff,
+                messages,
+                error: valid ? undefined : 'Configuration validation failed'
+            };
+        } catch (error) {
+            try {
+                await this.abortCandidate();
+            } catch (abortError) {
+                // Ignore abort errors if we're already handling an error
+            }
+
+            return {
+                command,
+                output: '',
+                success: false,
+                valid: false,
+                diff: '',
+                messages: [],
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    async replaceConfig(config: string): Promise<CommandResult> {
+        const command = 'commit replace';
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+
+            // "end" would leave configuration mode before the commit
+            const lines = normalizeConfig(config, 'cisco_ios_xr').filter(line => line.trim() !== 'end');
+            if (lines.length === 0) {
+                throw new Error('The replacement configuration is empty');
+            }
+
+            await this.enterConfigMode();
+
+            // Load the whole candidate, then wait for the prompt after its last statement
+            const lastStatement = [...lines].reverse().find(line => !/^!*$/.test(line.trim())) || lines[lines.length - 1];
+            await this.writeChannel(lines.join(this.newline) + this.newline);
+            const loadOutput = await this.readUntilMatch(
+                new RegExp(`${this.escapeRegex(lastStatement.trim())}[\\s\\S]*${this.escapeRegex(this.basePrompt)}\\S*#\\s*$`),
+                120000,
+            );
+            if (/% ?(?:Invalid input|Incomplete command|Ambiguous command)/i.test(loadOutput)) {
+                throw new Error(`The replacement configuration was rejected:\n\n${loadOutput}`);
+            }
+
+            await this.writeChannel(command + this.newline);
+            let output = await this.readUntilMatch(/\[no\]:?\s*$|#\s*$/, 60000);
+            if (/proceed/i.test(output)) {
+                await this.writeChannel('yes' + this.newline);
+                output += await this.readUntilMatch(new RegExp(`${this.escapeRegex(this.basePrompt)}\\S*#\\s*$`), 300000);
+            }
+
+            if (/% ?Failed to commit|% ?Error/i.test(output)) {
+                throw new Error(`Commit replace failed:\n\n${output}`);
+            }
+
+            await this.exitConfigMode();
+
+            return {
+                command,
+                output: this.sanitizeOutput(output, command),
+                success: true
+            };
+        } catch (error) {
+            // Drop the candidate so the running configuration is left untouched
+            try {
+                await this.abortCandidate();
+            } catch (abortError) {
+                // Ignore abort errors if we're already handling an error
+            }
+
+            return {
+                command,
+                output: '',
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    async commitConfirmed(configCommands: string[], minutes: number): Promise<CommandResult> {
+        // The timer is given in seconds, 30 to 65535
+        const command = `commit confirmed ${Math.min(Math.max(minutes * 60, 30), 65535)}`;
+        const prompt = new RegExp(`${this.escapeRegex(this.basePrompt)}\\S*#\\s*$`);
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+
+            await this.enterConfigMode();
+
+            let allOutput = '';
+            for (const configCommand of configCommands) {
+                await this.writeChannel(configCommand + this.newline);
+                const output = await this.readUntilMatch(prompt, 10000);
+                allOutput += output;
+
+                if (/% ?(?:Invalid input|Incomplete command|Ambiguous command)/i.test(output)) {
+                    throw new Error(`Configuration error on command "${configCommand}": ${output}`);
+                }
+            }
+
+            await this.writeChannel(command + this.newline);
+            const commitOutput = await this.readUntilMatch(prompt, 120000);
+            if (/% ?Failed to commit|% ?Error|% ?Invalid input/i.test(commitOutput)) {
+                throw new Error(`Commit confirmed failed:\n\n${this.sanitizeOutput(commitOutput, command)}`);
+            }
+
+            await this.exitConfigMode();
+
+            return {
+                command,
+                output: this.sanitizeOutput(allOutput + commitOutput, command),
+                success: true
+            };
+        } catch (error) {
+            try {
+                await this.abortCandidate();
+            } catch (abortError) {
+                // Ignore abort errors if we're already handling an error
+            }
+
+            return {
+                command,
+                output: '',
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    async confirmCommit(): Promise<CommandResult> {
+        const command = 'commit';
+        const prompt = new RegExp(`${this.escapeRegex(this.basePrompt)}\\S*#\\s*$`);
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+
+            await this.enterConfigMode();
+            await this.writeChannel(command + this.newline);
+            const output = await this.readUntilMatch(prompt, 120000);
+            await this.exitConfigMode();
+
+            if (/% ?Failed to commit|% ?Error/i.test(output)) {
+                throw new Error(`Confirming commit failed:\n\n${this.sanitizeOutput(output, command)}`);
+            }
+
+            return {
+                command,
+                output: this.sanitizeOutput(output, command),
+                success: true
+            };
+        } catch (error) {
+            return {
+                command,
+                output: '',
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    async rollbackConfig(revision: string): Promise<CommandResult> {
+        // Short numbers count commits back, anything else is a commit ID or label
+        const command = /^\d{1,3}$/.test(revision)
+            ? `rollback configuration last ${revision}`
+            : `rollback configuration to ${revision}`;
+        const prompt = new RegExp(`${this.escapeRegex(this.basePrompt)}\\S*#\\s*$`);
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+            if (!/^[\w.-]+$/.test(revision)) {
+                throw new Error(`Invalid revision "${revision}", expected a number of commits, a commit ID or a label`);
+            }
+            if (this.inConfigMode) {
+                await this.exitConfigMode();
+            }
+
+            await this.writeChannel(command + this.newline);
+            let output = await this.readUntilMatch(/\[no\]:?\s*$|#\s*$/, 300000);
+            if (/proceed/i.test(output)) {
+                await this.writeChannel('yes' + this.newline);
+                output += await this.readUntilMatch(prompt, 300000);
+            }
+
+            if (/% ?(?:Failed|Error|Invalid input)|No commits? (?:found|to rollback)/i.test(output)) {
+                throw new Error(`Rollback failed:\n\n${this.sanitizeOutput(output, command)}`);
+            }
+
+            return {
+                command,
+                output: this.sanitizeOutput(output, command),
+                success: true
+            };
+        } catch (error) {
+            return {
+                command,
+                output: '',
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    async getConfigRevisions(): Promise<ConfigRevisionsResult> {
+        const result = await this.sendCommand('show configuration commit list detail');
+        return {
+            ...result,
+            revisions: result.success ? parseIosXrCommitList(result.output) : []
+        };
+    }
+
+    // Discard the uncommitted candidate and return to exec mode
+    private async abortCandidate(): Promise<void> {
+        if (!this.inConfigMode) {
+            return;
+        }
+        await this.writeChannel('abort' + this.newline);
+        await this.readChannel(3000);
+        this.inConfigMode = false;
+    }
+
     async saveConfig(): Promise<CommandResult> {
         // IOS-XR doesn't use 'write memory', config is saved with commit
         return await this.sendCommand('show configuration commit changes last 1');
     }
 
+    protected getPingCommand(target: string, options: PingOptions): string {
+        const { count, size, source, vrf } = options;
+        return [
+            'ping',
+            vrf ? `vrf ${vrf}` : '',
+            `${target} count ${count}`,
+            size ? `size ${size}` : '',
+            source ? `source ${source}` : ''
+        ].filter(Boolean).join(' ');
+    }
+
+    protected getTracerouteCommand(target: string, options: PingOptions): string {
+        const { source, vrf } = options;
+        return ['traceroute', vrf ? `vrf ${vrf}` : '', target, source ? `source ${source}` : ''].filter(Boolean).join(' ');
+    }
+
+    protected async getRemoteChecksum(remotePath: string): Promise<RemoteChecksum | null> {
+        if (this.inConfigMode) {
+            await this.exitConfigMode();
+        }
+        const command = `show md5 file ${remotePath}`;
+        await this.writeChannel(command + this.newline);
+        const output = await this.readUntilMatch(new RegExp(`${this.escapeRegex(this.basePrompt)}\\S*#\\s*$`), 300000);
+        const match = this.sanitizeOutput(output, command).match(/\b([0-9a-f]{32})\b/i);
+        return match ? { algorithm: 'md5', value: match[1] } : null;
+    }
+
     async rebootDevice(): Promise<CommandResult> {
         try {
             await this.writeChannel('reload' + this.newline);
-            let output = await this.readChannel(5000);
+            let output = await this.readUntilPrompt(/\[confirm\]|Proceed/, 10000);
             
             // Look for confirmation prompts
             if (output.includes('confirm') || output.includes('Proceed')) {
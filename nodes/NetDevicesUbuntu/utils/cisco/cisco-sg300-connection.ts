@@ -1,4 +1,4 @@
-import { BaseConnection, DeviceCredentials, CommandResult } from '../base-connection';
+import { BaseConnection, DeviceCredentials, CommandResult, PingOptions } from '../base-connection';
 
 export class CiscoSG300Connection extends BaseConnection {
     private inConfigMode: boolean = false;
@@ -247,13 +247,23 @@ export class CiscoSG300Connection extends BaseConnection {
         return await this.sendCommand('copy running-config startup-config');
     }
 
+    protected getPingCommand(target: string, options: PingOptions): string {
+        const { count, size } = options;
+        return `ping ${target}${size ? ` size ${size}` : ''} count ${count}`;
+    }
+
+    protected getTracerouteCommand(target: string, options: PingOptions): string {
+        const { source } = options;
+        return `traceroute ip ${target}${source ? ` source ${source}` : ''}`;
+    }
+
     async rebootDevice(): Promise<CommandResult> {
         try {
             await this.writeChannel('reload' + this.newline);
-            let output = await this.readChannel(5000);
+            let output = await this.readUntilPrompt(/confirm|\[Y\/N\]/i, 10000);
             
             // Look for confirmation prompts
-            if (output.includes('confirm') || output.includes('[Y/N]')) {
+            if (/confirm|\[Y\/N\]/i.test(output)) {
                 await this.writeChannel('y' + this.newline);
                 output += await this.readChannel(5000);
             }
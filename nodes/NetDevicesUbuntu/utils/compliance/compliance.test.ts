@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkCompliance, parseComplianceRules } from './compliance';
+
+const CONFIG = [
+	'hostname R1',
+	'service password-encryption',
+	'!',
+	'interface GigabitEthernet0/0',
+	' description Uplink',
+	' ip address 192.0.2.1 255.255.255.0',
+	' no shutdown',
+	'!',
+	'interface GigabitEthernet0/1',
+	' ip address 198.51.100.1 255.255.255.0',
+	' no shutdown',
+	'!',
+	'snmp-server community public RO',
+	'ip ssh time-out 60',
+	'line vty 0 4',
+	' exec-timeout 30 0',
+	' transport input ssh',
+	'end',
+].join('\n');
+
+const RULES = `
+rules:
+  - name: Password encryption
+    type: mustExist
+    line: service password-encryption
+  - name: No public community
+    type: mustNotExist
+    pattern: ^snmp-server community public
+  - name: Hostname set
+    type: regex
+    pattern: ^hostname \\S+$
+  - name: Interfaces with an address have a description
+    type: block
+    parent: ^interface
+    when: [^ip address]
+    children: [^description]
+  - name: VTY timeout at most 15 minutes
+    type: range
+    parent: ^line vty
+    pattern: ^exec-timeout (\\d+)
+    max: 15
+`;
+
+describe('parseComplianceRules', () => {
+	it('reads a YAML rule set', () => {
+		const rules = parseComplianceRules(RULES);
+		assert.deepEqual(
+			rules.map((rule) => rule.type),
+			['mustExist', 'mustNotExist', 'regex', 'block', 'range'],
+		);
+	});
+
+	it('names the first invalid rule', () => {
+		assert.throws(
+			() => parseComplianceRules('[{ name: ok, type: regex, pattern: x }, { name: broken, type: block, parent: x }]'),
+			/^Error: Rule 2 \(broken\): needs "parent" and "children"$/,
+		);
+	});
+});
+
+describe('checkCompliance', () => {
+	it('reports each rule with its offending lines', () => {
+		const report = checkCompliance(CONFIG, parseComplianceRules(RULES), 'cisco_ios');
+		assert.equal(report.compliant, false);
+		assert.equal(report.passed, 2);
+		assert.equal(report.failed, 3);
+
+		const byName = Object.fromEntries(report.results.map((entry) => [entry.name, entry]));
+		assert.equal(byName['Password encryption'].passed, true);
+		assert.equal(byName['Hostname set'].passed, true);
+		assert.deepEqual(byName['No public community'].offendingLines, ['snmp-server community public RO']);
+		assert.deepEqual(byName['Interfaces with an address have a description'].offendingLines, ['interface GigabitEthernet0/1']);
+		assert.deepEqual(byName['VTY timeout at most 15 minutes'].offendingLines, ['exec-timeout 30 0']);
+	});
+
+	it('passes a compliant configuration', () => {
+		const compliant = CONFIG.replace('snmp-server community public RO', 'snmp-server community s3cr3t RO')
+			.replace('interface GigabitEthernet0/1', 'interface GigabitEthernet0/1\n description Access')
+			.replace('exec-timeout 30 0', 'exec-timeout 10 0');
+		assert.equal(checkCompliance(compliant, parseComplianceRules(RULES), 'cisco_ios').compliant, true);
+	});
+});
@@ -0,0 +1,314 @@
+import { load } from 'js-yaml';
+import { normalizeConfig } from '../config/normalize';
+import { ConfigTree } from '../config/tree';
+
+export type ComplianceRuleType = 'mustExist' | 'mustNotExist' | 'regex' | 'block' | 'range';
+
+const RULE_TYPES: ComplianceRuleType[] = ['mustExist', 'mustNotExist', 'regex', 'block', 'range'];
+
+export interface ComplianceRule {
+	name: string;
+	type: ComplianceRuleType;
+	// Exact configuration line, compared with surrounding whitespace trimmed
+	line?: string;
+	// Regular expression, matched per line (or against the whole configuration for "regex")
+	pattern?: string;
+	// Regular expression selecting the sections the rule is checked in
+	parent?: string;
+	// Block rules: children a section must contain to be checked at all
+	when?: string[];
+	// Block rules: children every checked section must contain
+	children?: string[];
+	// Block rules: whether the children must appear in the listed order
+	ordered?: boolean;
+	// Range rules: bounds of the number captured by the first group of the pattern
+	min?: number;
+	max?: number;
+}
+
+export interface ComplianceRuleResult {
+	name: string;
+	type: ComplianceRuleType;
+	passed: boolean;
+	message?: string;
+	offendingLines: string[];
+}
+
+export interface ComplianceReport {
+	compliant: boolean;
+	passed: number;
+	failed: number;
+	results: ComplianceRuleResult[];
+}
+
+interface ConfigSection {
+	parent: string;
+	children: string[];
+}
+
+function toStringList(value: unknown, field: string): string[] {
+	const list = Array.isArray(value) ? value : value === undefined ? [] : [value];
+	if (!list.every((entry) => typeof entry === 'string')) {
+		throw new Error(`"${field}" must be a string or a list of strings`);
+	}
+	return list as string[];
+}
+
+function validateRule(raw: unknown): ComplianceRule {
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+		throw new Error('must be an object');
+	}
+	const rule = raw as { [key: string]: unknown };
+
+	if (typeof rule.name !== 'string' || rule.name.trim() === '') {
+		throw new Error('"name" is required');
+	}
+	if (!RULE_TYPES.includes(rule.type as ComplianceRuleType)) {
+		throw new Error(`"type" must be one of ${RULE_TYPES.join(', ')}`);
+	}
+	for (const field of ['line', 'pattern', 'parent']) {
+		if (rule[field] !== undefined && typeof rule[field] !== 'string') {
+			throw new Error(`"${field}" must be a string`);
+		}
+	}
+	for (const field of ['min', 'max']) {
+		if (rule[field] !== undefined && typeof rule[field] !== 'number') {
+			throw new Error(`"${field}" must be a number`);
+		}
+	}
+
+	const validated: ComplianceRule = {
+		name: rule.name,
+		type: rule.type as ComplianceRuleType,
+		line: rule.line as string | undefined,
+		pattern: rule.pattern as string | undefined,
+		parent: rule.parent as string | undefined,
+		when: toStringList(rule.when, 'when'),
+		children: toStringList(rule.children, 'children'),
+		ordered: rule.ordered !== false,
+		min: rule.min as number | undefined,
+		max: rule.max as number | undefined,
+	};
+
+	switch (validated.type) {
+		case 'mustExist':
+		case 'mustNotExist':
+			if ((validated.line === undefined) === (validated.pattern === undefined)) {
+				throw new Error('needs either "line" or "pattern"');
+			}
+			break;
+		case 'regex':
+			if (validated.pattern === undefined) {
+				throw new Error('needs "pattern"');
+			}
+			break;
+		case 'block':
+			if (validated.parent === undefined || validated.children!.length === 0) {
+				throw new Error('needs "parent" and "children"');
+			}
+			break;
+		case 'range':
+			if (validated.pattern === undefined || (validated.min === undefined && validated.max === undefined)) {
+				throw new Error('needs "pattern" and "min" or "max"');
+			}
+			break;
+	}
+
+	// Compile every expression once so a broken rule set fails before the device is read
+	[validated.pattern, validated.parent, ...validated.when!, ...validated.children!]
+		.filter((pattern): pattern is string => pattern !== undefined)
+		.forEach((pattern) => new RegExp(pattern));
+
+	return validated;
+}
+
+/**
+ * Parse a rule set written in YAML or JSON, either a list of rules or an
+ * object with a "rules" list
+ * @param text Rule set
+ * @returns Validated rules
+ * @throws Error naming the first invalid rule
+ */
+export function parseComplianceRules(text: string): ComplianceRule[] {
+	const document = load(text) as unknown;
+	const rules = Array.isArray(document)
+		? document
+		: document && typeof document === 'object'
+			? (document as { rules?: unknown }).rules
+			: undefined;
+
+	if (!Array.isArray(rules) || rules.length === 0) {
+		throw new Error('The rule set must be a list of rules or an object with a "rules" list');
+	}
+
+	return rules.map((rule, index) => {
+		try {
+			return validateRule(rule);
+		} catch (error) {
+			const name = rule && typeof rule === 'object' && typeof rule.name === 'string' ? ` (${rule.name})` : '';
+			throw new Error(`Rule ${index + 1}${name}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	});
+}
+
+/**
+ * Sections whose parent line matches the pattern, with all lines below the
+ * parent as children, in the syntax of the configuration tree
+ */
+function findSections(tree: ConfigTree, parentPattern: RegExp): ConfigSection[] {
+	return tree.find(parentPattern).map((line) => ({
+		parent: line.text,
+		children: line.descendants().map((child) => child.text),
+	}));
+}
+
+function lineMatcher(rule: ComplianceRule): (line: string) => boolean {
+	if (rule.line !== undefined) {
+		const expected = rule.line.trim().replace(/\s+/g, ' ');
+		return (line) => line.trim().replace(/\s+/g, ' ') === expected;
+	}
+	const pattern = new RegExp(rule.pattern!);
+	return (line) => pattern.test(line.trim());
+}
+
+function result(rule: ComplianceRule, offendingLines: string[], message?: string): ComplianceRuleResult {
+	return message === undefined
+		? { name: rule.name, type: rule.type, passed: true, offendingLines: [] }
+		: { name: rule.name, type: rule.type, passed: false, message, offendingLines };
+}
+
+function checkPresence(rule: ComplianceRule, tree: ConfigTree): ComplianceRuleResult {
+	const matches = lineMatcher(rule);
+	const expected = rule.line !== undefined ? `"${rule.line.trim()}"` : `a line matching /${rule.pattern}/`;
+
+	if (rule.parent === undefined) {
+		const found = tree.lines().map((line) => line.text).filter(matches);
+		if (rule.type === 'mustExist') {
+			return result(rule, [], found.length > 0 ? undefined : `Missing ${expected}`);
+		}
+		return result(rule, found, found.length > 0 ? `Found ${expected}` : undefined);
+	}
+
+	// With a parent, every matching section is checked and reported by its parent line
+	const sections = findSections(tree, new RegExp(rule.parent));
+	if (rule.type === 'mustExist') {
+		const offending = sections.filter((section) => !section.children.some(matches)).map((section) => section.parent);
+		return result(rule, offending, offending.length > 0 ? `${offending.length} section(s) missing ${expected}` : undefined);
+	}
+	const offending = sections.flatMap((section) =>
+		section.children.filter(matches).map((child) => `${section.parent} > ${child}`),
+	);
+	return result(rule, offending, offending.length > 0 ? `Found ${expected} in ${offending.length} place(s)` : undefined);
+}
+
+function checkRegex(rule: ComplianceRule, lines: string[]): ComplianceRuleResult {
+	const pattern = new RegExp(rule.pattern!, 'm');
+	return result(rule, [], pattern.test(lines.join('\n')) ? undefined : `No match for /${rule.pattern}/`);
+}
+
+function checkBlock(rule: ComplianceRule, tree: ConfigTree): ComplianceRuleResult {
+	const when = rule.when!.map((pattern) => new RegExp(pattern));
+	const required = rule.children!.map((pattern) => new RegExp(pattern));
+	const offending: string[] = [];
+
+	for (const section of findSections(tree, new RegExp(rule.parent!))) {
+		if (!when.every((pattern) => section.children.some((child) => pattern.test(child)))) {
+			continue;
+		}
+
+		// In order, each required child is searched after the previous one
+		let position = 0;
+		const missing = required.filter((pattern) => {
+			const start = rule.ordered ? position : 0;
+			const found = section.children.findIndex((child, index) => index >= start && pattern.test(child));
+			if (found === -1) {
+				return true;
+			}
+			position = found + 1;
+			return false;
+		});
+		if (missing.length > 0) {
+			offending.push(section.parent);
+		}
+	}
+
+	return result(
+		rule,
+		offending,
+		offending.length > 0
+			? `${offending.length} section(s) do not contain ${rule.children!.map((child) => `/${child}/`).join(', ')}${
+					rule.ordered && required.length > 1 ? ' in order' : ''
+				}`
+			: undefined,
+	);
+}
+
+function checkRange(rule: ComplianceRule, tree: ConfigTree): ComplianceRuleResult {
+	const pattern = new RegExp(rule.pattern!);
+	const candidates =
+		rule.parent === undefined
+			? tree.lines().map((line) => line.text)
+			: findSections(tree, new RegExp(rule.parent)).flatMap((section) => section.children);
+
+	const offending: string[] = [];
+	let matched = 0;
+	for (const line of candidates) {
+		const match = line.match(pattern);
+		if (!match) {
+			continue;
+		}
+		matched++;
+		const value = Number(match[1] !== undefined ? match[1] : match[0]);
+		if (
+			Number.isNaN(value) ||
+			(rule.min !== undefined && value < rule.min) ||
+			(rule.max !== undefined && value > rule.max)
+		) {
+			offending.push(line);
+		}
+	}
+
+	const bounds =
+		rule.min !== undefined && rule.max !== undefined
+			? `${rule.min}-${rule.max}`
+			: rule.min !== undefined
+				? `>= ${rule.min}`
+				: `<= ${rule.max}`;
+	if (matched === 0) {
+		return result(rule, [], `No line matches /${rule.pattern}/`);
+	}
+	return result(rule, offending, offending.length > 0 ? `${offending.length} value(s) out of range (${bounds})` : undefined);
+}
+
+/**
+ * Evaluate compliance rules against a configuration
+ * @param config Configuration text, e.g. the output of getCurrentConfig()
+ * @param rules Rules from parseComplianceRules()
+ * @param deviceType Device type, used to drop volatile lines such as timestamps
+ * @returns Pass/fail per rule with the offending lines
+ */
+export function checkCompliance(config: string, rules: ComplianceRule[], deviceType = ''): ComplianceReport {
+	const tree = new ConfigTree(config, { deviceType });
+
+	const results = rules.map((rule) => {
+		switch (rule.type) {
+			case 'mustExist':
+			case 'mustNotExist':
+				return checkPresence(rule, tree);
+			case 'regex':
+				return checkRegex(rule, normalizeConfig(config, deviceType));
+			case 'block':
+				return checkBlock(rule, tree);
+			case 'range':
+				return checkRange(rule, tree);
+		}
+	});
+
+	const failed = results.filter((entry) => !entry.passed).length;
+	return {
+		compliant: failed === 0,
+		passed: results.length - failed,
+		failed,
+		results,
+	};
+}
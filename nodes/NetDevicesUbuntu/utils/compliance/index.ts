@@ -0,0 +1,8 @@
+export {
+	checkCompliance,
+	parseComplianceRules,
+	ComplianceReport,
+	ComplianceRule,
+	ComplianceRuleResult,
+	ComplianceRuleType,
+} from './compliance';
@@ -0,0 +1,40 @@
+import { createHash } from 'crypto';
+
+export const DEFAULT_BACKUP_FILE_NAME = '{host}_{deviceType}_{timestamp}.cfg';
+
+/**
+ * Format a date as a file-system safe UTC timestamp, e.g. 2024-01-15T10-00-00Z
+ * @param date Date to format
+ * @returns Timestamp without colons or milliseconds
+ */
+export function formatFileTimestamp(date: Date = new Date()): string {
+	return date
+		.toISOString()
+		.replace(/\.\d{3}Z$/, 'Z')
+		.replace(/:/g, '-');
+}
+
+/**
+ * Render a file name template such as "{host}_{deviceType}_{timestamp}.cfg".
+ * Substituted values are made file-system safe; unknown placeholders are kept.
+ * @param template File name template
+ * @param values Placeholder values
+ * @returns File name
+ */
+export function renderFileName(template: string, values: Record<string, string | number>): string {
+	return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+		if (values[name] === undefined) {
+			return placeholder;
+		}
+		return String(values[name]).replace(/[^\w.-]+/g, '_');
+	});
+}
+
+/**
+ * Compute the SHA-256 checksum of a configuration
+ * @param content Configuration text or buffer
+ * @returns Hex-encoded checksum
+ */
+export function sha256(content: string | Buffer): string {
+	return createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,155 @@
+import type { BaseConnection, TimedCommandResult } from '../base-connection';
+
+export type CommitConfirmedPhaseName = 'commit' | 'reconnect' | 'postChecks' | 'confirm';
+
+export interface CommitConfirmedPhase {
+	phase: CommitConfirmedPhaseName;
+	success: boolean;
+	duration: number;
+	output?: string;
+	error?: string;
+}
+
+// New sessions tried after the commit before the commit is left to roll back
+export const COMMIT_CONFIRMED_RECONNECT_ATTEMPTS = 3;
+
+export interface CommitConfirmedOptions {
+	confirmTimeout: number;
+	postCheckCommands: string[];
+	postCheckFailPattern?: RegExp;
+	reconnectAttempts?: number;
+	reconnectDelay?: number;
+}
+
+export interface CommitConfirmedResult {
+	success: boolean;
+	confirmed: boolean;
+	rollbackPending: boolean;
+	phases: CommitConfirmedPhase[];
+	postCheckResults: TimedCommandResult[];
+	error?: string;
+}
+
+/**
+ * Apply configuration with a commit-confirmed timer and only confirm it after
+ * a fresh session to the device passes the post-checks. When the device
+ * cannot be reached again, or a check fails, the commit is left unconfirmed
+ * and the device rolls it back when the timer expires.
+ * @param connection Connected session used for the commit
+ * @param configCommands Configuration commands to commit
+ * @param reconnect Opens a new connected session, through the jump host when configured
+ * @param options Confirm timer in minutes, post-checks and reconnect retries
+ * @returns Outcome and the result of every phase that ran
+ */
+export async function runCommitConfirmed(
+	connection: BaseConnection,
+	configCommands: string[],
+	reconnect: () => Promise<BaseConnection>,
+	options: CommitConfirmedOptions,
+): Promise<CommitConfirmedResult> {
+	const { confirmTimeout, postCheckCommands, postCheckFailPattern, reconnectAttempts = COMMIT_CONFIRMED_RECONNECT_ATTEMPTS, reconnectDelay = 5000 } =
+		options;
+	const phases: CommitConfirmedPhase[] = [];
+	let postCheckResults: TimedCommandResult[] = [];
+
+	const fail = (error: string, rollbackPending: boolean): CommitConfirmedResult => ({
+		success: false,
+		confirmed: false,
+		rollbackPending,
+		phases,
+		postCheckResults,
+		error,
+	});
+
+	// Phase 1: commit with the confirm timer running
+	let started = Date.now();
+	const commit = await connection.commitConfirmed(configCommands, confirmTimeout);
+	phases.push({
+		phase: 'commit',
+		success: commit.success,
+		duration: Date.now() - started,
+		output: commit.output,
+		error: commit.error,
+	});
+	if (!commit.success) {
+		return fail(`Commit confirmed failed: ${commit.error}`, false);
+	}
+
+	// Phase 2: prove management access with a new session
+	started = Date.now();
+	let verification: BaseConnection | null = null;
+	let reconnectError = '';
+	for (let attempt = 1; attempt <= reconnectAttempts && !verification; attempt++) {
+		await new Promise((resolve) => setTimeout(resolve, reconnectDelay));
+		try {
+			verification = await reconnect();
+		} catch (error) {
+			reconnectError = error instanceof Error ? error.message : String(error);
+		}
+	}
+	phases.push({
+		phase: 'reconnect',
+		success: !!verification,
+		duration: Date.now() - started,
+		error: verification ? undefined : reconnectError,
+	});
+	if (!verification) {
+		return fail(
+			`Device could not be reached after the commit; it rolls back in ${confirmTimeout} minute(s): ${reconnectError}`,
+			true,
+		);
+	}
+
+	try {
+		// Phase 3: post-checks on the new session
+		started = Date.now();
+		postCheckResults = await verification.sendCommands(postCheckCommands, true);
+		const failedCheck = postCheckResults.find(
+			(result) => !result.success || (postCheckFailPattern ? postCheckFailPattern.test(result.output) : false),
+		);
+		const checksPassed = !failedCheck && postCheckResults.length === postCheckCommands.length;
+		phases.push({
+			phase: 'postChecks',
+			success: checksPassed,
+			duration: Date.now() - started,
+			error: failedCheck ? `Post-check "${failedCheck.command}" failed${failedCheck.error ? `: ${failedCheck.error}` : ''}` : undefined,
+		});
+		if (!checksPassed) {
+			return fail(
+				`Post-checks failed; the commit is not confirmed and rolls back in ${confirmTimeout} minute(s)`,
+				true,
+			);
+		}
+
+		// Phase 4: confirming commit
+		started = Date.now();
+		const confirm = await verification.confirmCommit();
+		phases.push({
+			phase: 'confirm',
+			success: confirm.success,
+			duration: Date.now() - started,
+			output: confirm.output,
+			error: confirm.error,
+		});
+		if (!confirm.success) {
+			return fail(
+				`Confirming commit failed; the commit rolls back in ${confirmTimeout} minute(s): ${confirm.error}`,
+				true,
+			);
+		}
+
+		return {
+			success: true,
+			confirmed: true,
+			rollbackPending: false,
+			phases,
+			postCheckResults,
+		};
+	} finally {
+		try {
+			await verification.disconnect();
+		} catch (error) {
+			// Ignore disconnect errors
+		}
+	}
+}
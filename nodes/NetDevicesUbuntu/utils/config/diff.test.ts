@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { diffConfig, diffLines } from './diff';
+
+const BASELINE = [
+	'Building configuration...',
+	'',
+	'Current configuration : 1024 bytes',
+	'!',
+	'hostname R1',
+	'!',
+	'interface GigabitEthernet0/0',
+	' description Uplink',
+	' ip address 192.0.2.1 255.255.255.0',
+	'!',
+	'ntp server 192.0.2.10',
+	'end',
+].join('\n');
+
+describe('diffLines', () => {
+	it('marks unchanged, added and removed lines', () => {
+		assert.deepEqual(diffLines(['a', 'b', 'c'], ['a', 'c', 'd']), [
+			{ type: 'equal', line: 'a' },
+			{ type: 'remove', line: 'b' },
+			{ type: 'equal', line: 'c' },
+			{ type: 'add', line: 'd' },
+		]);
+	});
+});
+
+describe('diffConfig', () => {
+	it('reports no changes when only volatile lines differ', () => {
+		const current = BASELINE.replace('1024 bytes', '1031 bytes');
+		const diff = diffConfig(BASELINE, current, { deviceType: 'cisco_ios' });
+		assert.equal(diff.hasChanges, false);
+		assert.equal(diff.diff, '');
+		assert.deepEqual(diff.added, []);
+		assert.deepEqual(diff.removed, []);
+	});
+
+	it('reports added and removed lines with a unified diff', () => {
+		const current = BASELINE.replace(' description Uplink', ' description Core uplink').replace(
+			'ntp server 192.0.2.10',
+			'ntp server 192.0.2.10\nlogging host 192.0.2.20',
+		);
+		const diff = diffConfig(BASELINE, current, { deviceType: 'cisco_ios', contextLines: 1 });
+		assert.equal(diff.hasChanges, true);
+		assert.deepEqual(diff.removed, [' description Uplink']);
+		assert.deepEqual(diff.added, [' description Core uplink', 'logging host 192.0.2.20']);
+		assert.match(diff.diff, /^--- baseline\n\+\+\+ running\n@@ /);
+		assert.match(diff.diff, /\n- description Uplink\n\+ description Core uplink\n/);
+	});
+
+	it('drops lines matching the ignore patterns', () => {
+		const current = BASELINE.replace('ntp server 192.0.2.10', 'ntp server 192.0.2.11');
+		assert.equal(diffConfig(BASELINE, current, { ignorePatterns: [/^ntp server/] }).hasChanges, false);
+	});
+});
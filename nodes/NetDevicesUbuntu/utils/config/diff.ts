@@ -0,0 +1,227 @@
+import { normalizeConfig } from './normalize';
+
+export type DiffOperation = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+	type: DiffOperation;
+	line: string;
+}
+
+export interface ConfigDiff {
+	diff: string;
+	added: string[];
+	removed: string[];
+	hasChanges: boolean;
+}
+
+export interface ConfigDiffOptions {
+	deviceType?: string;
+	contextLines?: number;
+	ignorePatterns?: RegExp[];
+	fromLabel?: string;
+	toLabel?: string;
+}
+
+// Beyond this many edits the two sides are treated as entirely different
+// to keep the trace memory bounded
+const MAX_EDIT_DISTANCE = 4000;
+
+/**
+ * Compute a line diff with Myers' O(ND) algorithm
+ * @param a Original lines
+ * @param b New lines
+ * @returns Shortest edit script as equal/add/remove lines
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+	// Common prefix and suffix never take part in the edit script
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const middleA = a.slice(prefix, a.length - suffix);
+	const middleB = b.slice(prefix, b.length - suffix);
+
+	return [
+		...a.slice(0, prefix).map((line): DiffLine => ({ type: 'equal', line })),
+		...myersDiff(middleA, middleB),
+		...a.slice(a.length - suffix).map((line): DiffLine => ({ type: 'equal', line })),
+	];
+}
+
+function myersDiff(a: string[], b: string[]): DiffLine[] {
+	const n = a.length;
+	const m = b.length;
+	const max = n + m;
+	const offset = max + 1;
+	const v = new Int32Array(2 * max + 3);
+	const trace: Int32Array[] = [];
+
+	for (let d = 0; d <= max; d++) {
+		if (d > MAX_EDIT_DISTANCE) {
+			return [
+				...a.map((line): DiffLine => ({ type: 'remove', line })),
+				...b.map((line): DiffLine => ({ type: 'add', line })),
+			];
+		}
+
+		// Only diagonals -d..d are read when backtracking from round d
+		trace.push(v.slice(offset - d, offset + d + 1));
+
+		for (let k = -d; k <= d; k += 2) {
+			let x: number;
+			if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+				x = v[offset + k + 1];
+			} else {
+				x = v[offset + k - 1] + 1;
+			}
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+
+			if (x >= n && y >= m) {
+				return backtrack(a, b, trace);
+			}
+		}
+	}
+
+	return backtrack(a, b, trace);
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffLine[] {
+	const result: DiffLine[] = [];
+	let x = a.length;
+	let y = b.length;
+
+	for (let d = trace.length - 1; d > 0; d--) {
+		const v = trace[d];
+		const k = x - y;
+		const prevK = k === -d || (k !== d && v[k - 1 + d] < v[k + 1 + d]) ? k + 1 : k - 1;
+		const prevX = v[prevK + d];
+		const prevY = prevX - prevK;
+
+		while (x > prevX && y > prevY) {
+			result.push({ type: 'equal', line: a[x - 1] });
+			x--;
+			y--;
+		}
+
+		if (x === prevX) {
+			result.push({ type: 'add', line: b[y - 1] });
+		} else {
+			result.push({ type: 'remove', line: a[x - 1] });
+		}
+
+		x = prevX;
+		y = prevY;
+	}
+
+	while (x > 0 && y > 0) {
+		result.push({ type: 'equal', line: a[x - 1] });
+		x--;
+		y--;
+	}
+
+	return result.reverse();
+}
+
+/**
+ * Render a line diff in unified diff format
+ * @param lines Line diff from diffLines()
+ * @param contextLines Number of unchanged lines around each change
+ * @param fromLabel Label of the original side
+ * @param toLabel Label of the new side
+ * @returns Unified diff, or an empty string when nothing changed
+ */
+export function formatUnifiedDiff(
+	lines: DiffLine[],
+	contextLines = 3,
+	fromLabel = 'baseline',
+	toLabel = 'running',
+): string {
+	const changed = lines.map((entry, index) => (entry.type === 'equal' ? -1 : index)).filter((index) => index >= 0);
+	if (changed.length === 0) {
+		return '';
+	}
+
+	// Line numbers on each side before every diff line
+	const oldLineAt: number[] = [];
+	const newLineAt: number[] = [];
+	let oldLine = 0;
+	let newLine = 0;
+	for (const entry of lines) {
+		oldLineAt.push(oldLine);
+		newLineAt.push(newLine);
+		if (entry.type !== 'add') oldLine++;
+		if (entry.type !== 'remove') newLine++;
+	}
+	oldLineAt.push(oldLine);
+	newLineAt.push(newLine);
+
+	// Group changes whose context overlaps into hunks
+	const hunks: Array<{ start: number; end: number }> = [];
+	for (const index of changed) {
+		const start = Math.max(0, index - contextLines);
+		const end = Math.min(lines.length, index + contextLines + 1);
+		const last = hunks[hunks.length - 1];
+		if (last && start <= last.end) {
+			last.end = end;
+		} else {
+			hunks.push({ start, end });
+		}
+	}
+
+	const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+	for (const hunk of hunks) {
+		const oldCount = oldLineAt[hunk.end] - oldLineAt[hunk.start];
+		const newCount = newLineAt[hunk.end] - newLineAt[hunk.start];
+		const oldStart = oldCount > 0 ? oldLineAt[hunk.start] + 1 : oldLineAt[hunk.start];
+		const newStart = newCount > 0 ? newLineAt[hunk.start] + 1 : newLineAt[hunk.start];
+		output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+
+		for (let index = hunk.start; index < hunk.end; index++) {
+			const entry = lines[index];
+			const marker = entry.type === 'add' ? '+' : entry.type === 'remove' ? '-' : ' ';
+			output.push(`${marker}${entry.line}`);
+		}
+	}
+
+	return output.join('\n');
+}
+
+/**
+ * Compare two configurations after vendor-aware normalization
+ * @param baseline Reference configuration
+ * @param current Configuration to compare against the baseline
+ * @param options Device type, context lines, extra ignore patterns and labels
+ * @returns Unified diff with the added and removed lines
+ */
+export function diffConfig(baseline: string, current: string, options: ConfigDiffOptions = {}): ConfigDiff {
+	const { deviceType = '', contextLines = 3, ignorePatterns = [], fromLabel, toLabel } = options;
+
+	const lines = diffLines(
+		normalizeConfig(baseline, deviceType, ignorePatterns),
+		normalizeConfig(current, deviceType, ignorePatterns),
+	);
+
+	const added = lines.filter((entry) => entry.type === 'add').map((entry) => entry.line);
+	const removed = lines.filter((entry) => entry.type === 'remove').map((entry) => entry.line);
+
+	return {
+		diff: formatUnifiedDiff(lines, contextLines, fromLabel, toLabel),
+		added,
+		removed,
+		hasChanges: added.length > 0 || removed.length > 0,
+	};
+}
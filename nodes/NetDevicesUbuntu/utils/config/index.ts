@@ -0,0 +1,36 @@
+export { normalizeConfig, getVolatileLinePatterns } from './normalize';
+export {
+	diffConfig,
+	diffLines,
+	formatUnifiedDiff,
+	ConfigDiff,
+	ConfigDiffOptions,
+	DiffLine,
+	DiffOperation,
+} from './diff';
+export { DEFAULT_BACKUP_FILE_NAME, formatFileTimestamp, renderFileName, sha256 } from './backup';
+export {
+	runCommitConfirmed,
+	COMMIT_CONFIRMED_RECONNECT_ATTEMPTS,
+	CommitConfirmedOptions,
+	CommitConfirmedPhase,
+	CommitConfirmedPhaseName,
+	CommitConfirmedResult,
+} from './commit-confirmed';
+export {
+	parseIosXrCommitList,
+	parseNxosCheckpoints,
+	parsePanosConfigAudit,
+	parseSystemCommitHistory,
+} from './revisions';
+export {
+	ConfigLine,
+	ConfigTree,
+	detectConfigSyntax,
+	ConfigPattern,
+	ConfigSyntax,
+	ConfigTreeNode,
+	ConfigTreeOptions,
+} from './tree';
+export { getPendingConfig, PendingConfig } from './pending';
+export { generateRemediation, RemediationOptions, RemediationPlan } from './remediation';
@@ -0,0 +1,78 @@
+import type { SupportedDeviceType } from '../connection-dispatcher';
+
+const CISCO_VOLATILE_LINES: RegExp[] = [
+	/^Building configuration\.\.\./,
+	/^Current configuration\s*:\s*\d+\s+bytes/,
+	/^!+\s*Last configuration change/,
+	/^!+\s*NVRAM config last updated/,
+	/^!+\s*No configuration change since last restart/,
+	/^!\s*Time:/,
+	/^!\s*Running configuration last done at/,
+	/^ntp clock-period/,
+];
+
+const CISCO_IOS_XR_VOLATILE_LINES: RegExp[] = [
+	...CISCO_VOLATILE_LINES,
+	// Timestamp printed above the configuration, e.g. "Mon Jan 15 10:00:00.123 UTC"
+	/^\w{3}\s+\w{3}\s+\d+\s+\d+:\d+:\d+(?:\.\d+)?\s+\S+$/,
+];
+
+const CISCO_ASA_VOLATILE_LINES: RegExp[] = [
+	...CISCO_VOLATILE_LINES,
+	/^:\s*Saved/,
+	/^:\s*Written by/,
+	/^Cryptochecksum:/,
+];
+
+const JUNIPER_VOLATILE_LINES: RegExp[] = [/^##\s*Last commit:/, /^##\s*Last changed:/];
+
+const FORTINET_VOLATILE_LINES: RegExp[] = [/^#conf_file_ver=/];
+
+const NORMALIZATION_RULES: Partial<Record<SupportedDeviceType, RegExp[]>> = {
+	cisco_ios: CISCO_VOLATILE_LINES,
+	cisco_ios_xe: CISCO_VOLATILE_LINES,
+	cisco_nxos: CISCO_VOLATILE_LINES,
+	cisco_sg300: CISCO_VOLATILE_LINES,
+	cisco_ios_xr: CISCO_IOS_XR_VOLATILE_LINES,
+	cisco_asa: CISCO_ASA_VOLATILE_LINES,
+	juniper_junos: JUNIPER_VOLATILE_LINES,
+	juniper_srx: JUNIPER_VOLATILE_LINES,
+	fortinet_fortios: FORTINET_VOLATILE_LINES,
+};
+
+/**
+ * Get the patterns of lines that change without a configuration change
+ * (timestamps, checksums, byte counts) for a device type
+ * @param deviceType Device type of the configuration
+ * @returns Patterns of lines to drop before comparing
+ */
+export function getVolatileLinePatterns(deviceType: string): RegExp[] {
+	return NORMALIZATION_RULES[deviceType as SupportedDeviceType] || [];
+}
+
+/**
+ * Normalize a configuration for comparison: unify line endings, drop
+ * trailing whitespace, vendor-specific volatile lines and leading or
+ * trailing blank lines
+ * @param config Raw configuration text
+ * @param deviceType Device type of the configuration
+ * @param ignorePatterns Additional patterns of lines to drop
+ * @returns Normalized configuration lines
+ */
+export function normalizeConfig(config: string, deviceType = '', ignorePatterns: RegExp[] = []): string[] {
+	const patterns = [...getVolatileLinePatterns(deviceType), ...ignorePatterns];
+	const lines = config
+		.replace(/\r\n?/g, '\n')
+		.split('\n')
+		.map((line) => line.replace(/\s+$/, ''))
+		.filter((line) => !patterns.some((pattern) => pattern.test(line)));
+
+	while (lines.length > 0 && lines[0] === '') {
+		lines.shift();
+	}
+	while (lines.length > 0 && lines[lines.length - 1] === '') {
+		lines.pop();
+	}
+
+	return lines;
+}
@@ -0,0 +1,145 @@
+import { ConfigLine, ConfigTree } from './tree';
+
+export interface PendingConfig {
+	// Commands still to send, with their parent statements
+	commands: string[];
+	// Intended statements that the running configuration already has
+	presentCount: number;
+	changed: boolean;
+}
+
+// Statements compare equal regardless of spacing and quoting ("port1" and port1)
+export function statementKey(text: string): string {
+	return text.replace(/["']/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether a statement is already in effect among its running siblings. A "no"
+ * statement is in effect when the running configuration has it, or has no
+ * statement it would negate ("no shutdown" when "shutdown" is absent).
+ */
+export function isInEffect(text: string, running: ConfigLine[]): boolean {
+	const key = statementKey(text);
+	const runningKeys = running.map((line) => statementKey(line.text));
+	if (runningKeys.includes(key)) {
+		return true;
+	}
+	const negated = key.match(/^no (.+)$/);
+	return !!negated && !runningKeys.some((line) => line === negated[1] || line.startsWith(`${negated[1]} `));
+}
+
+// FortiOS blocks need their closing statement when they are sent
+export function closingStatement(line: ConfigLine, tree: ConfigTree): string | undefined {
+	if (tree.syntax !== 'fortios') {
+		return undefined;
+	}
+	return /^edit\s/.test(line.text) ? 'next' : /^config\s/.test(line.text) ? 'end' : undefined;
+}
+
+export function emitSubtree(line: ConfigLine, tree: ConfigTree, output: string[]): void {
+	output.push(`${' '.repeat(line.depth)}${line.text}`);
+	line.children.forEach((child) => emitSubtree(child, tree, output));
+	const closing = closingStatement(line, tree);
+	if (closing) {
+		output.push(`${' '.repeat(line.depth)}${closing}`);
+	}
+}
+
+/**
+ * Collect the intended statements missing from the running siblings. A parent
+ * that exists is only sent as the context of its missing children.
+ * @returns Number of intended statements already present
+ */
+function collectMissing(intended: ConfigLine[], running: ConfigLine[], tree: ConfigTree, output: string[]): number {
+	let present = 0;
+
+	for (const line of intended) {
+		if (line.children.length === 0) {
+			if (isInEffect(line.text, running)) {
+				present++;
+			} else {
+				output.push(`${' '.repeat(line.depth)}${line.text}`);
+			}
+			continue;
+		}
+
+		const match = running.find((candidate) => statementKey(candidate.text) === statementKey(line.text));
+		if (!match) {
+			emitSubtree(line, tree, output);
+			continue;
+		}
+
+		const children: string[] = [];
+		present += collectMissing(line.children, match.children, tree, children);
+		if (children.length === 0) {
+			present++;
+			continue;
+		}
+		const closing = closingStatement(line, tree);
+		output.push(`${' '.repeat(line.depth)}${line.text}`, ...children);
+		if (closing) {
+			output.push(`${' '.repeat(line.depth)}${closing}`);
+		}
+	}
+
+	return present;
+}
+
+/**
+ * Set commands missing from the running configuration. A "set" is present when
+ * the running configuration has it or something below it, and a "delete" is
+ * only needed while something is configured below its path.
+ */
+function collectMissingSetCommands(intended: string[], running: ConfigTree): PendingConfig {
+	const runningKeys = running.toSetCommands().map(statementKey);
+	const commands: string[] = [];
+	let presentCount = 0;
+
+	for (const command of intended) {
+		const key = statementKey(command);
+		const path = key.replace(/^(?:set|delete)\s+/, '');
+		const configured = runningKeys.some(
+			(line) => line === `set ${path}` || line.startsWith(`set ${path} `),
+		);
+
+		if ((/^set\s/.test(key) && configured) || (/^delete\s/.test(key) && !configured)) {
+			presentCount++;
+		} else {
+			commands.push(command);
+		}
+	}
+
+	return { commands, presentCount, changed: commands.length > 0 };
+}
+
+/**
+ * Work out which intended configuration statements the running configuration
+ * does not have yet, respecting parent sections, so that only those are sent.
+ * Child statements must be indented below their parent as in the running
+ * configuration, except in FortiOS blocks and set commands.
+ * @param intended Intended configuration
+ * @param running Running configuration
+ * @param deviceType Device type of both configurations
+ * @returns Commands to send and how many statements were already present
+ */
+export function getPendingConfig(intended: string, running: string, deviceType = ''): PendingConfig {
+	const intendedTree = new ConfigTree(intended, { deviceType });
+	const runningTree = new ConfigTree(running, { deviceType });
+
+	// Set commands are compared with the running configuration in the same form,
+	// whether the device printed it with braces or as set commands
+	if (intendedTree.syntax === 'set') {
+		const commands = intended
+			.split('\n')
+			.map((line) => line.trim())
+			.filter((line) => line.length > 0);
+		return collectMissingSetCommands(commands, runningTree);
+	}
+	if (intendedTree.syntax === 'brace') {
+		return collectMissingSetCommands(intendedTree.toSetCommands(), runningTree);
+	}
+
+	const commands: string[] = [];
+	const presentCount = collectMissing(intendedTree.children, runningTree.children, intendedTree, commands);
+	return { commands, presentCount, changed: commands.length > 0 };
+}
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { generateRemediation } from './remediation';
+import { ConfigTree } from './tree';
+
+// "show running-config" of an IOS router, trimmed
+const RUNNING = [
+	'Building configuration...',
+	'',
+	'Current configuration : 1822 bytes',
+	'!',
+	'! Last configuration change at 10:12:44 UTC Mon Oct 19 2026 by admin',
+	'!',
+	'version 15.9',
+	'service timestamps debug datetime msec',
+	'no service password-encryption',
+	'!',
+	'hostname R1',
+	'!',
+	'boot-start-marker',
+	'boot-end-marker',
+	'!',
+	'crypto pki certificate chain TP-self-signed-4294967295',
+	' certificate self-signed 01',
+	'  3082022B 30820194 A0030201 02020101 300D0609 2A864886 F70D0101 05050030',
+	'  31312F30 2D060355 04031326 494F532D 53656C66 2D536967 6E65642D 43657274',
+	'  \tquit',
+	'!',
+	'interface GigabitEthernet0/0',
+	' description Uplink',
+	' ip address 192.0.2.1 255.255.255.0',
+	' duplex auto',
+	'!',
+	'ip route 0.0.0.0 0.0.0.0 192.0.2.254',
+	'!',
+	'banner motd ^C',
+	'Hello world',
+	'Unauthorized access is prohibited',
+	'^C',
+	'!',
+	'line con 0',
+	' logging synchronous',
+	'line vty 0 4',
+	' login local',
+	' transport input ssh',
+	'!',
+	'end',
+].join('\n');
+
+describe('ConfigTree', () => {
+	it('parses a delimited banner as one statement', () => {
+		const tree = new ConfigTree(RUNNING, { deviceType: 'cisco_ios' });
+		const banners = tree.find(/^banner/);
+		assert.equal(banners.length, 1);
+		assert.equal(banners[0].text, 'banner motd ^C\nHello world\nUnauthorized access is prohibited\n^C');
+		assert.equal(tree.find(/^Hello world/).length, 0);
+		assert.ok(tree.find(/^line con 0$/)[0].hasChild(/^logging synchronous$/));
+	});
+
+	it('parses a certificate up to "quit" as one statement', () => {
+		const tree = new ConfigTree(RUNNING, { deviceType: 'cisco_ios' });
+		const certificates = tree.findChildren(/^crypto pki certificate chain/);
+		assert.equal(certificates.length, 1);
+		assert.match(certificates[0].text, /^certificate self-signed 01\n.*\n.*\n\s*quit$/);
+	});
+});
+
+describe('generateRemediation', () => {
+	it('removes a banner by its type and leaves the certificate alone', () => {
+		const intended = RUNNING.replace(/banner motd \^C\n[\s\S]*?\^C\n/, '');
+		const plan = generateRemediation(intended, RUNNING, { deviceType: 'cisco_ios' });
+		assert.deepEqual(plan.commands, ['no banner motd']);
+	});
+
+	it('replaces a banner whose text changed as a whole', () => {
+		const intended = RUNNING.replace('Hello world', 'Authorized users only');
+		const plan = generateRemediation(intended, RUNNING, { deviceType: 'cisco_ios' });
+		assert.deepEqual(plan.commands, [
+			'no banner motd',
+			'banner motd ^C\nAuthorized users only\nUnauthorized access is prohibited\n^C',
+		]);
+	});
+
+	it('keeps single-line ASA banners as separate statements', () => {
+		const plan = generateRemediation('banner motd Welcome', 'banner motd Welcome\nbanner motd Keep out', {
+			deviceType: 'cisco_asa',
+		});
+		assert.deepEqual(plan.commands, ['no banner motd Keep out']);
+	});
+});
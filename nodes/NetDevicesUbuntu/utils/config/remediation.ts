@@ -0,0 +1,187 @@
+import { closingStatement, emitSubtree, isInEffect, statementKey } from './pending';
+import { BANNER_START, ConfigLine, ConfigTree } from './tree';
+
+export interface RemediationPlan {
+	// Commands that converge the running configuration on the intended one
+	commands: string[];
+	// Statements added or changed, and statements removed
+	additions: number;
+	removals: number;
+	changed: boolean;
+}
+
+export interface RemediationOptions {
+	deviceType?: string;
+	// Patterns of lines to leave out on both sides
+	ignorePatterns?: RegExp[];
+}
+
+// Structural lines of indented configurations that cannot be negated
+const UNREMOVABLE_LINES = [/^end$/, /^exit(?:-[\w-]+)?$/, /^version\s/, /^boot-(?:start|end)-marker$/];
+
+interface Counts {
+	additions: number;
+	removals: number;
+}
+
+function findMatch(line: ConfigLine, candidates: ConfigLine[]): ConfigLine | undefined {
+	const key = statementKey(line.text);
+	return candidates.find((candidate) => statementKey(candidate.text) === key);
+}
+
+function indentOf(line: ConfigLine): string {
+	return ' '.repeat(line.depth);
+}
+
+/**
+ * Negate a running statement the intended configuration does not have:
+ * "no" for indented configurations, "unset" and "delete" inside FortiOS blocks
+ * @returns Command, or undefined when the statement is left alone
+ */
+function removalFor(line: ConfigLine, intended: ConfigLine[], tree: ConfigTree): string | undefined {
+	if (tree.syntax === 'fortios') {
+		const setting = line.text.match(/^set\s+(\S+)/);
+		if (setting) {
+			// A "set" of the same setting replaces the value, so nothing has to be unset
+			const replaced = intended.some((candidate) => (candidate.text.match(/^set\s+(\S+)/) || [])[1] === setting[1]);
+			return replaced ? undefined : `unset ${setting[1]}`;
+		}
+		const entry = line.text.match(/^edit\s+(.+)$/);
+		// Nested "config" blocks the intended configuration does not mention are not managed
+		return entry ? `delete ${entry[1]}` : undefined;
+	}
+
+	// Removing a "no" statement would turn the feature back on, so those are left alone
+	if (/^no\s/.test(line.text) || UNREMOVABLE_LINES.some((pattern) => pattern.test(line.text))) {
+		return undefined;
+	}
+	// Multi-line statements are removed by their first line, delimited banners by their type alone
+	const header = line.text.split('\n')[0];
+	const banner = header.match(BANNER_START);
+	if (banner) {
+		return `no banner ${banner[1] || 'motd'}`;
+	}
+	return `no ${header}`;
+}
+
+/**
+ * Remediation of one level of a tree: removals first, so a negation never
+ * undoes a statement added in its place, then additions and changed sections
+ * with their parent line as context
+ */
+function remediateLevel(intended: ConfigLine[], running: ConfigLine[], tree: ConfigTree, counts: Counts, output: string[]): void {
+	const removals: string[] = [];
+	for (const line of running) {
+		if (findMatch(line, intended)) {
+			continue;
+		}
+		const removal = removalFor(line, intended, tree);
+		if (removal) {
+			removals.push(`${indentOf(line)}${removal}`);
+		}
+	}
+	output.push(...removals);
+	counts.removals += removals.length;
+
+	for (const line of intended) {
+		const match = findMatch(line, running);
+		if (!match) {
+			if (line.children.length > 0) {
+				const subtree: string[] = [];
+				emitSubtree(line, tree, subtree);
+				output.push(...subtree);
+				counts.additions += line.descendants().length + 1;
+			} else if (!isInEffect(line.text, running) && !removals.includes(`${indentOf(line)}${line.text}`)) {
+				output.push(`${indentOf(line)}${line.text}`);
+				counts.additions++;
+			}
+			continue;
+		}
+
+		const children: string[] = [];
+		remediateLevel(line.children, match.children, tree, counts, children);
+		if (children.length > 0) {
+			const closing = closingStatement(line, tree);
+			output.push(`${indentOf(line)}${line.text}`, ...children);
+			if (closing) {
+				output.push(`${indentOf(line)}${closing}`);
+			}
+		}
+	}
+}
+
+/**
+ * Remediation of set-style configurations, walking both as word trees. A
+ * running path missing from the intended configuration is deleted at its
+ * highest missing word; a value that is the only one of its setting is
+ * deleted with the setting, so "delete system host-name" precedes the new
+ * "set system host-name".
+ */
+function remediateSetCommands(intended: ConfigTree, running: ConfigTree, counts: Counts): string[] {
+	const deletes: string[] = [];
+	const sets: string[] = [];
+
+	const walkRunning = (runningLines: ConfigLine[], intendedLines: ConfigLine[]) => {
+		for (const line of runningLines) {
+			const match = findMatch(line, intendedLines);
+			if (match) {
+				walkRunning(line.children, match.children);
+				continue;
+			}
+			const target = line.children.length === 0 && line.parent && line.parent.children.length === 1 && line.parent.parent
+				? line.parent
+				: line;
+			deletes.push(`delete ${target.path.join(' ')}`);
+		}
+	};
+
+	const walkIntended = (intendedLines: ConfigLine[], runningLines: ConfigLine[]) => {
+		for (const line of intendedLines) {
+			const match = findMatch(line, runningLines);
+			if (match) {
+				walkIntended(line.children, match.children);
+				continue;
+			}
+			for (const leaf of [line, ...line.descendants()].filter((candidate) => candidate.children.length === 0)) {
+				sets.push(`set ${leaf.path.join(' ')}`);
+			}
+		}
+	};
+
+	walkRunning(running.children, intended.children);
+	walkIntended(intended.children, running.children);
+
+	counts.removals += deletes.length;
+	counts.additions += sets.length;
+	return [...deletes, ...sets];
+}
+
+/**
+ * Generate the commands that converge a running configuration on an intended
+ * (golden) one, with the parent context each command needs: "no" commands for
+ * Cisco and Ericsson, "delete" and "set" commands for Junos, VyOS and PAN-OS,
+ * and "unset", "delete" and "set" inside FortiOS blocks.
+ * @param intended Intended configuration
+ * @param running Running configuration
+ * @param options Device type and patterns of lines to ignore
+ * @returns Remediation commands and counts
+ */
+export function generateRemediation(intended: string, running: string, options: RemediationOptions = {}): RemediationPlan {
+	const treeOptions = { deviceType: options.deviceType, ignorePatterns: options.ignorePatterns };
+	const intendedTree = new ConfigTree(intended, treeOptions);
+	const runningTree = new ConfigTree(running, treeOptions);
+	const counts: Counts = { additions: 0, removals: 0 };
+	let commands: string[];
+
+	if (intendedTree.syntax === 'set' || intendedTree.syntax === 'brace') {
+		// Both sides are compared as set commands, however the device printed them
+		const asSetTree = (tree: ConfigTree) =>
+			tree.syntax === 'set' ? tree : new ConfigTree(tree.toSetCommands().join('\n'), { syntax: 'set' });
+		commands = remediateSetCommands(asSetTree(intendedTree), asSetTree(runningTree), counts);
+	} else {
+		commands = [];
+		remediateLevel(intendedTree.children, runningTree.children, intendedTree, counts, commands);
+	}
+
+	return { commands, ...counts, changed: commands.length > 0 };
+}
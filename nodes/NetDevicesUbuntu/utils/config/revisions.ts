@@ -0,0 +1,115 @@
+import type { ConfigRevision } from '../base-connection';
+
+// "0   2024-01-15 10:00:00 UTC by admin via cli" as printed by Junos and VyOS
+const SYSTEM_COMMIT_LINE =
+	/^\s*(\d+|rescue)\s+(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}(?:\s+[A-Z]{2,5})?)\s+by\s+(\S+)\s+via\s+(\S+)(?:\s+(.*?))?\s*$/;
+
+/**
+ * Parse the commit history of "show system commit" on Junos and VyOS
+ * @param output Command output
+ * @returns Revisions, newest first
+ */
+export function parseSystemCommitHistory(output: string): ConfigRevision[] {
+	const revisions: ConfigRevision[] = [];
+
+	for (const line of output.split('\n')) {
+		const match = line.match(SYSTEM_COMMIT_LINE);
+		if (match) {
+			revisions.push({
+				revision: match[1],
+				timestamp: match[2],
+				user: match[3],
+				client: match[4],
+				comment: match[5] || '',
+			});
+			continue;
+		}
+
+		// Comments are printed indented below their commit
+		const last = revisions[revisions.length - 1];
+		if (last && /^\s+\S/.test(line)) {
+			last.comment = [last.comment, line.trim()].filter(Boolean).join(' ');
+		}
+	}
+
+	return revisions;
+}
+
+/**
+ * Parse "show configuration commit list detail" on IOS-XR
+ * @param output Command output
+ * @returns Revisions identified by commit ID, newest first
+ */
+export function parseIosXrCommitList(output: string): ConfigRevision[] {
+	const revisions: ConfigRevision[] = [];
+	const field = (block: string, name: string) => {
+		const match = block.match(new RegExp(`${name}:\\s+(.*?)(?:\\s{2,}\\w+:|$)`, 'm'));
+		return match ? match[1].trim() : '';
+	};
+
+	for (const block of output.split(/^\s*\d+\)\s+/m).slice(1)) {
+		const commitId = field(block, 'CommitId');
+		if (!commitId) {
+			continue;
+		}
+		const comment = field(block, 'Comment');
+		revisions.push({
+			revision: commitId,
+			timestamp: field(block, 'Time'),
+			user: field(block, 'UserId'),
+			client: field(block, 'Client'),
+			comment: comment === 'NONE' ? '' : comment,
+		});
+	}
+
+	return revisions;
+}
+
+/**
+ * Parse "show checkpoint summary" on NX-OS
+ * @param output Command output
+ * @returns Checkpoints identified by name, newest first
+ */
+export function parseNxosCheckpoints(output: string): ConfigRevision[] {
+	const revisions: ConfigRevision[] = [];
+
+	for (const block of output.split(/^\s*\d+\)\s+/m).slice(1)) {
+		const name = block.match(/^(\S+?):?\s*$/m);
+		if (!name) {
+			continue;
+		}
+		const description = (block.match(/^\s*Description:\s*(.*)$/m) || [])[1] || '';
+		revisions.push({
+			revision: name[1],
+			timestamp: ((block.match(/^\s*Created at\s+(.*)$/m) || [])[1] || '').trim(),
+			user: ((block.match(/^\s*Created by\s+(\S+)/m) || [])[1] || '').trim(),
+			comment: description.trim() === 'None' ? '' : description.trim(),
+		});
+	}
+
+	// Checkpoints are listed in creation order
+	return revisions.reverse();
+}
+
+/**
+ * Parse "show config audit info" on PAN-OS
+ * @param output Command output
+ * @returns Committed versions, newest first
+ */
+export function parsePanosConfigAudit(output: string): ConfigRevision[] {
+	const revisions: ConfigRevision[] = [];
+
+	for (const line of output.split('\n')) {
+		const match = line.match(/^\s*(\d+)\s+(\d{4}\/\d{2}\/\d{2}\s+\d{2}:\d{2}:\d{2})\s+(\S+)(?:\s+(.*?))?\s*$/);
+		if (match) {
+			revisions.push({
+				revision: match[1],
+				timestamp: match[2],
+				user: match[3],
+				comment: match[4] || '',
+			});
+		}
+	}
+
+	return revisions.sort((a, b) => Number(b.revision) - Number(a.revision));
+}
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ConfigTree, detectConfigSyntax } from './tree';
+
+const JUNOS = [
+	'## Last commit: 2026-10-19 10:12:44 UTC by admin',
+	'system {',
+	'    host-name mx1;',
+	'    /* Management access */',
+	'    services {',
+	'        ssh;',
+	'    }',
+	'}',
+	'interfaces {',
+	'    ge-0/0/0 {',
+	'        description "Uplink";',
+	'        unit 0 {',
+	'            family inet {',
+	'                address 192.0.2.1/24;',
+	'            }',
+	'        }',
+	'    }',
+	'}',
+].join('\n');
+
+const FORTIOS = [
+	'#config-version=FGT60F-7.2.5',
+	'config system global',
+	'    set hostname "FGT1"',
+	'end',
+	'config firewall address',
+	'    edit "web"',
+	'        set subnet 192.0.2.10 255.255.255.255',
+	'    next',
+	'    edit "db"',
+	'        set subnet 192.0.2.20 255.255.255.255',
+	'    next',
+	'end',
+].join('\n');
+
+const IOS = [
+	'hostname R1',
+	'!',
+	'interface GigabitEthernet0/0',
+	' description Uplink',
+	' shutdown',
+	'!',
+	'interface GigabitEthernet0/1',
+	' description Access',
+	'!',
+	'router ospf 1',
+	' network 192.0.2.0 0.0.0.255 area 0',
+].join('\n');
+
+describe('detectConfigSyntax', () => {
+	it('picks the syntax from the device type and set-style content', () => {
+		assert.equal(detectConfigSyntax(JUNOS, 'juniper_junos'), 'brace');
+		assert.equal(detectConfigSyntax('set system host-name mx1\nset interfaces ge-0/0/0 unit 0', 'juniper_junos'), 'set');
+		assert.equal(detectConfigSyntax(FORTIOS, 'fortinet_fortios'), 'fortios');
+		assert.equal(detectConfigSyntax(IOS, 'cisco_ios'), 'indent');
+	});
+});
+
+describe('ConfigTree', () => {
+	it('nests brace blocks and drops delimiters, comments and annotations', () => {
+		const tree = new ConfigTree(JUNOS, { deviceType: 'juniper_junos' });
+		assert.deepEqual(
+			tree.children.map((line) => line.text),
+			['system', 'interfaces'],
+		);
+		const [address] = tree.find(/^address /);
+		assert.deepEqual(address.path, ['interfaces', 'ge-0/0/0', 'unit 0', 'family inet', 'address 192.0.2.1/24']);
+		assert.deepEqual(
+			tree.findChildren(/^system$/).map((line) => line.text),
+			['host-name mx1', 'services'],
+		);
+		assert.ok(tree.toSetCommands().includes('set interfaces ge-0/0/0 description "Uplink"'));
+	});
+
+	it('nests FortiOS config and edit blocks closed by next and end', () => {
+		const tree = new ConfigTree(FORTIOS, { deviceType: 'fortinet_fortios' });
+		assert.deepEqual(
+			tree.children.map((line) => line.text),
+			['config system global', 'config firewall address'],
+		);
+		assert.deepEqual(
+			tree.findChildren(/^config firewall address$/).map((line) => line.text),
+			['edit "web"', 'edit "db"'],
+		);
+		assert.deepEqual(tree.find(/192\.0\.2\.20/)[0].path, ['config firewall address', 'edit "db"', 'set subnet 192.0.2.20 255.255.255.255']);
+	});
+
+	it('answers parent and child queries on indented configurations', () => {
+		const tree = new ConfigTree(IOS, { deviceType: 'cisco_ios' });
+		assert.deepEqual(
+			tree.findParentsWithChild(/^interface /, /^shutdown$/).map((line) => line.text),
+			['interface GigabitEthernet0/0'],
+		);
+		assert.deepEqual(
+			tree.findParentsWithoutChild(/^interface /, /^shutdown$/).map((line) => line.text),
+			['interface GigabitEthernet0/1'],
+		);
+		assert.equal(tree.find(/^network /)[0].lineNumber, 11);
+	});
+});
@@ -0,0 +1,313 @@
+import { normalizeConfig } from './normalize';
+
+/**
+ * How a configuration nests its statements:
+ * - indent: children are indented below their parent (Cisco, Ericsson)
+ * - brace: "name {" opens a block and "}" closes it (Junos, PAN-OS, VyOS)
+ * - fortios: "config"/"edit" open a block, "next"/"end" close it (FortiOS)
+ * - set: flat "set a b c" commands, nested word by word (Junos "display set", VyOS commands)
+ */
+export type ConfigSyntax = 'indent' | 'brace' | 'fortios' | 'set';
+
+export type ConfigPattern = string | RegExp;
+
+export interface ConfigTreeOptions {
+	// Syntax of the configuration, detected from the device type and content when not set
+	syntax?: ConfigSyntax;
+	// Device type, used for the syntax and to drop volatile lines such as timestamps
+	deviceType?: string;
+	// Additional patterns of lines to leave out of the tree
+	ignorePatterns?: RegExp[];
+}
+
+// JSON form of a configuration line and its children
+export interface ConfigTreeNode {
+	text: string;
+	lineNumber: number;
+	path: string[];
+	children: ConfigTreeNode[];
+}
+
+const SYNTAX_BY_DEVICE_TYPE: { [deviceType: string]: ConfigSyntax } = {
+	juniper_junos: 'brace',
+	juniper_srx: 'brace',
+	paloalto_panos: 'brace',
+	vyos: 'brace',
+	fortinet_fortios: 'fortios',
+};
+
+/**
+ * Pick the syntax of a configuration. Set-style output is recognised from the
+ * content, since Junos and VyOS print either form.
+ * @param config Configuration text
+ * @param deviceType Device type of the configuration
+ * @returns Configuration syntax
+ */
+export function detectConfigSyntax(config: string, deviceType = ''): ConfigSyntax {
+	const statements = config
+		.split('\n')
+		.map((line) => line.trim())
+		.filter((line) => line !== '' && !/^[#!]/.test(line));
+	if (statements.length > 0 && statements.every((line) => /^(?:set|delete|deactivate|activate)\s/.test(line))) {
+		return 'set';
+	}
+	return SYNTAX_BY_DEVICE_TYPE[deviceType] || 'indent';
+}
+
+function toRegExp(pattern: ConfigPattern): RegExp {
+	return typeof pattern === 'string' ? new RegExp(pattern) : pattern;
+}
+
+// "banner motd ^C" and the like; the delimiter is ^C or any other symbol, ASA banners have none
+export const BANNER_START = /^banner\s+(?:(motd|login|exec|incoming|slip-ppp|prompt-timeout|config-save)\s+)?(\^C|[^\w\s])(.*)$/;
+
+/**
+ * Find the last line of a statement that spans several lines of an indented
+ * configuration: a delimited banner, a certificate under a certificate chain
+ * ending with "quit", or a macro ending with "@"
+ * @returns Index of the last line, index itself for a single-line or unterminated statement
+ */
+function blockEnd(lines: string[], index: number, parent: ConfigLine | null): number {
+	const text = lines[index].trim();
+	let isEnd: ((line: string) => boolean) | undefined;
+	const banner = text.match(BANNER_START);
+	if (banner) {
+		const delimiter = banner[2];
+		if (banner[3].includes(delimiter)) {
+			return index;
+		}
+		isEnd = (line) => line.includes(delimiter);
+	} else if (/^certificate\s/.test(text) && parent && /certificate chain/.test(parent.text)) {
+		isEnd = (line) => line.trim() === 'quit';
+	} else if (/^macro name\s/.test(text)) {
+		isEnd = (line) => line.trim() === '@';
+	} else {
+		return index;
+	}
+	for (let end = index + 1; end < lines.length; end++) {
+		if (isEnd(lines[end])) {
+			return end;
+		}
+	}
+	return index;
+}
+
+/**
+ * A configuration statement with its parent and child statements. Banners,
+ * certificates and macros of indented configurations are one statement whose
+ * text holds all their lines.
+ */
+export class ConfigLine {
+	readonly children: ConfigLine[] = [];
+
+	constructor(
+		readonly text: string,
+		readonly lineNumber: number,
+		readonly parent: ConfigLine | null,
+	) {}
+
+	// Texts from the top-level ancestor down to this line
+	get path(): string[] {
+		return this.parent ? [...this.parent.path, this.text] : [this.text];
+	}
+
+	get depth(): number {
+		return this.parent ? this.parent.depth + 1 : 0;
+	}
+
+	/**
+	 * All lines below this one, depth first
+	 */
+	descendants(): ConfigLine[] {
+		return this.children.flatMap((child) => [child, ...child.descendants()]);
+	}
+
+	matches(pattern: ConfigPattern): boolean {
+		return toRegExp(pattern).test(this.text);
+	}
+
+	/**
+	 * Whether a child matches the pattern
+	 * @param pattern Regular expression for the child text
+	 * @param recursive Whether to search all descendants instead of direct children
+	 */
+	hasChild(pattern: ConfigPattern, recursive = false): boolean {
+		const regex = toRegExp(pattern);
+		return (recursive ? this.descendants() : this.children).some((child) => regex.test(child.text));
+	}
+
+	toJSON(): ConfigTreeNode {
+		return {
+			text: this.text,
+			lineNumber: this.lineNumber,
+			path: this.path,
+			children: this.children.map((child) => child.toJSON()),
+		};
+	}
+}
+
+/**
+ * Parent/child tree of a configuration with ciscoconfparse-style queries.
+ * Statements are trimmed, and brace and semicolon delimiters are removed, so
+ * "interface ge-0/0/0 {" is found as "ge-0/0/0" under "interfaces".
+ */
+export class ConfigTree {
+	readonly syntax: ConfigSyntax;
+	readonly children: ConfigLine[] = [];
+
+	constructor(config: string, options: ConfigTreeOptions = {}) {
+		const lines = normalizeConfig(config, options.deviceType, options.ignorePatterns);
+		this.syntax = options.syntax || detectConfigSyntax(lines.join('\n'), options.deviceType);
+
+		switch (this.syntax) {
+			case 'brace':
+				this.parseBraces(lines);
+				break;
+			case 'fortios':
+				this.parseFortios(lines);
+				break;
+			case 'set':
+				this.parseSetCommands(lines);
+				break;
+			default:
+				this.parseIndented(lines);
+		}
+	}
+
+	private addLine(text: string, lineNumber: number, parent: ConfigLine | null): ConfigLine {
+		const line = new ConfigLine(text, lineNumber, parent);
+		(parent ? parent.children : this.children).push(line);
+		return line;
+	}
+
+	private parseIndented(lines: string[]): void {
+		const stack: Array<{ indent: number; line: ConfigLine }> = [];
+		for (let index = 0; index < lines.length; index++) {
+			const raw = lines[index];
+			const text = raw.trim();
+			if (text === '' || text.startsWith('!')) {
+				continue;
+			}
+			const indent = raw.length - raw.trimStart().length;
+			while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+				stack.pop();
+			}
+			const parent = stack.length > 0 ? stack[stack.length - 1].line : null;
+			// Banner, certificate and macro bodies are one statement with the lines as printed
+			const end = blockEnd(lines, index, parent);
+			const block = [text, ...lines.slice(index + 1, end + 1)].join('\n');
+			stack.push({ indent, line: this.addLine(block, index + 1, parent) });
+			index = end;
+		}
+	}
+
+	private parseBraces(lines: string[]): void {
+		let parent: ConfigLine | null = null;
+		lines.forEach((raw, index) => {
+			// Junos annotations and the "## Last commit" header are comments
+			const text = raw.replace(/\/\*.*?\*\//g, '').trim();
+			if (text === '' || text.startsWith('#')) {
+				return;
+			}
+			if (text === '}') {
+				parent = parent ? parent.parent : null;
+				return;
+			}
+			if (text.endsWith('{')) {
+				parent = this.addLine(text.slice(0, -1).trim(), index + 1, parent);
+				return;
+			}
+			this.addLine(text.replace(/;$/, ''), index + 1, parent);
+		});
+	}
+
+	private parseFortios(lines: string[]): void {
+		let parent: ConfigLine | null = null;
+		lines.forEach((raw, index) => {
+			const text = raw.trim();
+			if (text === '' || text.startsWith('#')) {
+				return;
+			}
+			if (text === 'next' || text === 'end') {
+				parent = parent ? parent.parent : null;
+				return;
+			}
+			const line = this.addLine(text, index + 1, parent);
+			if (/^(?:config|edit)\s/.test(text)) {
+				parent = line;
+			}
+		});
+	}
+
+	private parseSetCommands(lines: string[]): void {
+		lines.forEach((raw, index) => {
+			const text = raw.trim();
+			if (!text.startsWith('set ')) {
+				return;
+			}
+			// Quoted values such as descriptions stay one word
+			const words = text.slice(4).match(/'[^']*'|"[^"]*"|\S+/g) || [];
+			let parent: ConfigLine | null = null;
+			for (const word of words) {
+				const siblings: ConfigLine[] = parent ? parent.children : this.children;
+				parent = siblings.find((line) => line.text === word) || this.addLine(word, index + 1, parent);
+			}
+		});
+	}
+
+	/**
+	 * Every line, depth first
+	 */
+	lines(): ConfigLine[] {
+		return this.children.flatMap((line) => [line, ...line.descendants()]);
+	}
+
+	/**
+	 * Lines at any depth whose text matches the pattern
+	 */
+	find(pattern: ConfigPattern): ConfigLine[] {
+		const regex = toRegExp(pattern);
+		return this.lines().filter((line) => regex.test(line.text));
+	}
+
+	/**
+	 * Direct children of the lines matching the parent pattern
+	 * @param parentPattern Regular expression for the parent text
+	 * @param childPattern Regular expression the children must match, all children when not set
+	 */
+	findChildren(parentPattern: ConfigPattern, childPattern?: ConfigPattern): ConfigLine[] {
+		return this.find(parentPattern).flatMap((parent) =>
+			parent.children.filter((child) => childPattern === undefined || child.matches(childPattern)),
+		);
+	}
+
+	/**
+	 * Lines matching the parent pattern with a child matching the child pattern,
+	 * e.g. interfaces with "shutdown"
+	 */
+	findParentsWithChild(parentPattern: ConfigPattern, childPattern: ConfigPattern, recursive = false): ConfigLine[] {
+		return this.find(parentPattern).filter((parent) => parent.hasChild(childPattern, recursive));
+	}
+
+	/**
+	 * Lines matching the parent pattern without a child matching the child pattern,
+	 * e.g. interfaces lacking a "description"
+	 */
+	findParentsWithoutChild(parentPattern: ConfigPattern, childPattern: ConfigPattern, recursive = false): ConfigLine[] {
+		return this.find(parentPattern).filter((parent) => !parent.hasChild(childPattern, recursive));
+	}
+
+	/**
+	 * The statements as set commands, one per leaf, in the form Junos prints
+	 * with "display set". Meaningful for brace and set syntax only.
+	 */
+	toSetCommands(): string[] {
+		return this.lines()
+			.filter((line) => line.children.length === 0)
+			.map((line) => `set ${line.path.join(' ')}`);
+	}
+
+	toJSON(): ConfigTreeNode[] {
+		return this.children.map((line) => line.toJSON());
+	}
+}
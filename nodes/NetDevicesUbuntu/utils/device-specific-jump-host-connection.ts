@@ -1,4 +1,26 @@
-import { BaseConnection, DeviceCredentials } from './base-connection';
+import {
+	BaseConnection,
+	CommandResult,
+	ConfigRevisionsResult,
+	ConfigValidationResult,
+	DeviceCredentials,
+	DeviceStateResult,
+	FileTransferResult,
+	FreeSpaceResult,
+	PingOptions,
+	PingResult,
+	SoftwareVersionResult,
+	TracerouteResult,
+} from './base-connection';
+import {
+	ArpEntry,
+	BgpNeighbor,
+	DeviceFacts,
+	InterfaceAddress,
+	InterfaceState,
+	LldpNeighbor,
+	MacTableEntry,
+} from './getters';
 import { JumpHostConnection } from './jump-host-connection';
 
 // Try to import n8n's LoggerProxy for proper logging
@@ -71,11 +93,7 @@ export class DeviceSpecificJumpHostConnection extends JumpHostConnection {
 		}
 
 		// Synchronize the client and channel before preparation
-		this.deviceConnection.client = this.client;
-		this.deviceConnection.currentChannel = this.currentChannel;
-		
-		// Ensure device connection shares the same connection state
-		this.deviceConnection.isConnected = this.isConnected;
+		this.syncDeviceConnection();
 
 		try {
 			// Delegate the call to the actual device-specific implementation
@@ -108,4 +126,165 @@ export class DeviceSpecificJumpHostConnection extends JumpHostConnection {
 			throw sessionError;
 		}
 	}
+
+	/**
+	 * Delegates to the device-specific implementation so vendor commands
+	 * (e.g. "show config running" on PAN-OS) are used through the jump host.
+	 */
+	public async getCurrentConfig(): Promise<CommandResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.getCurrentConfig();
+	}
+
+	/**
+	 * Delegates the native configuration replace to the device-specific connection.
+	 */
+	public async replaceConfig(config: string): Promise<CommandResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.replaceConfig(config);
+	}
+
+	/**
+	 * Delegates validate-only configuration checks to the device-specific connection.
+	 */
+	public async validateConfig(configCommands: string[]): Promise<ConfigValidationResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.validateConfig(configCommands);
+	}
+
+	/**
+	 * Delegates commit-confirmed to the device-specific connection.
+	 */
+	public async commitConfirmed(configCommands: string[], minutes: number): Promise<CommandResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.commitConfirmed(configCommands, minutes);
+	}
+
+	/**
+	 * Delegates the confirming commit to the device-specific connection.
+	 */
+	public async confirmCommit(): Promise<CommandResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.confirmCommit();
+	}
+
+	/**
+	 * Delegates configuration rollback to the device-specific connection.
+	 */
+	public async rollbackConfig(revision: string): Promise<CommandResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.rollbackConfig(revision);
+	}
+
+	/**
+	 * Delegates the revision listing to the device-specific connection.
+	 */
+	public async getConfigRevisions(): Promise<ConfigRevisionsResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.getConfigRevisions();
+	}
+
+	/**
+	 * Delegates file uploads so the tunnelled client is used and the vendor checksum command verifies them.
+	 */
+	public async uploadFile(remotePath: string, data: Buffer, verify: boolean = true): Promise<FileTransferResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.uploadFile(remotePath, data, verify);
+	}
+
+	/**
+	 * Delegates file downloads so the tunnelled client is used and the vendor checksum command verifies them.
+	 */
+	public async downloadFile(remotePath: string, verify: boolean = true): Promise<FileTransferResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.downloadFile(remotePath, verify);
+	}
+
+	/**
+	 * Delegates the free-space check to the device-specific connection.
+	 */
+	public async getFreeSpace(remotePath: string): Promise<FreeSpaceResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.getFreeSpace(remotePath);
+	}
+
+	/**
+	 * Delegates software staging to the device-specific connection.
+	 */
+	public async stageSoftware(remotePath: string): Promise<CommandResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.stageSoftware(remotePath);
+	}
+
+	/**
+	 * Delegates the software version lookup to the device-specific connection.
+	 */
+	public async getSoftwareVersion(): Promise<SoftwareVersionResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.getSoftwareVersion();
+	}
+
+	/**
+	 * Delegates ping so the vendor command and its options are used.
+	 */
+	public async ping(target: string, options: PingOptions = {}): Promise<PingResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.ping(target, options);
+	}
+
+	/**
+	 * Delegates traceroute so the vendor command and its options are used.
+	 */
+	public async traceroute(target: string, options: PingOptions = {}): Promise<TracerouteResult> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.traceroute(target, options);
+	}
+
+	/**
+	 * The normalized getters run vendor commands, so they are delegated as well.
+	 */
+	public async getFacts(): Promise<DeviceStateResult<DeviceFacts | null>> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.getFacts();
+	}
+
+	public async getInterfaces(): Promise<DeviceStateResult<InterfaceState[]>> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.getInterfaces();
+	}
+
+	public async getInterfacesIp(): Promise<DeviceStateResult<InterfaceAddress[]>> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.getInterfacesIp();
+	}
+
+	public async getArpTable(): Promise<DeviceStateResult<ArpEntry[]>> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.getArpTable();
+	}
+
+	public async getMacAddressTable(): Promise<DeviceStateResult<MacTableEntry[]>> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.getMacAddressTable();
+	}
+
+	public async getLldpNeighbors(): Promise<DeviceStateResult<LldpNeighbor[]>> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.getLldpNeighbors();
+	}
+
+	public async getBgpNeighbors(): Promise<DeviceStateResult<BgpNeighbor[]>> {
+		this.syncDeviceConnection();
+		return this.deviceConnection.getBgpNeighbors();
+	}
+
+	/**
+	 * Shares the tunnelled client, channel and connection state with the
+	 * device-specific connection before delegating to it.
+	 */
+	private syncDeviceConnection(): void {
+		this.deviceConnection.client = this.client;
+		this.deviceConnection.currentChannel = this.currentChannel;
+		this.deviceConnection.isConnected = this.isConnected;
+	}
 }
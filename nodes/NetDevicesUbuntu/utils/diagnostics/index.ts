@@ -0,0 +1,8 @@
+export {
+	parsePingOutput,
+	parseTracerouteOutput,
+	PingStatistics,
+	TracerouteHop,
+	TracerouteOutput,
+} from './reachability';
+export { diagnoseConnection, ConnectionDiagnosis, DiagnosticStep, ProfileDiagnosis, ServerAlgorithms } from './ssh-handshake';
@@ -0,0 +1,115 @@
+export interface PingStatistics {
+	sent: number;
+	received: number;
+	lossPercent: number;
+	rttMin: number | null;
+	rttAvg: number | null;
+	rttMax: number | null;
+}
+
+export interface TracerouteHop {
+	hop: number;
+	address: string;
+	hostname: string;
+	rtts: number[];
+	timeouts: number;
+}
+
+export interface TracerouteOutput {
+	destination: string;
+	hops: TracerouteHop[];
+}
+
+const IPV4 = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+const IPV6 = /^[0-9a-f]*:[0-9a-f:.]*$/i;
+
+/**
+ * Parse the summary of a ping, whichever platform printed it:
+ * "Success rate is 80 percent (4/5), round-trip min/avg/max = 1/2/4 ms" on Cisco,
+ * "5 packets transmitted, 4 packets received, 20% packet loss" elsewhere
+ * @param output Ping output
+ * @returns Normalized statistics, or null when the output has no summary
+ */
+export function parsePingOutput(output: string): PingStatistics | null {
+	let sent: number;
+	let received: number;
+
+	const cisco = output.match(/Success rate is (\d+) percent \((\d+)\/(\d+)\)/i);
+	const generic = output.match(/(\d+) packets transmitted, (\d+) (?:packets )?received/i);
+	if (cisco) {
+		received = Number(cisco[2]);
+		sent = Number(cisco[3]);
+	} else if (generic) {
+		sent = Number(generic[1]);
+		received = Number(generic[2]);
+	} else {
+		return null;
+	}
+
+	// min/avg/max, followed by mdev or stddev on some platforms
+	const rtt = output.match(/min\/avg\/max(?:\/[\w-]+)?\s*=\s*([\d.]+)\/([\d.]+)\/([\d.]+)/i);
+
+	return {
+		sent,
+		received,
+		lossPercent: sent > 0 ? Math.round(((sent - received) / sent) * 10000) / 100 : 100,
+		rttMin: rtt ? Number(rtt[1]) : null,
+		rttAvg: rtt ? Number(rtt[2]) : null,
+		rttMax: rtt ? Number(rtt[3]) : null,
+	};
+}
+
+/**
+ * Parse traceroute output into hops. Handles numbered hop lines with or
+ * without host names, "*" for lost probes, MPLS label annotations and the
+ * continuation lines Cisco prints when probes of one hop get different replies.
+ * @param output Traceroute output
+ * @returns Destination address from the header, if printed, and the hops
+ */
+export function parseTracerouteOutput(output: string): TracerouteOutput {
+	const header = output.match(/(?:traceroute to|Tracing the route to)\s+\S+\s+\(([^)]+)\)/i);
+	const hops: TracerouteHop[] = [];
+
+	for (const rawLine of output.split('\n')) {
+		// Drop AS numbers and MPLS label stacks, which would read as addresses or times
+		const line = rawLine.replace(/\[[^\]]*\]/g, ' ').replace(/\r/g, '');
+		const numbered = line.match(/^\s*(\d+)\s+(.*)$/);
+		const current = hops[hops.length - 1];
+		const rest = numbered ? numbered[2] : line;
+
+		if (!numbered && !(current && /^\s+\S/.test(line) && /\d\s*(?:ms|msec)\b/.test(line))) {
+			continue;
+		}
+
+		const hop = numbered
+			? { hop: Number(numbered[1]), address: '', hostname: '', rtts: [] as number[], timeouts: 0 }
+			: current;
+
+		if (!hop.address) {
+			const named = rest.match(/(\S+)\s+\(([0-9a-f.:]+)\)/i);
+			if (named) {
+				hop.address = named[2];
+				hop.hostname = named[1] === named[2] ? '' : named[1];
+			} else {
+				// Lost probes may come before the first reply
+				const first = rest.trim().split(/\s+/).find((token) => token !== '*') || '';
+				if (IPV4.test(first) || IPV6.test(first)) {
+					hop.address = first;
+				} else if (first && !/^[\d.]+$/.test(first)) {
+					hop.hostname = first;
+				}
+			}
+		}
+
+		for (const time of rest.matchAll(/([\d.]+)\s*(?:ms|msec)\b/gi)) {
+			hop.rtts.push(Number(time[1]));
+		}
+		hop.timeouts += (rest.match(/(?:^|\s)\*(?=\s|$)/g) || []).length;
+
+		if (numbered) {
+			hops.push(hop);
+		}
+	}
+
+	return { destination: header ? header[1] : '', hops };
+}
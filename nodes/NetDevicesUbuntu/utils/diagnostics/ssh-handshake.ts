@@ -0,0 +1,661 @@
+import { connect as connectTcp } from 'net';
+import { Duplex } from 'stream';
+import { AnyAuthMethod, AuthHandlerMiddleware, AuthenticationType, Client, ConnectConfig } from 'ssh2';
+import type { DeviceCredentials } from '../base-connection';
+import { formatSSHPrivateKey } from '../base-connection';
+import { HostKeyVerifier } from '../host-key';
+import { KeyboardInteractiveResponder } from '../keyboard-interactive';
+import {
+	ALGORITHM_PROFILES,
+	AlgorithmListType,
+	AlgorithmProfileName,
+	NegotiatedSshAlgorithms,
+	SshAlgorithms,
+	applyAlgorithmOverrides,
+	getAlgorithmProfiles,
+	mergeAlgorithms,
+	summarizeNegotiatedAlgorithms,
+} from '../ssh-algorithms';
+
+// Algorithm lists of a KEXINIT message, client to server direction
+export type ServerAlgorithms = { [type in AlgorithmListType]: string[] };
+
+export interface DiagnosticStep {
+	name: string;
+	success: boolean;
+	// Milliseconds
+	duration: number;
+	message: string;
+}
+
+export interface ProfileDiagnosis {
+	profile: AlgorithmProfileName;
+	// Lists without an algorithm both sides support
+	missing: AlgorithmListType[];
+	attempted: boolean;
+	connected: boolean;
+	negotiated?: NegotiatedSshAlgorithms;
+	error?: string;
+}
+
+export interface ConnectionDiagnosis {
+	host: string;
+	port: number;
+	reachable: boolean;
+	serverVersion?: string;
+	hostKeyFingerprint?: string;
+	offered?: ServerAlgorithms;
+	// Offered algorithms the node can use
+	supported?: ServerAlgorithms;
+	profiles: ProfileDiagnosis[];
+	// Authentication methods the server allows
+	authMethods: string[];
+	authenticated: boolean;
+	authMethod?: string;
+	steps: DiagnosticStep[];
+	suggestion: string;
+	success: boolean;
+}
+
+const LIST_TYPES: AlgorithmListType[] = ['kex', 'serverHostKey', 'cipher', 'hmac', 'compress'];
+
+const LIST_FIELDS: { [type in AlgorithmListType]: string } = {
+	kex: 'Key Exchange Algorithms',
+	serverHostKey: 'Server Host Key Algorithms',
+	cipher: 'Cipher Algorithms',
+	hmac: 'MAC Algorithms',
+	compress: 'Compression Algorithms',
+};
+
+const PROFILE_NAMES: AlgorithmProfileName[] = ['modern', 'compatible', 'legacy'];
+
+// ssh2's compression list, which the profiles leave at its default
+const DEFAULT_COMPRESSION = ['none', 'zlib@openssh.com', 'zlib'];
+
+const SSH_MSG_KEXINIT = 20;
+
+// Ciphers that authenticate the packets themselves, so no MAC is negotiated
+function isAeadCipher(cipher: string): boolean {
+	return /gcm|chacha20-poly1305/.test(cipher);
+}
+
+/**
+ * Reads an SSH server's identification string and first packet from a raw
+ * stream, before any encryption
+ */
+class SshStreamReader {
+	private buffer = Buffer.alloc(0);
+	private waiter?: () => void;
+	private closed = false;
+
+	constructor(stream: Duplex) {
+		stream.on('data', (chunk: Buffer) => {
+			this.buffer = Buffer.concat([this.buffer, chunk]);
+			this.notify();
+		});
+		stream.on('close', () => {
+			this.closed = true;
+			this.notify();
+		});
+		stream.on('error', () => {
+			this.closed = true;
+			this.notify();
+		});
+	}
+
+	private notify(): void {
+		const waiter = this.waiter;
+		this.waiter = undefined;
+		if (waiter) {
+			waiter();
+		}
+	}
+
+	/**
+	 * Wait until the parser finds what it needs in the buffer
+	 * @param parse Returns the value and the bytes it used, or undefined to wait for more data
+	 */
+	private async read<T>(parse: (buffer: Buffer) => { value: T; length: number } | undefined, timeout: number, what: string): Promise<T> {
+		const deadline = Date.now() + timeout;
+		for (;;) {
+			const parsed = parse(this.buffer);
+			if (parsed) {
+				this.buffer = this.buffer.subarray(parsed.length);
+				return parsed.value;
+			}
+			if (this.closed) {
+				throw new Error(`The server closed the connection before sending ${what}`);
+			}
+			const remaining = deadline - Date.now();
+			if (remaining <= 0) {
+				throw new Error(`No ${what} received within ${timeout}ms`);
+			}
+			await new Promise<void>((resolve) => {
+				const timer = setTimeout(resolve, remaining);
+				this.waiter = () => {
+					clearTimeout(timer);
+					resolve();
+				};
+			});
+		}
+	}
+
+	/**
+	 * The "SSH-protoversion-softwareversion" line; servers may send other lines before it
+	 */
+	readIdentification(timeout: number): Promise<string> {
+		return this.read(
+			(buffer) => {
+				let offset = 0;
+				for (;;) {
+					const end = buffer.indexOf('\n', offset);
+					if (end === -1) {
+						if (buffer.length > 8192) {
+							throw new Error('No SSH identification string in the first 8 KB; the port does not speak SSH');
+						}
+						return undefined;
+					}
+					const line = buffer.subarray(offset, end).toString('latin1').replace(/\r$/, '');
+					offset = end + 1;
+					if (line.startsWith('SSH-')) {
+						return { value: line, length: offset };
+					}
+				}
+			},
+			timeout,
+			'an SSH identification string',
+		);
+	}
+
+	/**
+	 * The server's KEXINIT, the first binary packet
+	 */
+	readKexInit(timeout: number): Promise<ServerAlgorithms> {
+		return this.read(
+			(buffer) => {
+				if (buffer.length < 5) {
+					return undefined;
+				}
+				const packetLength = buffer.readUInt32BE(0);
+				if (packetLength > 35000) {
+					throw new Error(`Invalid SSH packet length ${packetLength}`);
+				}
+				if (buffer.length < packetLength + 4) {
+					return undefined;
+				}
+				const paddingLength = buffer[4];
+				const payload = buffer.subarray(5, 4 + packetLength - paddingLength);
+				if (payload[0] !== SSH_MSG_KEXINIT) {
+					throw new Error(`Expected KEXINIT from the server, got message type ${payload[0]}`);
+				}
+
+				// Message type and 16-byte cookie, then the name-lists
+				let offset = 17;
+				const lists: string[][] = [];
+				for (let index = 0; index < 10; index++) {
+					const length = payload.readUInt32BE(offset);
+					const names = payload.subarray(offset + 4, offset + 4 + length).toString('latin1');
+					lists.push(names === '' ? [] : names.split(','));
+					offset += 4 + length;
+				}
+				// kex, host key, cipher c2s, cipher s2c, mac c2s, mac s2c, compression c2s, ...
+				// The kex list also carries extension markers such as ext-info-s and kex-strict-s-v00@openssh.com
+				const kex = lists[0].filter((name) => !/^(ext-info|kex-strict)-/.test(name));
+				return {
+					value: { kex, serverHostKey: lists[1], cipher: lists[2], hmac: lists[4], compress: lists[6] },
+					length: packetLength + 4,
+				};
+			},
+			timeout,
+			'the key exchange offer',
+		);
+	}
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+function openTcp(host: string, port: number, timeout: number): Promise<Duplex> {
+	return new Promise((resolve, reject) => {
+		const socket = connectTcp({ host, port });
+		const timer = setTimeout(() => {
+			socket.destroy();
+			reject(new Error(`TCP connection to ${host}:${port} timed out after ${timeout}ms`));
+		}, timeout);
+		socket.once('connect', () => {
+			clearTimeout(timer);
+			resolve(socket);
+		});
+		socket.once('error', (error) => {
+			clearTimeout(timer);
+			reject(error);
+		});
+	});
+}
+
+function authMethodsFor(credentials: DeviceCredentials, username: string, prefix: '' | 'jumpHost'): AnyAuthMethod[] {
+	const authMethod = prefix ? credentials.jumpHostAuthMethod : credentials.authMethod;
+	const password = prefix ? credentials.jumpHostPassword : credentials.password;
+	const privateKey = prefix ? credentials.jumpHostPrivateKey : credentials.privateKey;
+	const passphrase = prefix ? credentials.jumpHostPassphrase : credentials.passphrase;
+
+	const methods: AnyAuthMethod[] = [];
+	if (authMethod === 'privateKey') {
+		if (privateKey) {
+			methods.push({ type: 'publickey', username, key: formatSSHPrivateKey(privateKey), passphrase: passphrase || undefined });
+		}
+	} else if (password) {
+		methods.push(
+			{ type: 'password', username, password },
+			{
+				type: 'keyboard-interactive',
+				username,
+				prompt: (_name, _instructions, _lang, prompts, finish) => finish(prompts.map(() => password)),
+			},
+		);
+	}
+
+	// Mapped prompts replace answering every prompt with the password
+	if (prefix ? credentials.jumpHostKeyboardInteractive : credentials.keyboardInteractive) {
+		const responder = new KeyboardInteractiveResponder(
+			prefix ? credentials.jumpHostPromptResponses : credentials.promptResponses,
+			{ password, totpSecret: prefix ? credentials.jumpHostTotpSecret : credentials.totpSecret },
+		);
+		return [
+			...methods.filter((method) => method.type !== 'keyboard-interactive'),
+			{ type: 'keyboard-interactive', username, prompt: responder.respond },
+		];
+	}
+	return methods;
+}
+
+interface HandshakeAttempt {
+	connected: boolean;
+	negotiated?: NegotiatedSshAlgorithms;
+	authMethods?: string[];
+	authenticated: boolean;
+	authMethod?: string;
+	triedMethods: string[];
+	handshakeTime?: number;
+	authTime?: number;
+	hostKeyError?: Error;
+	error?: string;
+}
+
+/**
+ * Connect with one set of algorithms. With authentication, the "none" method
+ * reveals the methods the server allows, and the credential's methods are
+ * tried among them; without, the connection ends after the handshake.
+ */
+function attemptHandshake(
+	sock: Duplex,
+	algorithms: SshAlgorithms,
+	verifier: HostKeyVerifier,
+	methods: AnyAuthMethod[] | undefined,
+	username: string,
+	timeout: number,
+): Promise<HandshakeAttempt> {
+	return new Promise((resolve) => {
+		const client = new Client();
+		const attempt: HandshakeAttempt = { connected: false, authenticated: false, triedMethods: [] };
+		const start = Date.now();
+		let handshakeAt = start;
+		let finished = false;
+		let pending = methods ? [...methods] : [];
+
+		const finish = (error?: string) => {
+			if (finished) {
+				return;
+			}
+			finished = true;
+			if (error && !attempt.error) {
+				attempt.error = error;
+			}
+			client.end();
+			sock.destroy();
+			resolve(attempt);
+		};
+
+		client.on('handshake', (negotiated) => {
+			handshakeAt = Date.now();
+			attempt.connected = true;
+			attempt.negotiated = summarizeNegotiatedAlgorithms(negotiated);
+			attempt.handshakeTime = handshakeAt - start;
+			if (!methods) {
+				finish();
+			}
+		});
+		client.on('ready', () => {
+			attempt.authenticated = true;
+			attempt.authMethod = attempt.authMethod || 'none';
+			attempt.authTime = Date.now() - handshakeAt;
+			finish();
+		});
+		client.on('error', (error) => {
+			if (verifier.error) {
+				attempt.hostKeyError = verifier.error;
+			}
+			if (attempt.connected) {
+				attempt.authTime = Date.now() - handshakeAt;
+			}
+			// A rejected authentication ends the attempt with a generic error
+			finish(attempt.connected && attempt.authMethods ? undefined : errorMessage(verifier.error || error));
+		});
+		client.on('close', () => finish(attempt.connected ? undefined : 'The server closed the connection'));
+
+		// ssh2 ends authentication when the handler passes false
+		const authHandler = (methodsLeft: AuthenticationType[] | null, _partial: boolean | null, next: (auth: AnyAuthMethod | false) => void) => {
+			if (methodsLeft === null) {
+				next({ type: 'none', username });
+				return;
+			}
+			if (!attempt.authMethods) {
+				attempt.authMethods = [...methodsLeft];
+				pending = pending.filter((method) => methodsLeft.includes(method.type));
+			}
+			const method = pending.shift();
+			if (!method) {
+				next(false);
+				return;
+			}
+			attempt.triedMethods.push(method.type);
+			attempt.authMethod = method.type;
+			next(method);
+		};
+
+		const config: ConnectConfig = {
+			sock,
+			username,
+			algorithms,
+			readyTimeout: timeout,
+			hostVerifier: verifier.verify,
+			authHandler: authHandler as unknown as AuthHandlerMiddleware,
+		};
+		try {
+			client.connect(config);
+		} catch (error) {
+			finish(errorMessage(error));
+		}
+	});
+}
+
+class DiagnosisRecorder {
+	readonly steps: DiagnosticStep[] = [];
+
+	/**
+	 * Run a phase and record it as a step
+	 * @param action Returns the value and the message of a successful step
+	 * @returns The value, or undefined when the phase failed
+	 */
+	async run<T>(name: string, action: () => Promise<{ value: T; message: string }>): Promise<T | undefined> {
+		const start = Date.now();
+		try {
+			const { value, message } = await action();
+			this.steps.push({ name, success: true, duration: Date.now() - start, message });
+			return value;
+		} catch (error) {
+			this.steps.push({ name, success: false, duration: Date.now() - start, message: errorMessage(error) });
+			return undefined;
+		}
+	}
+
+	add(name: string, success: boolean, duration: number, message: string): void {
+		this.steps.push({ name, success, duration, message });
+	}
+}
+
+function tcpSuggestion(message: string, host: string, port: number): string {
+	if (/ENOTFOUND|EAI_AGAIN/.test(message)) {
+		return `The hostname ${host} does not resolve. Check the hostname or use the IP address.`;
+	}
+	if (/ECONNREFUSED/.test(message)) {
+		return `Nothing accepts connections on ${host}:${port}. Check the port and that the SSH server is enabled on the device.`;
+	}
+	if (/EHOSTUNREACH|ENETUNREACH/.test(message)) {
+		return `There is no route to ${host}. Check the routing from the n8n host or use a jump host.`;
+	}
+	return `${host}:${port} does not answer. Check firewalls and ACLs between n8n and the device (e.g. "access-class" on the VTY lines).`;
+}
+
+function missingLists(algorithms: SshAlgorithms, offered: ServerAlgorithms): AlgorithmListType[] {
+	const common = (type: AlgorithmListType) => {
+		const ours = (algorithms[type] as string[] | undefined) || (type === 'compress' ? DEFAULT_COMPRESSION : []);
+		return ours.filter((name) => offered[type].includes(name));
+	};
+	const cipher = common('cipher')[0];
+	return LIST_TYPES.filter((type) => {
+		if (type === 'hmac' && cipher && isAeadCipher(cipher)) {
+			return false;
+		}
+		return common(type).length === 0;
+	});
+}
+
+/**
+ * Check step by step why a connection to a device fails: jump host, TCP
+ * connection, SSH identification, the server's algorithm offer against each
+ * algorithm profile, the host key and the authentication methods
+ * @param credentials Device credentials, with the jump host, algorithm and host key settings
+ * @param timeout Timeout of each phase in milliseconds
+ * @returns Report with the steps, their durations and a suggested fix
+ */
+export async function diagnoseConnection(credentials: DeviceCredentials, timeout: number): Promise<ConnectionDiagnosis> {
+	const { host, port, username } = credentials;
+	const recorder = new DiagnosisRecorder();
+	const report: ConnectionDiagnosis = {
+		host,
+		port,
+		reachable: false,
+		profiles: [],
+		authMethods: [],
+		authenticated: false,
+		steps: recorder.steps,
+		suggestion: '',
+		success: false,
+	};
+	let jumpClient: Client | undefined;
+
+	try {
+		// Streams to the device, directly or through the jump host
+		let openStream = () => openTcp(host, port, timeout);
+		if (credentials.useJumpHost) {
+			const jumpHost = `${credentials.jumpHostHost}:${credentials.jumpHostPort}`;
+			jumpClient = await recorder.run('Jump host', async () => {
+				const client = new Client();
+				const verifier = new HostKeyVerifier(credentials.jumpHostHost!, credentials.jumpHostPort!, {
+					policy: credentials.hostKeyPolicy,
+					fingerprints: credentials.jumpHostFingerprints,
+					knownHosts: credentials.jumpHostKnownHosts,
+					store: credentials.hostKeyStore,
+				});
+				const profiles = getAlgorithmProfiles(credentials.algorithmProfile).map((profile) => profile.algorithms);
+				const algorithms = mergeAlgorithms(applyAlgorithmOverrides(profiles, credentials.jumpHostAlgorithms));
+				const methods = authMethodsFor(credentials, credentials.jumpHostUsername!, 'jumpHost');
+				await new Promise<void>((resolve, reject) => {
+					client.once('ready', () => resolve());
+					client.once('error', (error) => reject(verifier.error || error));
+					client.connect({
+						host: credentials.jumpHostHost,
+						port: credentials.jumpHostPort,
+						username: credentials.jumpHostUsername,
+						readyTimeout: timeout,
+						algorithms: { ...algorithms, serverHostKey: verifier.preferKnownKeyTypes(algorithms.serverHostKey) },
+						hostVerifier: verifier.verify,
+						authHandler: methods.length > 0 ? methods : undefined,
+					});
+				});
+				return { value: client, message: `Connected to the jump host ${jumpHost}` };
+			});
+			if (!jumpClient) {
+				report.suggestion = `The jump host ${jumpHost} is not usable. Check its address, credentials and host key settings.`;
+				return report;
+			}
+			const tunnel = jumpClient;
+			openStream = () =>
+				new Promise<Duplex>((resolve, reject) =>
+					tunnel.forwardOut('127.0.0.1', 0, host, port, (error, stream) => (error ? reject(error) : resolve(stream))),
+				);
+		}
+
+		const stream = await recorder.run('TCP connect', async () => ({
+			value: await openStream(),
+			message: `${host}:${port} accepts connections${credentials.useJumpHost ? ' from the jump host' : ''}`,
+		}));
+		if (!stream) {
+			report.suggestion = tcpSuggestion(recorder.steps[recorder.steps.length - 1].message, host, port);
+			return report;
+		}
+		report.reachable = true;
+
+		// Identify ourselves so that the server sends its KEXINIT, then read both
+		const reader = new SshStreamReader(stream);
+		stream.write('SSH-2.0-n8n_diagnostics\r\n');
+		report.serverVersion = await recorder.run('SSH identification', async () => {
+			const version = await reader.readIdentification(timeout);
+			if (!/^SSH-(?:2\.0|1\.99)-/.test(version)) {
+				throw new Error(`The server only speaks ${version.split('-').slice(0, 2).join('-')}, SSH version 2 is required`);
+			}
+			return { value: version, message: version };
+		});
+		report.offered = report.serverVersion
+			? await recorder.run('Algorithm offer', async () => {
+					const offered = await reader.readKexInit(timeout);
+					return {
+						value: offered,
+						message: `The server offers ${offered.kex.length} key exchange, ${offered.serverHostKey.length} host key, ${offered.cipher.length} cipher and ${offered.hmac.length} MAC algorithms`,
+					};
+				})
+			: undefined;
+		stream.destroy();
+		if (!report.serverVersion || !report.offered) {
+			report.suggestion = `${host}:${port} does not behave like an SSH server. Check that the port is the device's SSH port and that SSH version 2 is enabled.`;
+			return report;
+		}
+
+		const offered = report.offered;
+		const customized = (profile: AlgorithmProfileName) =>
+			applyAlgorithmOverrides([ALGORITHM_PROFILES[profile]], credentials.algorithms)[0];
+		const everything = mergeAlgorithms(PROFILE_NAMES.map(customized));
+		report.supported = LIST_TYPES.reduce((supported, type) => {
+			const ours = (everything[type] as string[] | undefined) || DEFAULT_COMPRESSION;
+			supported[type] = offered[type].filter((name) => ours.includes(name));
+			return supported;
+		}, {} as ServerAlgorithms);
+
+		// Each profile the offer allows is tried; authentication only on the first that connects
+		const methods = authMethodsFor(credentials, username, '');
+		let authAttempt: HandshakeAttempt | undefined;
+		for (const profile of PROFILE_NAMES) {
+			const algorithms = customized(profile);
+			const diagnosis: ProfileDiagnosis = { profile, missing: missingLists(algorithms, offered), attempted: false, connected: false };
+			report.profiles.push(diagnosis);
+			if (diagnosis.missing.length > 0) {
+				recorder.add(
+					`Profile ${profile}`,
+					false,
+					0,
+					`No common ${diagnosis.missing.map((type) => LIST_FIELDS[type].toLowerCase()).join(', ')}`,
+				);
+				continue;
+			}
+
+			diagnosis.attempted = true;
+			const start = Date.now();
+			const verifier = new HostKeyVerifier(host, port, {
+				policy: credentials.hostKeyPolicy,
+				fingerprints: credentials.hostFingerprints,
+				knownHosts: credentials.knownHosts,
+				store: credentials.hostKeyStore,
+			});
+			let attempt: HandshakeAttempt;
+			try {
+				attempt = await attemptHandshake(
+					await openStream(),
+					{ ...algorithms, serverHostKey: verifier.preferKnownKeyTypes(algorithms.serverHostKey) },
+					verifier,
+					authAttempt ? undefined : methods,
+					username,
+					timeout,
+				);
+			} catch (error) {
+				attempt = { connected: false, authenticated: false, triedMethods: [], error: errorMessage(error) };
+			}
+			diagnosis.connected = attempt.connected;
+			diagnosis.negotiated = attempt.negotiated;
+			diagnosis.error = attempt.connected ? undefined : attempt.error;
+			report.hostKeyFingerprint = report.hostKeyFingerprint || verifier.fingerprint;
+			recorder.add(
+				`Profile ${profile}`,
+				attempt.connected,
+				attempt.handshakeTime !== undefined ? attempt.handshakeTime : Date.now() - start,
+				attempt.connected
+					? `Negotiated ${attempt.negotiated!.kex}, ${attempt.negotiated!.serverHostKey}, ${attempt.negotiated!.cipher}, ${attempt.negotiated!.hmac}`
+					: attempt.error || 'The handshake failed',
+			);
+
+			if (attempt.hostKeyError) {
+				recorder.add('Host key', false, 0, attempt.hostKeyError.message);
+				report.suggestion = `${attempt.hostKeyError.message}. Update the pinned fingerprints or known_hosts entries if the key change is expected.`;
+				return report;
+			}
+			if (attempt.connected && !authAttempt) {
+				authAttempt = attempt;
+				recorder.add('Host key', true, 0, `${verifier.fingerprint} accepted (${credentials.hostKeyPolicy || 'trustOnFirstUse'} policy)`);
+				report.authMethods = attempt.authMethods || [];
+				report.authenticated = attempt.authenticated;
+				report.authMethod = attempt.authenticated ? attempt.authMethod : undefined;
+				recorder.add(
+					'Authentication',
+					attempt.authenticated,
+					attempt.authTime || 0,
+					attempt.authenticated
+						? `Authenticated as ${username} with ${attempt.authMethod}`
+						: attempt.triedMethods.length > 0
+							? `The server rejected ${attempt.triedMethods.join(', ')} for ${username}`
+							: `The server allows ${report.authMethods.join(', ') || 'no method'}, none of which the credential provides`,
+				);
+			}
+		}
+
+		report.success = report.authenticated;
+		report.suggestion = suggestFix(report, credentials, authAttempt);
+		return report;
+	} finally {
+		if (jumpClient) {
+			jumpClient.end();
+		}
+	}
+}
+
+function suggestFix(report: ConnectionDiagnosis, credentials: DeviceCredentials, authAttempt?: HandshakeAttempt): string {
+	const working = report.profiles.filter((profile) => profile.connected).map((profile) => profile.profile);
+	if (working.length === 0) {
+		const compatible = report.profiles.find((profile) => profile.missing.length === 0);
+		if (compatible) {
+			return `The ${compatible.profile} profile matches the server's offer but the handshake failed (${compatible.error}). Check the device's SSH logs.`;
+		}
+		const missing = report.profiles[report.profiles.length - 1].missing;
+		return missing
+			.map(
+				(type) =>
+					`No profile has a ${LIST_FIELDS[type].toLowerCase().replace(/s$/, '')} the server offers (${report.offered![type].join(', ') || 'none'}). If ssh2 supports one of them, enable Custom SSH Algorithms and set ${LIST_FIELDS[type]} to "+${report.offered![type][0]}"; otherwise enable a more common algorithm on the device.`,
+			)
+			.join(' ');
+	}
+
+	const configured = credentials.algorithmProfile || 'auto';
+	if (configured !== 'auto' && !working.includes(configured)) {
+		return `The ${configured} profile does not work with this server. Set the SSH Algorithm Profile to ${working[0]} or Auto.`;
+	}
+	if (!report.authenticated) {
+		const method = credentials.authMethod === 'privateKey' ? 'publickey' : 'password';
+		if (!report.authMethods.includes(method) && !(method === 'password' && report.authMethods.includes('keyboard-interactive'))) {
+			return `The server does not allow ${method} authentication, only ${report.authMethods.join(', ')}. Change the credential's authentication method.`;
+		}
+		return authAttempt && authAttempt.triedMethods.length > 0
+			? `The server rejected the credential. Check the username and ${method === 'publickey' ? 'that the public key is authorized for it' : 'password'}.`
+			: 'No authentication method could be tried. Check the credential.';
+	}
+	return `No problem found: the connection works with the ${working[0]} profile. If the operations still fail, the problem is after login, e.g. the prompt or the paging setup.`;
+}
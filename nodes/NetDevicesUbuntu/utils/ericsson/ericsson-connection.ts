@@ -261,9 +261,9 @@ export class EricssonConnection extends BaseConnection {
 		try {
 			await this.writeChannel('reload' + this.newline);
 
-			let output = await this.readChannel(5000);
+			let output = await this.readUntilPrompt(/\[confirm\]|\?\s*$/, 10000);
 
-			if (output.includes('[confirm]') || output.includes('?')) {
+			if (/\[confirm\]|\?\s*$/.test(output)) {
 				await this.writeChannel(this.newline);
 				output += await this.readChannel(5000);
 			}
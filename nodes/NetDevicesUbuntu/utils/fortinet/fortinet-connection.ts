@@ -1,4 +1,25 @@
-import { BaseConnection, DeviceCredentials, CommandResult } from '../base-connection';
+import {
+    BaseConnection,
+    CommandResult,
+    DeviceStateResult,
+    PingOptions,
+    PingResult,
+    TracerouteResult
+} from '../base-connection';
+import {
+    ArpEntry,
+    BgpNeighbor,
+    DeviceFacts,
+    InterfaceAddress,
+    InterfaceState,
+    LldpNeighbor,
+    parseBgpSummary,
+    parseFortiosArpTable,
+    parseFortiosFacts,
+    parseFortiosInterfaceAddresses,
+    parseFortiosInterfaces,
+    parseFortiosLldpNeighbors
+} from '../getters';
 
 export class FortinetConnection extends BaseConnection {
     private vdoms: boolean = false;
@@ -7,35 +28,6 @@ export class FortinetConnection extends BaseConnection {
     private outputMode: string = '';
     private inConfigGlobal: boolean = false;
 
-    constructor(credentials: DeviceCredentials) {
-        super(credentials);
-        // Override SSH algorithms for FortiGate compatibility
-        this.setupFortiGateAlgorithms();
-    }
-
-    private setupFortiGateAlgorithms(): void {
-        // Store original method
-        const originalGetOptimizedAlgorithms = this.getOptimizedAlgorithms.bind(this);
-        
-        // Override with FortiGate-specific algorithms
-        this.getOptimizedAlgorithms = () => {
-            const fortiGateAlgorithms = {
-                serverHostKey: ['ssh-rsa', 'ecdsa-sha2-nistp256'],
-                cipher: ['aes128-ctr', 'aes128-cbc', 'aes192-cbc', 'aes256-cbc'],
-                hmac: ['hmac-sha1', 'hmac-sha2-256'],
-                kex: [
-                    'diffie-hellman-group14-sha1',
-                    'diffie-hellman-group-exchange-sha1',
-                    'diffie-hellman-group-exchange-sha256',
-                    'diffie-hellman-group1-sha1'
-                ]
-            };
-            
-            // Return FortiGate algorithms first, then fallback
-            return [fortiGateAlgorithms, ...originalGetOptimizedAlgorithms()];
-        };
-    }
-
     public async sessionPreparation(): Promise<void> {
         try {
             // Create shell channel
@@ -351,6 +343,16 @@ export class FortinetConnection extends BaseConnection {
         return this.sendCommand('show full-configuration');
     }
 
+    async replaceConfig(config: string): Promise<CommandResult> {
+        // FortiOS restores full configurations only from a TFTP/FTP server or USB and reboots to apply them
+        return {
+            command: 'execute restore config',
+            output: '',
+            success: false,
+            error: 'Configuration replace is not supported on FortiOS over SSH. Use "execute restore config" from a TFTP/FTP server or USB, which reboots the device.'
+        };
+    }
+
     async saveConfig(): Promise<CommandResult> {
         // Fortinet doesn't have a traditional save command
         // Configuration is typically saved automatically
@@ -361,6 +363,101 @@ export class FortinetConnection extends BaseConnection {
         };
     }
 
+    async ping(target: string, options: PingOptions = {}): Promise<PingResult> {
+        const { count = 5, size, source } = options;
+
+        // Ping options are session settings on FortiOS, set before and reset after the ping
+        return this.withVdom(options.vrf, async () => {
+            await this.sendCommand(`execute ping-options repeat-count ${count}`);
+            if (size) {
+                await this.sendCommand(`execute ping-options data-size ${size}`);
+            }
+            if (source) {
+                await this.sendCommand(`execute ping-options source ${source}`);
+            }
+            try {
+                return await super.ping(target, options);
+            } finally {
+                await this.sendCommand('execute ping-options reset');
+            }
+        });
+    }
+
+    async traceroute(target: string, options: PingOptions = {}): Promise<TracerouteResult> {
+        const { source } = options;
+
+        return this.withVdom(options.vrf, async () => {
+            if (!source) {
+                return super.traceroute(target, options);
+            }
+            await this.sendCommand(`execute traceroute-options source ${source}`);
+            try {
+                return await super.traceroute(target, options);
+            } finally {
+                await this.sendCommand('execute traceroute-options source auto');
+            }
+        });
+    }
+
+    protected getPingCommand(target: string, options: PingOptions): string {
+        return `execute ping ${target}`;
+    }
+
+    protected getTracerouteCommand(target: string, options: PingOptions): string {
+        return `execute traceroute ${target}`;
+    }
+
+    async getFacts(): Promise<DeviceStateResult<DeviceFacts | null>> {
+        return this.runGetter(
+            ['get system status', 'get system performance status', 'get system interface physical'],
+            ([status, performance, physical]) => parseFortiosFacts(status, performance, physical),
+            null
+        );
+    }
+
+    async getInterfaces(): Promise<DeviceStateResult<InterfaceState[]>> {
+        return this.runGetter(
+            ['get system interface', 'get system interface physical'],
+            ([interfaces, physical]) => parseFortiosInterfaces(interfaces, physical),
+            []
+        );
+    }
+
+    async getInterfacesIp(): Promise<DeviceStateResult<InterfaceAddress[]>> {
+        return this.runGetter(
+            ['get system interface', 'get system interface physical'],
+            ([interfaces, physical]) => parseFortiosInterfaceAddresses(interfaces, physical),
+            []
+        );
+    }
+
+    async getArpTable(): Promise<DeviceStateResult<ArpEntry[]>> {
+        return this.runGetter(['get system arp'], ([output]) => parseFortiosArpTable(output), []);
+    }
+
+    async getLldpNeighbors(): Promise<DeviceStateResult<LldpNeighbor[]>> {
+        return this.runGetter(['diagnose lldprx neighbor summary'], ([output]) => parseFortiosLldpNeighbors(output), []);
+    }
+
+    async getBgpNeighbors(): Promise<DeviceStateResult<BgpNeighbor[]>> {
+        return this.runGetter(['get router info bgp summary'], ([output]) => parseBgpSummary(output), []);
+    }
+
+    // Run execute commands inside a VDOM when the FortiGate has VDOMs enabled
+    private async withVdom<T>(vdom: string | undefined, run: () => Promise<T>): Promise<T> {
+        if (!vdom || !this.vdoms) {
+            return run();
+        }
+
+        await this.sendCommand('config vdom');
+        await this.sendCommand(`edit ${vdom}`);
+        try {
+            return await run();
+        } finally {
+            await this.sendCommand('end');
+        }
+    }
+
     async rebootDevice(): Promise<CommandResult> {
         try {
             if (!this.isConnected || !this.currentChannel) {
@@ -368,7 +465,7 @@ export class FortinetConnection extends BaseConnection {
             }
 
             await this.writeChannel('execute reboot' + this.newline);
-            const output = await this.readChannel(5000);
+            const output = await this.readUntilPrompt(/\(y\/n\)|yes\/no/i, 10000);
             
             if (output.toLowerCase().includes('yes/no') || output.toLowerCase().includes('y/n')) {
                 await this.writeChannel('yes' + this.newline);
@@ -0,0 +1,147 @@
+import { firstValue, normalizeMac, parseDuration, parseWithBuiltinTemplate } from './common';
+import { ArpEntry, DeviceFacts, InterfaceAddress, InterfaceState, LldpNeighbor, MacTableEntry } from './types';
+
+const INTERFACE_HEADER = /^(\S+) is (up|down|administratively down|deleted),\s*line protocol is (\S+)/;
+
+/**
+ * Split "show interfaces" style output into one block per interface
+ */
+function splitInterfaceBlocks(output: string): Array<{ name: string; status: string; protocol: string; body: string[] }> {
+	const blocks: Array<{ name: string; status: string; protocol: string; body: string[] }> = [];
+	for (const line of output.replace(/\r/g, '').split('\n')) {
+		const header = line.match(INTERFACE_HEADER);
+		if (header) {
+			blocks.push({ name: header[1], status: header[2], protocol: header[3].replace(/,$/, ''), body: [] });
+		} else if (blocks.length > 0) {
+			blocks[blocks.length - 1].body.push(line);
+		}
+	}
+	return blocks;
+}
+
+/**
+ * Facts from "show version", "show ip interface brief" and the configured domain name
+ */
+export function parseIosFacts(version: string, interfaces: string, domain: string): DeviceFacts {
+	const [row = {}] = parseWithBuiltinTemplate('cisco_ios', 'show version', version);
+	const hostname = firstValue(row.hostname);
+	const domainName = (domain.match(/^ip domain[ -]name\s+(\S+)/m) || [])[1];
+
+	return {
+		hostname,
+		fqdn: domainName && hostname ? `${hostname}.${domainName}` : hostname,
+		vendor: 'Cisco',
+		model: firstValue(row.hardware),
+		osVersion: firstValue(row.version),
+		serialNumber: firstValue(row.serial),
+		uptime: row.uptime ? parseDuration(firstValue(row.uptime)) : -1,
+		interfaceList: parseWithBuiltinTemplate('cisco_ios', 'show ip interface brief', interfaces).map((entry) =>
+			firstValue(entry.interface),
+		),
+	};
+}
+
+/**
+ * Interfaces from "show interfaces"
+ */
+export function parseIosInterfaces(output: string): InterfaceState[] {
+	return splitInterfaceBlocks(output).map((block) => {
+		const body = block.body.join('\n');
+		const mac = body.match(/address is ([0-9a-f.]{14})/i);
+		const mtu = body.match(/MTU (\d+) bytes/);
+		const bandwidth = body.match(/BW (\d+) Kbit/);
+		const description = body.match(/^\s+Description:\s*(.*?)\s*$/m);
+
+		return {
+			name: block.name,
+			isEnabled: block.status !== 'administratively down',
+			isUp: block.protocol === 'up',
+			description: description ? description[1] : '',
+			macAddress: mac ? normalizeMac(mac[1]) : '',
+			mtu: mtu ? Number(mtu[1]) : -1,
+			speed: bandwidth ? Math.round(Number(bandwidth[1]) / 1000) : -1,
+		};
+	});
+}
+
+/**
+ * Addresses from "show ip interface" and "show ipv6 interface"
+ */
+export function parseIosInterfaceAddresses(ipv4: string, ipv6: string): InterfaceAddress[] {
+	const addresses: InterfaceAddress[] = [];
+
+	for (const block of splitInterfaceBlocks(ipv4)) {
+		for (const line of block.body) {
+			const match = line.match(/^\s+(?:Internet address is|Secondary address) ([\d.]+)\/(\d+)/);
+			if (match) {
+				addresses.push({ interface: block.name, address: match[1], prefixLength: Number(match[2]), family: 'ipv4' });
+			}
+		}
+	}
+
+	for (const block of splitInterfaceBlocks(ipv6)) {
+		for (const line of block.body) {
+			const match = line.match(/^\s+([0-9A-F:]+), subnet is [0-9A-F:]+\/(\d+)/i);
+			if (match) {
+				addresses.push({
+					interface: block.name,
+					address: match[1].toLowerCase(),
+					prefixLength: Number(match[2]),
+					family: 'ipv6',
+				});
+			}
+		}
+	}
+
+	return addresses;
+}
+
+/**
+ * ARP entries from "show ip arp"; the age is printed in minutes, "-" for own addresses
+ */
+export function parseIosArpTable(output: string): ArpEntry[] {
+	const entries: ArpEntry[] = [];
+	for (const line of output.split('\n')) {
+		const match = line.match(/^Internet\s+([\d.]+)\s+(\S+)\s+([0-9a-f.]{14})\s+\S+\s*(\S*)/i);
+		if (match) {
+			entries.push({
+				interface: match[4],
+				mac: normalizeMac(match[3]),
+				ip: match[1],
+				age: match[2] === '-' ? -1 : Number(match[2]) * 60,
+			});
+		}
+	}
+	return entries;
+}
+
+/**
+ * Entries from "show mac address-table"
+ */
+export function parseIosMacTable(output: string): MacTableEntry[] {
+	const entries: MacTableEntry[] = [];
+	for (const line of output.split('\n')) {
+		const match = line.match(/^\s*\*?\s*(\d+|All)\s+([0-9a-f]{4}\.[0-9a-f]{4}\.[0-9a-f]{4})\s+(\S+)\s+(?:(?:Yes|No|-)\s+(?:\d+|-)\s+)?(.+?)\s*$/i);
+		if (match) {
+			entries.push({
+				mac: normalizeMac(match[2]),
+				interface: match[4],
+				vlan: match[1] === 'All' ? '' : match[1],
+				static: /static/i.test(match[3]),
+				active: true,
+			});
+		}
+	}
+	return entries;
+}
+
+/**
+ * Neighbors from "show lldp neighbors"
+ */
+export function parseIosLldpNeighbors(output: string): LldpNeighbor[] {
+	return parseWithBuiltinTemplate('cisco_ios', 'show lldp neighbors', output).map((row) => ({
+		localInterface: firstValue(row.local_interface),
+		hostname: firstValue(row.neighbor_name),
+		port: firstValue(row.neighbor_interface),
+	}));
+}
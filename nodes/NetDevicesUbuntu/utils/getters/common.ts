@@ -0,0 +1,156 @@
+import { TemplateIndex, TextFsmRow, getBuiltinTemplateEntries } from '../parsers';
+import { BgpNeighbor } from './types';
+
+let builtinIndex: TemplateIndex | null = null;
+
+/**
+ * Parse output with the built-in TextFSM template for the device type and command
+ * @returns Parsed rows, empty when no template matches
+ */
+export function parseWithBuiltinTemplate(deviceType: string, command: string, output: string): TextFsmRow[] {
+	if (!builtinIndex) {
+		builtinIndex = new TemplateIndex(getBuiltinTemplateEntries());
+	}
+	return builtinIndex.parse(deviceType, command, output) || [];
+}
+
+/**
+ * First value of a TextFSM field, which is a list for List values
+ */
+export function firstValue(value: string | string[] | undefined): string {
+	return (Array.isArray(value) ? value[0] : value) || '';
+}
+
+const DURATION_UNITS: { [unit: string]: number } = {
+	y: 31536000,
+	w: 604800,
+	d: 86400,
+	h: 3600,
+	m: 60,
+	s: 1,
+};
+
+/**
+ * Convert the uptime formats devices print into seconds: "1 year, 2 weeks, 3 minutes",
+ * "3w2d", "1d02h", "2d 01:02:03" and clocks, where h:m:s has three parts and m:s two
+ * @returns Seconds, or -1 when the text holds no duration ("never")
+ */
+export function parseDuration(text: string): number {
+	let value = text.trim().toLowerCase();
+	let seconds = 0;
+	let matched = false;
+
+	const clock = value.match(/(\d+):(\d{2})(?::(\d{2}))?/);
+	if (clock) {
+		seconds += clock[3] !== undefined
+			? Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3])
+			: Number(clock[1]) * 60 + Number(clock[2]);
+		matched = true;
+		value = value.replace(clock[0], ' ');
+	}
+
+	const unitPattern = /(\d+)\s*(years?|weeks?|days?|hours?|minutes?|mins?|seconds?|secs?|[ywdhms])/g;
+	for (const [, amount, unit] of value.matchAll(unitPattern)) {
+		seconds += Number(amount) * DURATION_UNITS[unit[0]];
+		matched = true;
+	}
+
+	return matched ? seconds : -1;
+}
+
+/**
+ * Write a MAC address as 00:50:56:BF:12:34, whether it came as 0050.56bf.1234,
+ * 00-50-56-bf-12-34 or 00:50:56:bf:12:34
+ */
+export function normalizeMac(mac: string): string {
+	const hex = mac.replace(/[^0-9a-f]/gi, '');
+	if (hex.length !== 12) {
+		return mac;
+	}
+	return hex.toUpperCase().match(/.{2}/g)!.join(':');
+}
+
+export function isMacAddress(token: string): boolean {
+	return /^(?:[0-9a-f]{4}\.[0-9a-f]{4}\.[0-9a-f]{4}|[0-9a-f]{2}(?:[:-][0-9a-f]{2}){5})$/i.test(token);
+}
+
+/**
+ * Prefix length of a dotted netmask such as 255.255.255.0
+ */
+export function netmaskToPrefixLength(netmask: string): number {
+	return netmask
+		.split('.')
+		.map((octet) => Number(octet).toString(2).replace(/0/g, '').length)
+		.reduce((total, bits) => total + bits, 0);
+}
+
+/**
+ * AS number from asplain or asdot notation (65000.100)
+ */
+export function parseAsNumber(value: string): number {
+	const [high, low] = value.split('.');
+	return low === undefined ? Number(high) : Number(high) * 65536 + Number(low);
+}
+
+/**
+ * Parse the "show ip bgp summary" table printed by Cisco IOS, FRR (VyOS) and
+ * FortiOS. Peers whose State/PfxRcd column holds a prefix count are up.
+ * FRR prints a block per VRF with "show bgp vrf all summary".
+ * @param output Command output
+ * @returns Neighbors, with "global" as the VRF of the default instance
+ */
+export function parseBgpSummary(output: string): BgpNeighbor[] {
+	const neighbors: BgpNeighbor[] = [];
+	let vrf = 'global';
+	let routerId = '';
+	let localAs = -1;
+
+	// A long IPv6 neighbor address wraps the rest of its row onto the next line
+	const lines = output.replace(/\r/g, '').split('\n');
+	for (let index = 0; index < lines.length; index++) {
+		let line = lines[index];
+		if (/^[0-9a-f:.]+\s*$/i.test(line) && /^\s+4\s+\d/.test(lines[index + 1] || '')) {
+			line = `${line.trim()} ${lines[++index].trim()}`;
+		}
+
+		const instance = line.match(/^Instance\s+(\S+?):?\s*$/);
+		if (instance) {
+			vrf = instance[1] === 'default' ? 'global' : instance[1];
+			continue;
+		}
+
+		const identifier = line.match(/BGP router identifier\s+([\d.]+),\s+local AS number\s+([\d.]+)(?:\s+vrf-id\s+\d+)?/i);
+		if (identifier) {
+			routerId = identifier[1];
+			localAs = parseAsNumber(identifier[2]);
+			continue;
+		}
+
+		const row = line.match(/^(\S+)\s+4\s+([\d.]+)\s+\d+\s+\d+\s+\d+\s+\d+\s+\d+\s+(\S+)\s+(.+?)\s*$/);
+		if (!row) {
+			continue;
+		}
+
+		const [, remoteAddress, remoteAs, upDown, rest] = row;
+		const counted = rest.match(/^(\d+)(?:\s+(?:\d+|\(Policy\)))?(?:\s+(.*))?$/);
+		const down = counted ? null : rest.match(/^(Idle\s+\([^)]*\)|\S+)(?:\s+(?:\d+|\S+))?(?:\s+(.*))?$/);
+		const state = counted ? 'Established' : down![1];
+		const description = ((counted ? counted[2] : down![2]) || '').trim();
+
+		neighbors.push({
+			vrf,
+			remoteAddress,
+			remoteAs: parseAsNumber(remoteAs),
+			localAs,
+			routerId,
+			isUp: !!counted,
+			isEnabled: !/admin|shut/i.test(state),
+			description: description === 'N/A' ? '' : description,
+			state,
+			uptime: counted ? parseDuration(upDown) : -1,
+			receivedPrefixes: counted ? Number(counted[1]) : -1,
+		});
+	}
+
+	return neighbors;
+}
@@ -0,0 +1,127 @@
+import { firstValue, netmaskToPrefixLength, normalizeMac, parseDuration, parseWithBuiltinTemplate } from './common';
+import { ArpEntry, DeviceFacts, InterfaceAddress, InterfaceState, LldpNeighbor } from './types';
+
+/**
+ * Split "get system interface" and "get system interface physical" output
+ * into the attributes of each "== [ port1 ]" section
+ */
+function parseInterfaceSections(output: string): Map<string, { [attribute: string]: string }> {
+	const sections = new Map<string, { [attribute: string]: string }>();
+	let current: { [attribute: string]: string } | null = null;
+
+	for (const line of output.replace(/\r/g, '').split('\n')) {
+		const header = line.match(/^==\s*\[\s*(\S+?)\s*\]/);
+		if (header) {
+			current = {};
+			sections.set(header[1], current);
+			continue;
+		}
+		if (!current) {
+			continue;
+		}
+		// Attributes are "name: value" pairs, several to a line in "get system interface"
+		for (const [, attribute, value] of line.matchAll(/([\w-]+):\s+(\S+(?:\s\d+\.\d+\.\d+\.\d+)?)/g)) {
+			if (!(attribute in current)) {
+				current[attribute] = value;
+			}
+		}
+	}
+
+	return sections;
+}
+
+/**
+ * Facts from "get system status", "get system performance status" and
+ * "get system interface physical"
+ */
+export function parseFortiosFacts(status: string, performance: string, physical: string): DeviceFacts {
+	const [row = {}] = parseWithBuiltinTemplate('fortinet_fortios', 'get system status', status);
+	const hostname = firstValue(row.hostname);
+	const uptime = performance.match(/^Uptime:\s*(.+?)\s*$/m);
+
+	return {
+		hostname,
+		fqdn: hostname,
+		vendor: 'Fortinet',
+		model: firstValue(row.model),
+		osVersion: [firstValue(row.version), row.build ? `build${firstValue(row.build)}` : ''].filter(Boolean).join(','),
+		serialNumber: firstValue(row.serial_number),
+		uptime: uptime ? parseDuration(uptime[1]) : -1,
+		interfaceList: [...parseInterfaceSections(physical).keys()],
+	};
+}
+
+/**
+ * Interfaces from "get system interface", with the link state and speed of
+ * physical ports from "get system interface physical". FortiOS does not
+ * print the MAC address, MTU or description in either.
+ */
+export function parseFortiosInterfaces(interfaces: string, physical: string): InterfaceState[] {
+	const links = parseInterfaceSections(physical);
+	return [...parseInterfaceSections(interfaces)].map(([name, attributes]) => {
+		const link = links.get(name);
+		const speed = link && link.speed ? link.speed.match(/^(\d+)Mbps/i) : null;
+		const isEnabled = attributes.status !== 'down';
+		return {
+			name,
+			isEnabled,
+			isUp: link ? link.status === 'up' : isEnabled,
+			description: '',
+			macAddress: '',
+			mtu: -1,
+			speed: speed ? Number(speed[1]) : -1,
+		};
+	});
+}
+
+/**
+ * IPv4 addresses from "get system interface" and IPv6 addresses from "get system interface physical"
+ */
+export function parseFortiosInterfaceAddresses(interfaces: string, physical: string): InterfaceAddress[] {
+	const addresses: InterfaceAddress[] = [];
+
+	for (const [name, attributes] of parseInterfaceSections(interfaces)) {
+		const ip = (attributes.ip || '').match(/^([\d.]+)\s+([\d.]+)$/);
+		if (ip && ip[1] !== '0.0.0.0') {
+			addresses.push({ interface: name, address: ip[1], prefixLength: netmaskToPrefixLength(ip[2]), family: 'ipv4' });
+		}
+	}
+
+	for (const [name, attributes] of parseInterfaceSections(physical)) {
+		const ipv6 = (attributes.ipv6 || '').match(/^([0-9a-f:]+)\/(\d+)$/i);
+		if (ipv6 && ipv6[1] !== '::') {
+			addresses.push({ interface: name, address: ipv6[1], prefixLength: Number(ipv6[2]), family: 'ipv6' });
+		}
+	}
+
+	return addresses;
+}
+
+/**
+ * ARP entries from "get system arp"; the age is printed in minutes
+ */
+export function parseFortiosArpTable(output: string): ArpEntry[] {
+	const entries: ArpEntry[] = [];
+	for (const line of output.split('\n')) {
+		const match = line.match(/^([\d.]+)\s+(\d+)\s+([0-9a-f:]{17})\s+(\S+)/i);
+		if (match) {
+			entries.push({ interface: match[4], mac: normalizeMac(match[3]), ip: match[1], age: Number(match[2]) * 60 });
+		}
+	}
+	return entries;
+}
+
+/**
+ * Neighbors from "diagnose lldprx neighbor summary"
+ */
+export function parseFortiosLldpNeighbors(output: string): LldpNeighbor[] {
+	const neighbors: LldpNeighbor[] = [];
+	for (const line of output.split('\n')) {
+		// Portname  Status  Device-name  TTL  Capability  MED-type  Port-ID
+		const match = line.match(/^(\S+)\s+Up\s+(\S+)\s+\d+\s+\S+\s+\S+\s+(\S+)\s*$/);
+		if (match) {
+			neighbors.push({ localInterface: match[1], hostname: match[2], port: match[3] });
+		}
+	}
+	return neighbors;
+}
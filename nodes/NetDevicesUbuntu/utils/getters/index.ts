@@ -0,0 +1,50 @@
+export {
+	ArpEntry,
+	BgpNeighbor,
+	DeviceFacts,
+	InterfaceAddress,
+	InterfaceState,
+	LldpNeighbor,
+	MacTableEntry,
+} from './types';
+export {
+	isMacAddress,
+	netmaskToPrefixLength,
+	normalizeMac,
+	parseAsNumber,
+	parseBgpSummary,
+	parseDuration,
+	parseWithBuiltinTemplate,
+} from './common';
+export {
+	parseIosArpTable,
+	parseIosFacts,
+	parseIosInterfaceAddresses,
+	parseIosInterfaces,
+	parseIosLldpNeighbors,
+	parseIosMacTable,
+} from './cisco-ios';
+export {
+	parseJunosArpTable,
+	parseJunosBgpNeighbors,
+	parseJunosFacts,
+	parseJunosInterfaceAddresses,
+	parseJunosInterfaces,
+	parseJunosLldpNeighbors,
+	parseJunosMacTable,
+} from './junos';
+export {
+	parseFortiosArpTable,
+	parseFortiosFacts,
+	parseFortiosInterfaceAddresses,
+	parseFortiosInterfaces,
+	parseFortiosLldpNeighbors,
+} from './fortios';
+export {
+	parseVyosArpTable,
+	parseVyosFacts,
+	parseVyosInterfaceAddresses,
+	parseVyosInterfaces,
+	parseVyosLldpNeighbors,
+	parseVyosMacTable,
+} from './vyos';
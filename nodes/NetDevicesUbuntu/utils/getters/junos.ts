@@ -0,0 +1,239 @@
+import { firstValue, isMacAddress, normalizeMac, parseAsNumber, parseDuration, parseWithBuiltinTemplate } from './common';
+import {
+	ArpEntry,
+	BgpNeighbor,
+	DeviceFacts,
+	InterfaceAddress,
+	InterfaceState,
+	LldpNeighbor,
+	MacTableEntry,
+} from './types';
+
+/**
+ * Facts from "show version", "show chassis hardware", "show system uptime",
+ * "show interfaces terse" and the configured domain name
+ */
+export function parseJunosFacts(
+	version: string,
+	hardware: string,
+	uptime: string,
+	interfaces: string,
+	domain: string,
+): DeviceFacts {
+	const [row = {}] = parseWithBuiltinTemplate('juniper_junos', 'show version', version);
+	const hostname = firstValue(row.hostname);
+	const domainName = (domain.match(/domain-name\s+([^;\s]+);/) || [])[1];
+	const serial = hardware.match(/^Chassis\s+(\S+)/m);
+
+	// "(1w2d 03:04 ago)" has hours and minutes, not minutes and seconds
+	const booted = uptime.match(/System booted:.*\((.+?) ago\)/);
+	const bootedFor = booted ? booted[1].replace(/(\d+):(\d{2})$/, '$1h $2m') : '';
+
+	return {
+		hostname,
+		fqdn: domainName && hostname ? `${hostname}.${domainName}` : hostname,
+		vendor: 'Juniper',
+		model: firstValue(row.model),
+		osVersion: firstValue(row.version),
+		serialNumber: serial ? serial[1] : '',
+		uptime: bootedFor ? parseDuration(bootedFor) : -1,
+		interfaceList: parseWithBuiltinTemplate('juniper_junos', 'show interfaces terse', interfaces)
+			.map((entry) => firstValue(entry.interface))
+			.filter((name) => !name.includes('.')),
+	};
+}
+
+/**
+ * Physical interfaces from "show interfaces"
+ */
+export function parseJunosInterfaces(output: string): InterfaceState[] {
+	const interfaces: InterfaceState[] = [];
+	let current: InterfaceState | null = null;
+
+	for (const line of output.replace(/\r/g, '').split('\n')) {
+		const header = line.match(/^Physical interface:\s+([^,\s]+),\s+(Enabled|Administratively down),\s+Physical link is (\w+)/);
+		if (header) {
+			current = {
+				name: header[1],
+				isEnabled: header[2] === 'Enabled',
+				isUp: header[3] === 'Up',
+				description: '',
+				macAddress: '',
+				mtu: -1,
+				speed: -1,
+			};
+			interfaces.push(current);
+			continue;
+		}
+		// Logical interfaces are reported by the address getter
+		if (/^\s+Logical interface/.test(line)) {
+			current = null;
+		}
+		if (!current) {
+			continue;
+		}
+
+		const description = line.match(/^\s+Description:\s*(.*?)\s*$/);
+		if (description) {
+			current.description = description[1];
+		}
+		const mtu = line.match(/MTU:\s*(\d+)/);
+		if (mtu) {
+			current.mtu = Number(mtu[1]);
+		}
+		const speed = line.match(/Speed:\s*(\d+)([mg])bps/i);
+		if (speed) {
+			current.speed = Number(speed[1]) * (speed[2].toLowerCase() === 'g' ? 1000 : 1);
+		}
+		const mac = line.match(/Current address:\s*([0-9a-f:]{17})/i);
+		if (mac) {
+			current.macAddress = normalizeMac(mac[1]);
+		}
+	}
+
+	return interfaces;
+}
+
+/**
+ * Addresses from "show interfaces terse"; continuation lines keep the
+ * interface and family of the line above
+ */
+export function parseJunosInterfaceAddresses(output: string): InterfaceAddress[] {
+	const addresses: InterfaceAddress[] = [];
+	let name = '';
+	let family = '';
+
+	for (const line of output.replace(/\r/g, '').split('\n')) {
+		const tokens = line.trim().split(/\s+/);
+		if (!line.trim() || /^Interface\s+Admin/.test(line)) {
+			continue;
+		}
+
+		let rest: string[];
+		if (!/^\s/.test(line)) {
+			// "ge-0/0/0.0  up  up  inet  10.0.0.1/24"
+			name = tokens[0];
+			family = tokens[3] || '';
+			rest = tokens.slice(4);
+		} else if (/^(inet6?|iso|mpls|eth-switch|tnp|vpls)$/.test(tokens[0])) {
+			family = tokens[0];
+			rest = tokens.slice(1);
+		} else {
+			rest = tokens;
+		}
+
+		const local = rest[0];
+		if (!local || (family !== 'inet' && family !== 'inet6')) {
+			continue;
+		}
+		const [address, prefixLength] = local.split('/');
+		addresses.push({
+			interface: name,
+			address,
+			prefixLength: prefixLength !== undefined ? Number(prefixLength) : family === 'inet' ? 32 : 128,
+			family: family === 'inet' ? 'ipv4' : 'ipv6',
+		});
+	}
+
+	return addresses;
+}
+
+/**
+ * ARP entries from "show arp no-resolve"; Junos does not print the age
+ */
+export function parseJunosArpTable(output: string): ArpEntry[] {
+	const entries: ArpEntry[] = [];
+	for (const line of output.split('\n')) {
+		const match = line.match(/^([0-9a-f:]{17})\s+([\d.]+)\s+(\S+)/i);
+		if (match) {
+			entries.push({ interface: match[3], mac: normalizeMac(match[1]), ip: match[2], age: -1 });
+		}
+	}
+	return entries;
+}
+
+/**
+ * Entries from "show ethernet-switching table", in the ELS and the older layout
+ */
+export function parseJunosMacTable(output: string): MacTableEntry[] {
+	const entries: MacTableEntry[] = [];
+	for (const line of output.split('\n')) {
+		const tokens = line.trim().split(/\s+/);
+		const macIndex = tokens.findIndex(isMacAddress);
+		if (macIndex < 1) {
+			continue;
+		}
+
+		// The interface is the last token that names a port, e.g. ge-0/0/1.0 or ae0.0
+		const port = tokens
+			.slice(macIndex + 1)
+			.reverse()
+			.find((token) => /^[a-z]+[-\d]/i.test(token) && /\d/.test(token));
+		const flags = tokens.slice(macIndex + 1).join(' ');
+		entries.push({
+			mac: normalizeMac(tokens[macIndex]),
+			interface: port || '',
+			vlan: tokens[macIndex - 1],
+			static: /\bS\b|Static/.test(flags),
+			active: true,
+		});
+	}
+	return entries;
+}
+
+/**
+ * Neighbors from "show lldp neighbors"
+ */
+export function parseJunosLldpNeighbors(output: string): LldpNeighbor[] {
+	return parseWithBuiltinTemplate('juniper_junos', 'show lldp neighbors', output).map((row) => ({
+		localInterface: firstValue(row.local_interface),
+		hostname: firstValue(row.neighbor_name),
+		port: firstValue(row.neighbor_interface),
+	}));
+}
+
+/**
+ * Neighbors from "show bgp summary", with the local AS and router ID taken
+ * from "show configuration routing-options". Peers in a routing instance
+ * are recognized by their RIB lines, e.g. "CUST-A.inet.0: 1/2/2/0".
+ */
+export function parseJunosBgpNeighbors(summary: string, routingOptions: string): BgpNeighbor[] {
+	const localAs = routingOptions.match(/autonomous-system\s+([\d.]+)/);
+	const routerId = routingOptions.match(/router-id\s+([\d.]+);/);
+	const neighbors: BgpNeighbor[] = [];
+	let current: BgpNeighbor | null = null;
+
+	for (const line of summary.replace(/\r/g, '').split('\n')) {
+		const row = line.match(/^([0-9a-f]*[.:][0-9a-f.:]*)\s+([\d.]+)\s+\d+\s+\d+\s+\d+\s+\d+\s+((?:\S+\s+)?\d+:\d+(?::\d+)?|\S+)\s+(.*?)\s*$/i);
+		if (row) {
+			const [, remoteAddress, remoteAs, upDown, rest] = row;
+			const counts = rest.match(/^(\d+)\/(\d+)\/(\d+)\/(\d+)/);
+			const isUp = rest.startsWith('Establ') || !!counts;
+			current = {
+				vrf: 'global',
+				remoteAddress,
+				remoteAs: parseAsNumber(remoteAs),
+				localAs: localAs ? parseAsNumber(localAs[1]) : -1,
+				routerId: routerId ? routerId[1] : '',
+				isUp,
+				isEnabled: true,
+				description: '',
+				state: isUp ? 'Established' : rest.split(/\s+/)[0],
+				uptime: isUp ? parseDuration(upDown) : -1,
+				receivedPrefixes: counts ? Number(counts[2]) : isUp ? 0 : -1,
+			};
+			neighbors.push(current);
+			continue;
+		}
+
+		const rib = line.match(/^\s+(?:(\S+)\.)?inet6?\.0:\s+(\d+)\/(\d+)\/(\d+)\/(\d+)/);
+		if (rib && current) {
+			if (rib[1]) {
+				current.vrf = rib[1];
+			}
+			current.receivedPrefixes = Math.max(current.receivedPrefixes, 0) + Number(rib[3]);
+		}
+	}
+
+	return neighbors;
+}
@@ -0,0 +1,68 @@
+/**
+ * Normalized device state, the same on every platform. Times are in seconds,
+ * speeds in Mbit/s, MAC addresses in upper-case colon notation, and -1 or an
+ * empty string stands for a value the platform does not report.
+ */
+
+export interface DeviceFacts {
+	hostname: string;
+	fqdn: string;
+	vendor: string;
+	model: string;
+	osVersion: string;
+	serialNumber: string;
+	uptime: number;
+	interfaceList: string[];
+}
+
+export interface InterfaceState {
+	name: string;
+	isEnabled: boolean;
+	isUp: boolean;
+	description: string;
+	macAddress: string;
+	mtu: number;
+	speed: number;
+}
+
+export interface InterfaceAddress {
+	interface: string;
+	address: string;
+	prefixLength: number;
+	family: 'ipv4' | 'ipv6';
+}
+
+export interface ArpEntry {
+	interface: string;
+	mac: string;
+	ip: string;
+	age: number;
+}
+
+export interface MacTableEntry {
+	mac: string;
+	interface: string;
+	vlan: string;
+	static: boolean;
+	active: boolean;
+}
+
+export interface LldpNeighbor {
+	localInterface: string;
+	hostname: string;
+	port: string;
+}
+
+export interface BgpNeighbor {
+	vrf: string;
+	remoteAddress: string;
+	remoteAs: number;
+	localAs: number;
+	routerId: string;
+	isUp: boolean;
+	isEnabled: boolean;
+	description: string;
+	state: string;
+	uptime: number;
+	receivedPrefixes: number;
+}
@@ -0,0 +1,128 @@
+import { firstValue, normalizeMac, parseWithBuiltinTemplate } from './common';
+import { ArpEntry, DeviceFacts, InterfaceAddress, InterfaceState, LldpNeighbor, MacTableEntry } from './types';
+
+function listValues(value: string | string[] | undefined): string[] {
+	return (Array.isArray(value) ? value : value ? [value] : []).filter((entry) => entry && entry !== '-');
+}
+
+/**
+ * Facts from "show version", "show host name", /proc/uptime and "show interfaces"
+ */
+export function parseVyosFacts(version: string, hostname: string, uptime: string, interfaces: string): DeviceFacts {
+	const field = (name: string) => (version.match(new RegExp(`^${name}:\\s*(.*?)\\s*$`, 'm')) || [])[1] || '';
+	const seconds = uptime.match(/^\s*([\d.]+)/);
+	const name = hostname.trim().split('\n').pop()!.trim();
+
+	return {
+		hostname: name,
+		fqdn: name,
+		vendor: 'VyOS',
+		model: field('Hardware model'),
+		osVersion: field('Version').replace(/^VyOS\s+/, ''),
+		serialNumber: field('Hardware S/N'),
+		uptime: seconds ? Math.floor(Number(seconds[1])) : -1,
+		interfaceList: parseWithBuiltinTemplate('vyos', 'show interfaces', interfaces).map((row) => firstValue(row.interface)),
+	};
+}
+
+/**
+ * Interfaces from "show interfaces" (S/L column: u up, D down, A admin down),
+ * with the MAC address and MTU from "ip -o link show"
+ */
+export function parseVyosInterfaces(interfaces: string, links: string): InterfaceState[] {
+	const kernel = new Map<string, { mac: string; mtu: number }>();
+	for (const line of links.split('\n')) {
+		const match = line.match(/^\d+:\s+([^:@\s]+)(?:@\S+)?:\s.*?\bmtu (\d+)(?:.*?link\/\w+ ([0-9a-f:]{17}))?/i);
+		if (match) {
+			kernel.set(match[1], { mac: match[3] ? normalizeMac(match[3]) : '', mtu: Number(match[2]) });
+		}
+	}
+
+	return parseWithBuiltinTemplate('vyos', 'show interfaces', interfaces).map((row) => {
+		const name = firstValue(row.interface);
+		const link = kernel.get(name);
+		return {
+			name,
+			isEnabled: firstValue(row.state) !== 'A',
+			isUp: firstValue(row.state) === 'u' && firstValue(row.link) === 'u',
+			description: firstValue(row.description),
+			macAddress: link ? link.mac : '',
+			mtu: link ? link.mtu : -1,
+			speed: -1,
+		};
+	});
+}
+
+/**
+ * Addresses from "show interfaces"
+ */
+export function parseVyosInterfaceAddresses(interfaces: string): InterfaceAddress[] {
+	const addresses: InterfaceAddress[] = [];
+	for (const row of parseWithBuiltinTemplate('vyos', 'show interfaces', interfaces)) {
+		for (const value of listValues(row.ip_address)) {
+			const [address, prefixLength] = value.split('/');
+			const family = address.includes(':') ? 'ipv6' : 'ipv4';
+			addresses.push({
+				interface: firstValue(row.interface),
+				address,
+				prefixLength: prefixLength !== undefined ? Number(prefixLength) : family === 'ipv4' ? 32 : 128,
+				family,
+			});
+		}
+	}
+	return addresses;
+}
+
+/**
+ * ARP entries from "ip -4 neigh show"; the kernel does not report an age
+ */
+export function parseVyosArpTable(output: string): ArpEntry[] {
+	const entries: ArpEntry[] = [];
+	for (const line of output.split('\n')) {
+		const match = line.match(/^([\d.]+)\s+dev\s+(\S+)\s+lladdr\s+([0-9a-f:]{17})/i);
+		if (match) {
+			entries.push({ interface: match[2], mac: normalizeMac(match[3]), ip: match[1], age: -1 });
+		}
+	}
+	return entries;
+}
+
+/**
+ * Bridge entries from "bridge fdb show"; entries the bridge did not learn are skipped
+ */
+export function parseVyosMacTable(output: string): MacTableEntry[] {
+	const entries: MacTableEntry[] = [];
+	for (const line of output.split('\n')) {
+		const match = line.match(/^([0-9a-f:]{17})\s+dev\s+(\S+)(?:\s+vlan\s+(\d+))?.*\bmaster\s+\S+/i);
+		if (match) {
+			entries.push({
+				mac: normalizeMac(match[1]),
+				interface: match[2],
+				vlan: match[3] || '',
+				static: /\b(?:permanent|static)\b/.test(line),
+				active: true,
+			});
+		}
+	}
+	return entries;
+}
+
+/**
+ * Neighbors from "show lldp neighbors"; the platform column may contain
+ * spaces, so the port is the last column
+ */
+export function parseVyosLldpNeighbors(output: string): LldpNeighbor[] {
+	const neighbors: LldpNeighbor[] = [];
+	let inTable = false;
+	for (const line of output.replace(/\r/g, '').split('\n')) {
+		if (/^-+\s+-+/.test(line)) {
+			inTable = true;
+			continue;
+		}
+		const tokens = line.trim().split(/\s+/);
+		if (inTable && tokens.length >= 3) {
+			neighbors.push({ localInterface: tokens[1], hostname: tokens[0], port: tokens[tokens.length - 1] });
+		}
+	}
+	return neighbors;
+}
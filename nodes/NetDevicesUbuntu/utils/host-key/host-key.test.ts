@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import { describe, it } from 'node:test';
+import { getHostKeyFingerprint, getHostKeyType, HostKeyMismatchError, HostKeyStore, HostKeyVerifier } from './host-key';
+
+// Host key blob of a type: the type as an SSH string followed by key material
+function hostKey(type: string): Buffer {
+	const name = Buffer.from(type);
+	const length = Buffer.alloc(4);
+	length.writeUInt32BE(name.length);
+	return Buffer.concat([length, name, randomBytes(32)]);
+}
+
+describe('getHostKeyType', () => {
+	it('reads the type at the start of the key blob', () => {
+		assert.equal(getHostKeyType(hostKey('ssh-ed25519')), 'ssh-ed25519');
+		assert.equal(getHostKeyType(Buffer.from([0, 0, 0, 9, 1])), undefined);
+	});
+});
+
+describe('HostKeyVerifier', () => {
+	it('trusts one key per type on first use', () => {
+		const store: HostKeyStore = {};
+		const ed25519 = hostKey('ssh-ed25519');
+		const rsa = hostKey('ssh-rsa');
+		assert.ok(new HostKeyVerifier('r1', 22, { store }).verify(ed25519));
+		assert.ok(new HostKeyVerifier('r1', 22, { store }).verify(rsa));
+		assert.deepEqual(store['r1:22'], { 'ssh-ed25519': getHostKeyFingerprint(ed25519), 'ssh-rsa': getHostKeyFingerprint(rsa) });
+		assert.ok(new HostKeyVerifier('r1', 22, { store }).verify(ed25519));
+	});
+
+	it('reports a changed key of a known type as a mismatch', () => {
+		const store: HostKeyStore = {};
+		new HostKeyVerifier('r1', 22, { store }).verify(hostKey('ssh-ed25519'));
+		const verifier = new HostKeyVerifier('r1', 22, { store });
+		assert.equal(verifier.verify(hostKey('ssh-ed25519')), false);
+		assert.ok(verifier.error instanceof HostKeyMismatchError);
+	});
+
+	it('checks known_hosts entries against keys of their type only', () => {
+		const ed25519 = hostKey('ssh-ed25519');
+		const knownHosts = `r1 ssh-ed25519 ${ed25519.toString('base64')}`;
+		const other = new HostKeyVerifier('r1', 22, { policy: 'strict', knownHosts });
+		assert.equal(other.verify(hostKey('ecdsa-sha2-nistp256')), false);
+		assert.ok(other.error && !(other.error instanceof HostKeyMismatchError));
+
+		const changed = new HostKeyVerifier('r1', 22, { policy: 'strict', knownHosts });
+		assert.equal(changed.verify(hostKey('ssh-ed25519')), false);
+		assert.ok(changed.error instanceof HostKeyMismatchError);
+		assert.ok(new HostKeyVerifier('r1', 22, { policy: 'strict', knownHosts }).verify(ed25519));
+	});
+
+	it('accepts a store entry of unknown type once and keeps it with its type', () => {
+		const rsa = hostKey('ssh-rsa');
+		const store: HostKeyStore = { 'r1:22': getHostKeyFingerprint(rsa) };
+		const other = new HostKeyVerifier('r1', 22, { store });
+		assert.equal(other.verify(hostKey('ssh-ed25519')), false);
+		assert.ok(other.error && !(other.error instanceof HostKeyMismatchError));
+		assert.ok(new HostKeyVerifier('r1', 22, { store }).verify(rsa));
+		assert.deepEqual(store['r1:22'], { 'ssh-rsa': getHostKeyFingerprint(rsa) });
+	});
+
+	it('puts the host key algorithms of known key types first', () => {
+		const store: HostKeyStore = { 'r1:22': { 'ssh-rsa': getHostKeyFingerprint(hostKey('ssh-rsa')) } };
+		const verifier = new HostKeyVerifier('r1', 22, { store });
+		assert.deepEqual(verifier.preferKnownKeyTypes(['ssh-ed25519', 'ecdsa-sha2-nistp256', 'rsa-sha2-512', 'rsa-sha2-256']), [
+			'rsa-sha2-512',
+			'rsa-sha2-256',
+			'ssh-ed25519',
+			'ecdsa-sha2-nistp256',
+		]);
+		assert.deepEqual(new HostKeyVerifier('r2', 22, { store }).preferKnownKeyTypes(['ssh-ed25519', 'rsa-sha2-512']), [
+			'ssh-ed25519',
+			'rsa-sha2-512',
+		]);
+	});
+});
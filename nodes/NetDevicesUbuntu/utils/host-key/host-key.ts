@@ -0,0 +1,273 @@
+import { createHash, createHmac } from 'crypto';
+
+/**
+ * How server host keys are checked:
+ * - strict: the key must match a pinned fingerprint or a known_hosts entry
+ * - trustOnFirstUse: pinned keys are checked when configured, otherwise the
+ *   first key seen is stored and later connections must present the same key
+ * - off: any key is accepted
+ */
+export type HostKeyPolicy = 'strict' | 'trustOnFirstUse' | 'off';
+
+// Fingerprints trusted on first use, by "host:port" and key type such as
+// "ssh-ed25519". Stores written by older versions hold one fingerprint of
+// unknown type per server.
+export interface HostKeyStore {
+	[hostPort: string]: string | { [keyType: string]: string };
+}
+
+export interface HostKeyOptions {
+	policy?: HostKeyPolicy;
+	// Pinned fingerprints in the "SHA256:..." form, one per line or separated by commas
+	fingerprints?: string;
+	// Entries in OpenSSH known_hosts format
+	knownHosts?: string;
+	store?: HostKeyStore;
+}
+
+interface KnownHostsEntry {
+	marker?: string;
+	hosts: string[];
+	keyType: string;
+	fingerprint: string;
+}
+
+/**
+ * The server presented a different key than the one pinned, listed in
+ * known_hosts or trusted on first use
+ */
+export class HostKeyMismatchError extends Error {
+	constructor(
+		readonly host: string,
+		readonly port: number,
+		readonly fingerprint: string,
+		readonly expected: string[],
+	) {
+		super(
+			`Host key verification failed for ${host}:${port}: the server presented ${fingerprint}, expected ${expected.join(' or ')}. ` +
+				'The host key has changed or the connection is being intercepted',
+		);
+		this.name = 'HostKeyMismatchError';
+	}
+}
+
+/**
+ * Fingerprint of a host key in the form OpenSSH prints it
+ * @param key Host key blob
+ * @returns "SHA256:" followed by the unpadded base64 digest
+ */
+export function getHostKeyFingerprint(key: Buffer): string {
+	return `SHA256:${createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`;
+}
+
+/**
+ * Key type of a host key, e.g. "ssh-ed25519" or "ecdsa-sha2-nistp256"
+ * @param key Host key blob, which starts with its type as an SSH string
+ * @returns Key type, or undefined for a blob too short to hold one
+ */
+export function getHostKeyType(key: Buffer): string | undefined {
+	if (key.length < 4 || key.readUInt32BE(0) > key.length - 4) {
+		return undefined;
+	}
+	return key.subarray(4, 4 + key.readUInt32BE(0)).toString('latin1');
+}
+
+// Key type of the keys a host key algorithm signs with; RSA keys sign with SHA-1 or SHA-2
+function keyTypeOfAlgorithm(algorithm: string): string {
+	return /^rsa-sha2-/.test(algorithm) ? 'ssh-rsa' : algorithm;
+}
+
+/**
+ * Parse pinned fingerprints, one per line or separated by commas, with or
+ * without the "SHA256:" prefix and padding. Whole "ssh-keygen -lf" lines such
+ * as "256 SHA256:... root@host (ED25519)" are accepted.
+ * @throws Error for anything that is not a SHA256 fingerprint
+ */
+export function parseFingerprints(text = ''): string[] {
+	return text
+		.split(/[\n,]+/)
+		.map((entry) => entry.trim())
+		.filter((entry) => entry !== '')
+		.map((entry) => {
+			const token = (entry.match(/SHA256:\S+/i) || [entry])[0];
+			const digest = token.replace(/^SHA256:/i, '').replace(/=+$/, '');
+			if (!/^[A-Za-z0-9+/]{43}$/.test(digest)) {
+				throw new Error(`Invalid host key fingerprint "${entry}", expected the SHA256:... form printed by "ssh-keygen -lf"`);
+			}
+			return `SHA256:${digest}`;
+		});
+}
+
+function parseKnownHosts(text = ''): KnownHostsEntry[] {
+	const entries: KnownHostsEntry[] = [];
+	text.split('\n').forEach((raw, index) => {
+		const line = raw.trim();
+		if (line === '' || line.startsWith('#')) {
+			return;
+		}
+		const fields = line.split(/\s+/);
+		const marker = fields[0].startsWith('@') ? fields.shift() : undefined;
+		if (fields.length < 3) {
+			throw new Error(`Invalid known_hosts entry on line ${index + 1}`);
+		}
+		entries.push({
+			marker,
+			hosts: fields[0].split(','),
+			keyType: fields[1],
+			fingerprint: getHostKeyFingerprint(Buffer.from(fields[2], 'base64')),
+		});
+	});
+	return entries;
+}
+
+// known_hosts names hosts on the default port by name only and others as "[host]:port"
+function matchesHostPattern(pattern: string, host: string, port: number): boolean {
+	const name = port === 22 ? host : `[${host}]:${port}`;
+	const hashed = pattern.match(/^\|1\|([^|]+)\|(.+)$/);
+	if (hashed) {
+		return createHmac('sha1', Buffer.from(hashed[1], 'base64')).update(name).digest('base64') === hashed[2];
+	}
+	const source = pattern
+		.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		.replace(/\*/g, '.*')
+		.replace(/\?/g, '.');
+	return new RegExp(`^${source}$`, 'i').test(name);
+}
+
+function matchesHost(entry: KnownHostsEntry, host: string, port: number): boolean {
+	const negated = entry.hosts.filter((pattern) => pattern.startsWith('!'));
+	if (negated.some((pattern) => matchesHostPattern(pattern.slice(1), host, port))) {
+		return false;
+	}
+	return entry.hosts.some((pattern) => !pattern.startsWith('!') && matchesHostPattern(pattern, host, port));
+}
+
+/**
+ * Host key check for one server, passed to ssh2 as its hostVerifier. Like
+ * OpenSSH, known_hosts entries and keys trusted on first use are kept per key
+ * type: a key is only a mismatch when a different key of the same type is
+ * known, since another algorithm profile may negotiate another of the
+ * server's keys. ssh2 only reports a generic failure when the verifier rejects
+ * the key, so the reason is kept in `error` for the connection to report
+ * instead.
+ */
+export class HostKeyVerifier {
+	error?: Error;
+	fingerprint?: string;
+
+	private readonly policy: HostKeyPolicy;
+	// Pinned fingerprints do not name their key type, so they match keys of any type
+	private readonly pinned: string[];
+	private readonly known: { [keyType: string]: string[] } = {};
+	private readonly revoked: string[];
+
+	constructor(
+		private readonly host: string,
+		private readonly port: number,
+		private readonly options: HostKeyOptions = {},
+	) {
+		this.policy = options.policy || 'trustOnFirstUse';
+		const knownHosts = parseKnownHosts(options.knownHosts).filter((entry) => matchesHost(entry, host, port));
+		this.pinned = parseFingerprints(options.fingerprints);
+		for (const entry of knownHosts.filter((candidate) => candidate.marker === undefined)) {
+			this.known[entry.keyType] = [...(this.known[entry.keyType] || []), entry.fingerprint];
+		}
+		this.revoked = knownHosts.filter((entry) => entry.marker === '@revoked').map((entry) => entry.fingerprint);
+	}
+
+	private get storeKey(): string {
+		return `${this.host}:${this.port}`;
+	}
+
+	/**
+	 * Key types known for the server from known_hosts or trusted on first use
+	 */
+	knownKeyTypes(): string[] {
+		const stored = this.policy === 'trustOnFirstUse' && this.options.store ? this.options.store[this.storeKey] : undefined;
+		const types = [...Object.keys(this.known), ...(stored && typeof stored === 'object' ? Object.keys(stored) : [])];
+		return types.filter((type, index) => types.indexOf(type) === index);
+	}
+
+	/**
+	 * Order host key algorithms so those of the known key types come first, as
+	 * OpenSSH does, and the server presents a key that can be checked
+	 * @param algorithms Host key algorithms in order of preference
+	 */
+	preferKnownKeyTypes<T extends string>(algorithms: T[]): T[] {
+		const types = this.knownKeyTypes();
+		if (this.policy === 'off' || types.length === 0) {
+			return algorithms;
+		}
+		const isKnown = (algorithm: T) => types.includes(keyTypeOfAlgorithm(algorithm));
+		return [...algorithms.filter(isKnown), ...algorithms.filter((algorithm) => !isKnown(algorithm))];
+	}
+
+	verify = (key: Buffer): boolean => {
+		const fingerprint = getHostKeyFingerprint(key);
+		const keyType = getHostKeyType(key) || 'unknown';
+		this.fingerprint = fingerprint;
+		this.error = undefined;
+
+		if (this.policy === 'off') {
+			return true;
+		}
+		if (this.revoked.includes(fingerprint)) {
+			this.error = new Error(`Host key ${fingerprint} of ${this.host}:${this.port} is marked @revoked in known_hosts`);
+			return false;
+		}
+		if (this.pinned.length > 0 || Object.keys(this.known).length > 0) {
+			const sameType = this.known[keyType] || [];
+			if (this.pinned.includes(fingerprint) || sameType.includes(fingerprint)) {
+				return true;
+			}
+			if (sameType.length > 0) {
+				this.error = new HostKeyMismatchError(this.host, this.port, fingerprint, [...this.pinned, ...sameType]);
+			} else {
+				this.error = new Error(
+					`Host key verification failed for ${this.host}:${this.port}: the server presented the ${keyType} key ${fingerprint}, ` +
+						'which matches no pinned fingerprint and has no known_hosts entry of its type',
+				);
+			}
+			return false;
+		}
+		if (this.policy === 'strict') {
+			this.error = new Error(
+				`No pinned fingerprint or known_hosts entry for ${this.host}:${this.port}; the server presented ${fingerprint}. ` +
+					'Add it to the credential to connect with the Strict host key policy',
+			);
+			return false;
+		}
+
+		// Trust on first use; without a store every connection is a first use
+		const store = this.options.store;
+		const stored = store ? store[this.storeKey] : undefined;
+		if (!store || stored === undefined) {
+			if (store) {
+				store[this.storeKey] = { [keyType]: fingerprint };
+			}
+			return true;
+		}
+		if (typeof stored === 'string') {
+			// An older entry of unknown type is kept until a key matches it, then stored with its type
+			if (stored === fingerprint) {
+				store[this.storeKey] = { [keyType]: fingerprint };
+				return true;
+			}
+			this.error = new Error(
+				`Host key verification failed for ${this.host}:${this.port}: the server presented the ${keyType} key ${fingerprint}, ` +
+					`the key trusted on first use is ${stored}`,
+			);
+			return false;
+		}
+		// A key of a type not seen before is trusted on first use as well, as OpenSSH's accept-new does
+		if (stored[keyType] === undefined) {
+			stored[keyType] = fingerprint;
+			return true;
+		}
+		if (stored[keyType] === fingerprint) {
+			return true;
+		}
+		this.error = new HostKeyMismatchError(this.host, this.port, fingerprint, [stored[keyType]]);
+		return false;
+	};
+}
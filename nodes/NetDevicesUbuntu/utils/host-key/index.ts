@@ -0,0 +1,10 @@
+export {
+	getHostKeyFingerprint,
+	getHostKeyType,
+	parseFingerprints,
+	HostKeyMismatchError,
+	HostKeyOptions,
+	HostKeyPolicy,
+	HostKeyStore,
+	HostKeyVerifier,
+} from './host-key';
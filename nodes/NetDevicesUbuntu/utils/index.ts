@@ -1,5 +1,24 @@
 // Base connection classes
-export { BaseConnection, DeviceCredentials, CommandResult, JumpHostConfig } from './base-connection';
+export {
+    BaseConnection,
+    DeviceCredentials,
+    DeviceStateResult,
+    CommandResult,
+    TimedCommandResult,
+    ConfigValidationResult,
+    ConfigRevision,
+    ConfigRevisionsResult,
+    InteractiveStep,
+    InteractiveStepResult,
+    InteractiveCommandResult,
+    FileTransferResult,
+    FreeSpaceResult,
+    PingOptions,
+    PingResult,
+    SoftwareVersionResult,
+    TracerouteResult,
+    JumpHostConfig,
+} from './base-connection';
 
 // Vendor-specific connection classes
 export { CiscoConnection, CiscoIOSXRConnection, CiscoSG300Connection } from './cisco';
@@ -11,6 +30,24 @@ export { FortinetConnection } from './fortinet';
 export { EricssonConnection, EricssonMinilinkConnection } from './ericsson';
 export { VyosConnection } from './vyos';
 
+// Host key verification
+export { getHostKeyFingerprint, HostKeyMismatchError, HostKeyPolicy, HostKeyStore, HostKeyVerifier } from './host-key';
+
+// SSH algorithm profiles
+export {
+    ALGORITHM_PROFILES,
+    getAlgorithmProfiles,
+    parseAlgorithmList,
+    AlgorithmProfileName,
+    AlgorithmProfileSetting,
+    NegotiatedSshAlgorithms,
+    SshAlgorithmOverrides,
+    SshAlgorithms,
+} from './ssh-algorithms';
+
+// Keyboard-interactive authentication
+export { generateTotp, KeyboardInteractiveResponder } from './keyboard-interactive';
+
 // Jump host connection
 export { JumpHostConnection } from './jump-host-connection';
 
@@ -21,4 +58,65 @@ export {
     ConnectHandlerWithAutoDetect,
     SupportedDeviceType,
     ConnectionClassMapping 
-} from './connection-dispatcher'; 
\ No newline at end of file
+} from './connection-dispatcher'; 
+
+// Output parsers
+export { TextFsmTemplate, TextFsmError, TextFsmRow, TemplateIndex, TemplateIndexEntry, parseTextFsm, BUILTIN_TEMPLATES, getBuiltinTemplateEntries } from './parsers';
+
+// Configuration comparison, backup, commit-confirmed and parsing
+export {
+    diffConfig,
+    normalizeConfig,
+    ConfigDiff,
+    ConfigDiffOptions,
+    DEFAULT_BACKUP_FILE_NAME,
+    formatFileTimestamp,
+    renderFileName,
+    runCommitConfirmed,
+    COMMIT_CONFIRMED_RECONNECT_ATTEMPTS,
+    sha256,
+    CommitConfirmedResult,
+    ConfigLine,
+    ConfigTree,
+    detectConfigSyntax,
+    ConfigSyntax,
+    ConfigTreeNode,
+    getPendingConfig,
+    PendingConfig,
+    generateRemediation,
+    RemediationPlan,
+} from './config';
+
+// Compliance rules
+export { checkCompliance, parseComplianceRules, ComplianceReport, ComplianceRule, ComplianceRuleResult } from './compliance';
+
+// Configuration templates
+export { renderConfigTemplate, ipaddr, netmask, prefixLength, wildcard } from './template';
+
+// File transfer
+export { getRemoteFileName, ChecksumAlgorithm, TransferMethod } from './transfer';
+
+// Ping, traceroute and connection diagnostics
+export {
+    parsePingOutput,
+    parseTracerouteOutput,
+    PingStatistics,
+    TracerouteHop,
+    diagnoseConnection,
+    ConnectionDiagnosis,
+    DiagnosticStep,
+} from './diagnostics';
+
+// Normalized getters
+export {
+    ArpEntry,
+    BgpNeighbor,
+    DeviceFacts,
+    InterfaceAddress,
+    InterfaceState,
+    LldpNeighbor,
+    MacTableEntry,
+} from './getters';
+
+// Software upgrade
+export { runSoftwareUpgrade, SOFTWARE_STAGING_TIMEOUT, SoftwareUpgradeResult } from './upgrade';
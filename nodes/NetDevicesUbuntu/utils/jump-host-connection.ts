@@ -1,5 +1,8 @@
 import { Client, ConnectConfig } from 'ssh2';
 import { BaseConnection, DeviceCredentials, formatSSHPrivateKey, validateSSHPrivateKey } from './base-connection';
+import { HostKeyMismatchError, HostKeyVerifier } from './host-key';
+import { KeyboardInteractiveResponder } from './keyboard-interactive';
+import { NegotiatedSshAlgorithms, SshAlgorithms, mergeAlgorithms, summarizeNegotiatedAlgorithms } from './ssh-algorithms';
 
 // Try to import n8n's LoggerProxy for proper logging
 let Logger: any;
@@ -19,6 +22,7 @@ export class JumpHostConnection extends BaseConnection {
     private jumpHostClient: Client;
     private tunnelStream: any;
     protected jumpHostConnected: boolean = false;
+    private jumpHostNegotiatedAlgorithms?: NegotiatedSshAlgorithms;
 
     constructor(credentials: DeviceCredentials) {
         super(credentials);
@@ -48,6 +52,10 @@ export class JumpHostConnection extends BaseConnection {
             });
             this.jumpHostConnected = false;
         });
+
+        this.jumpHostClient.on('handshake', (negotiated) => {
+            this.jumpHostNegotiatedAlgorithms = summarizeNegotiatedAlgorithms(negotiated);
+        });
     }
 
     private setupTargetConnectionEventHandlers(): void {
@@ -91,6 +99,10 @@ export class JumpHostConnection extends BaseConnection {
             this.isConnected = false;
             this.emit('close');
         });
+
+        this.client.on('handshake', (negotiated) => {
+            this.negotiatedAlgorithms = summarizeNegotiatedAlgorithms(negotiated);
+        });
     }
 
     async connect(): Promise<void> {
@@ -140,8 +152,8 @@ export class JumpHostConnection extends BaseConnection {
                 hasPassword: !!this.credentials.jumpHostPassword
             });
 
-            // Use the same algorithm selection logic as base connection
-            const algorithms = this.getOptimizedAlgorithms();
+            // The jump host is a plain SSH server, so the profile order does not depend on the device type
+            const algorithms = this.getOptimizedAlgorithms('', this.credentials.jumpHostAlgorithms);
             Logger.debug('Trying jump host SSH connection with algorithm configurations', {
                 algorithmCount: algorithms.length,
                 authMethod: this.credentials.jumpHostAuthMethod
@@ -178,6 +190,11 @@ export class JumpHostConnection extends BaseConnection {
                         resolve();
                     })
                     .catch((error) => {
+                        // A rejected host key is the same with every algorithm configuration
+                        if (error instanceof HostKeyMismatchError) {
+                            reject(error);
+                            return;
+                        }
                         lastError = error;
                         algorithmIndex++;
                         Logger.warn('Jump host connection failed with algorithm config', {
@@ -194,16 +211,43 @@ export class JumpHostConnection extends BaseConnection {
         });
     }
 
-    private async tryJumpHostConnectWithConfig(algorithms: any): Promise<void> {
+    private async tryJumpHostConnectWithConfig(algorithms: SshAlgorithms): Promise<void> {
         return new Promise((resolve, reject) => {
             const connectConfig: ConnectConfig = {
                 host: this.credentials.jumpHostHost!,
                 port: this.credentials.jumpHostPort!,
                 username: this.credentials.jumpHostUsername!,
-                readyTimeout: this.timeout,
-                algorithms: algorithms
+                readyTimeout: this.timeout
+            };
+
+            // Check the jump host key against the credential's policy
+            let hostKeyVerifier: HostKeyVerifier;
+            try {
+                hostKeyVerifier = this.createHostKeyVerifier(
+                    this.credentials.jumpHostHost!,
+                    this.credentials.jumpHostPort!,
+                    this.credentials.jumpHostFingerprints,
+                    this.credentials.jumpHostKnownHosts
+                );
+            } catch (error) {
+                reject(error);
+                return;
+            }
+            connectConfig.hostVerifier = hostKeyVerifier.verify;
+            // Ask for a key of a type already known for the jump host, so it can be checked
+            connectConfig.algorithms = {
+                ...algorithms,
+                serverHostKey: hostKeyVerifier.preferKnownKeyTypes(algorithms.serverHostKey)
             };
 
+            let promptResponder: KeyboardInteractiveResponder | undefined;
+            try {
+                promptResponder = this.createKeyboardInteractiveResponder(true);
+            } catch (error) {
+                reject(error);
+                return;
+            }
+
             // Configure jump host authentication
             if (this.credentials.jumpHostAuthMethod === 'privateKey') {
                 if (!this.credentials.jumpHostPrivateKey) {
@@ -316,6 +360,13 @@ export class JumpHostConnection extends BaseConnection {
                 });
             }
 
+            // Mapped prompts are answered after the password or key, e.g. for a second factor
+            if (promptResponder) {
+                connectConfig.tryKeyboard = true;
+                this.jumpHostClient.removeAllListeners('keyboard-interactive');
+                this.jumpHostClient.on('keyboard-interactive', promptResponder.respond);
+            }
+
             Logger.debug('Connecting to jump host', {
                 jumpHost: this.credentials.jumpHostHost,
                 port: this.credentials.jumpHostPort,
@@ -356,7 +407,7 @@ export class JumpHostConnection extends BaseConnection {
                     errorLevel: (error as any).level,
                     errorDescription: (error as any).description
                 });
-                reject(error);
+                reject(hostKeyVerifier.error || (promptResponder && promptResponder.error) || error);
             });
         });
     }
@@ -406,10 +457,39 @@ export class JumpHostConnection extends BaseConnection {
             const connectConfig: ConnectConfig = {
                 sock: this.tunnelStream, // Use tunnel stream instead of host/port
                 username: this.credentials.username,
-                readyTimeout: this.timeout,
-                algorithms: this.getOptimizedAlgorithms()[0]
+                readyTimeout: this.timeout
+            };
+
+            // The target key is checked end to end, the tunnel does not vouch for it
+            let hostKeyVerifier: HostKeyVerifier;
+            try {
+                hostKeyVerifier = this.createHostKeyVerifier(
+                    this.credentials.host,
+                    this.credentials.port,
+                    this.credentials.hostFingerprints,
+                    this.credentials.knownHosts
+                );
+            } catch (error) {
+                reject(error);
+                return;
+            }
+            connectConfig.hostVerifier = hostKeyVerifier.verify;
+            // A tunnel carries a single handshake, so it offers every profile at once in order of
+            // preference, with the key types already known for the target first
+            const tunnelAlgorithms = mergeAlgorithms(this.getOptimizedAlgorithms());
+            connectConfig.algorithms = {
+                ...tunnelAlgorithms,
+                serverHostKey: hostKeyVerifier.preferKnownKeyTypes(tunnelAlgorithms.serverHostKey)
             };
 
+            let promptResponder: KeyboardInteractiveResponder | undefined;
+            try {
+                promptResponder = this.createKeyboardInteractiveResponder();
+            } catch (error) {
+                reject(error);
+                return;
+            }
+
             // Configure target device authentication
             if (this.credentials.authMethod === 'privateKey') {
                 connectConfig.privateKey = this.credentials.privateKey;
@@ -420,6 +500,11 @@ export class JumpHostConnection extends BaseConnection {
             } else {
                 connectConfig.password = this.credentials.password;
             }
+            if (promptResponder) {
+                connectConfig.tryKeyboard = true;
+                this.client.removeAllListeners('keyboard-interactive');
+                this.client.on('keyboard-interactive', promptResponder.respond);
+            }
 
             // Set up timeout for the connection
             const timeoutId = setTimeout(() => {
@@ -459,7 +544,7 @@ export class JumpHostConnection extends BaseConnection {
                     error: error.message,
                     errorStack: error.stack
                 });
-                reject(error);
+                reject(hostKeyVerifier.error || (promptResponder && promptResponder.error) || error);
             });
 
             try {
@@ -745,6 +830,13 @@ export class JumpHostConnection extends BaseConnection {
         }
     }
 
+    /**
+     * Algorithms agreed with the jump host in the last handshake
+     */
+    getJumpHostNegotiatedAlgorithms(): NegotiatedSshAlgorithms | undefined {
+        return this.jumpHostNegotiatedAlgorithms;
+    }
+
     // Override to provide jump host specific info
     getConnectionInfo(): { host: string; port: number; deviceType: string; connected: boolean; jumpHost?: string } {
         const baseInfo = super.getConnectionInfo();
@@ -753,73 +845,4 @@ export class JumpHostConnection extends BaseConnection {
             jumpHost: this.credentials.jumpHostHost
         };
     }
-
-    // Override to use jump host authentication method for algorithm selection
-    protected getOptimizedAlgorithms(): any[] {
-        if (this.fastMode) {
-            // Ultra-fast algorithms for speed-critical operations
-            return [
-                {
-                    serverHostKey: ['ssh-rsa', 'ecdsa-sha2-nistp256'],
-                    cipher: ['aes128-ctr', 'aes128-cbc'],
-                    hmac: ['hmac-sha1'],
-                    kex: ['diffie-hellman-group14-sha1', 'ecdh-sha2-nistp256']
-                }
-            ];
-        } else {
-            // Optimized algorithms for SSH key authentication
-            const keyBasedAlgorithms = {
-                serverHostKey: [
-                    'ssh-rsa', 'rsa-sha2-256', 'rsa-sha2-512',
-                    'ecdsa-sha2-nistp256', 'ecdsa-sha2-nistp384', 'ecdsa-sha2-nistp521',
-                    'ssh-ed25519'
-                ],
-                cipher: [
-                    'aes128-ctr', 'aes192-ctr', 'aes256-ctr',
-                    'aes128-gcm@openssh.com', 'aes256-gcm@openssh.com',
-                    'aes128-cbc', 'aes192-cbc'
-                ],
-                hmac: ['hmac-sha2-256', 'hmac-sha2-512', 'hmac-sha1'],
-                kex: [
-                    'curve25519-sha256', 'curve25519-sha256@libssh.org',
-                    'diffie-hellman-group16-sha512', 'diffie-hellman-group18-sha512',
-                    'diffie-hellman-group14-sha256', 'ecdh-sha2-nistp256',
-                    'diffie-hellman-group14-sha1'
-                ]
-            };
-
-            // Password-based algorithms (more conservative)
-            const passwordBasedAlgorithms = {
-                serverHostKey: [
-                    'ssh-rsa', 'rsa-sha2-256', 'ecdsa-sha2-nistp256', 
-                    'ecdsa-sha2-nistp384', 'ssh-ed25519'
-                ],
-                cipher: [
-                    'aes128-ctr', 'aes192-ctr', 'aes256-ctr',
-                    'aes128-cbc', 'aes192-cbc'
-                ],
-                hmac: ['hmac-sha2-256', 'hmac-sha1'],
-                kex: [
-                    'diffie-hellman-group14-sha256', 'ecdh-sha2-nistp256',
-                    'diffie-hellman-group14-sha1'
-                ]
-            };
-
-            // Choose algorithm set based on jump host authentication method
-            const primaryAlgorithms = this.credentials.jumpHostAuthMethod === 'privateKey' 
-                ? keyBasedAlgorithms 
-                : passwordBasedAlgorithms;
-
-            return [
-                primaryAlgorithms,
-                // Fallback for older systems
-                {
-                    serverHostKey: ['ssh-rsa'],
-                    cipher: ['aes128-cbc'],
-                    hmac: ['hmac-sha1'],
-                    kex: ['diffie-hellman-group1-sha1']
-                }
-            ];
-        }
-    }
 } 
\ No newline at end of file
@@ -1,4 +1,34 @@
-import { BaseConnection, DeviceCredentials, CommandResult } from '../base-connection';
+import { isIP } from 'net';
+import {
+    BaseConnection,
+    DeviceCredentials,
+    CommandResult,
+    ConfigValidationResult,
+    ConfigRevisionsResult,
+    DeviceStateResult,
+    FreeSpaceResult,
+    PingOptions,
+    SoftwareVersionResult
+} from '../base-connection';
+import { normalizeConfig, parseSystemCommitHistory } from '../config';
+import { SOFTWARE_STAGING_TIMEOUT } from '../upgrade';
+import {
+    ArpEntry,
+    BgpNeighbor,
+    DeviceFacts,
+    InterfaceAddress,
+    InterfaceState,
+    LldpNeighbor,
+    MacTableEntry,
+    parseJunosArpTable,
+    parseJunosBgpNeighbors,
+    parseJunosFacts,
+    parseJunosInterfaceAddresses,
+    parseJunosInterfaces,
+    parseJunosLldpNeighbors,
+    parseJunosMacTable
+} from '../getters';
+import { RemoteChecksum } from '../transfer';
 
 export class JuniperConnection extends BaseConnection {
     private inCliMode: boolean = false;
@@ -316,6 +346,445 @@ export class JuniperConnection extends BaseConnection {
         return await this.sendCommand('show configuration');
     }
 
+    async validateConfig(configCommands: string[]): Promise<ConfigValidationResult> {
+        const command = 'commit check';
+        const configPrompt = new RegExp(`${this.escapeRegex(this.basePrompt)}#\\s*$`);
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+
+            await this.enterConfigMode();
+
+            const messages: string[] = [];
+            for (const configCommand of configCommands) {
+                await this.writeChannel(configCommand + this.newline);
+                const output = await this.readUntilMatch(configPrompt, 10000);
+                if (output.includes('error:') || output.includes('syntax error')) {
+                    messages.push(`${configCommand}: ${this.sanitizeConfigOutput(output, configCommand)}`);
+                }
+            }
+
+            await this.writeChannel('show | compare' + this.newline);
+            const diff = this.sanitizeConfigOutput(await this.readUntilMatch(configPrompt, 30000), 'show | compare');
+
+            await this.writeChannel(command + this.newline);
+            const checkOutput = this.sanitizeConfigOutput(await this.readUntilMatch(configPrompt, 120000), command);
+            const checkPassed = /configuration check succeeds/i.test(checkOutput);
+            if (!checkPassed) {
+                messages.push(checkOutput);
+            }
+
+            await this.discardCandidate(configPrompt);
+
+            const valid = checkPassed && messages.length === 0;
+            return {
+                command,
+                output: checkOutput,
+                success: valid,
+                valid,
+                diff,
+                messages,
+                error: valid ? undefined : 'Configuration validation failed'
+            };
+        } catch (error) {
+            try {
+                await this.discardCandidate(configPrompt);
+            } catch (discardError) {
+                // Ignore discard errors if we're already handling an error
+            }
+
+            return {
+                command,
+                output: '',
+                success: false,
+                valid: false,
+                diff: '',
+                messages: [],
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    // Roll the candidate back to the active configuration and leave configuration mode
+    private async discardCandidate(configPrompt: RegExp): Promise<void> {
+        if (!this.inConfigMode) {
+            return;
+        }
+        await this.writeChannel('rollback 0' + this.newline);
+        await this.readUntilMatch(configPrompt, 5000);
+        await this.exitConfigMode();
+    }
+
+    // Configuration mode output without the command echo, [edit] banners and prompt
+    private sanitizeConfigOutput(output: string, command: string): string {
+        return this.sanitizeOutput(output, command)
+            .split('\n')
+            .filter(line => !/^\[edit[^\]]*\]\s*$/.test(line.trim()))
+            .join('\n')
+            .trim();
+    }
+
+    async replaceConfig(config: string): Promise<CommandResult> {
+        const lines = normalizeConfig(config, this.credentials.deviceType);
+        // "load override" only takes the hierarchical format; set-style configs replace everything with delete + load set
+        const setFormat = lines.length > 0 && lines.every(line => line.trim() === '' || /^(?:set|delete|activate|deactivate|#)/.test(line.trim()));
+        const command = setFormat ? 'load set terminal' : 'load override terminal';
+        const configPrompt = new RegExp(`${this.escapeRegex(this.basePrompt)}#\\s*$`);
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+            if (lines.length === 0) {
+                throw new Error('The replacement configuration is empty');
+            }
+
+            await this.enterConfigMode();
+
+            if (setFormat) {
+                await this.writeChannel('delete' + this.newline);
+                const deleteOutput = await this.readUntilMatch(/\[yes,no\].*$|#\s*$/, 5000);
+                if (deleteOutput.includes('[yes,no]')) {
+                    await this.writeChannel('yes' + this.newline);
+                    await this.readUntilMatch(configPrompt, 5000);
+                }
+            }
+
+            // Paste the candidate and end the input with Ctrl-D
+            await this.writeChannel(command + this.newline);
+            await this.readUntilMatch(/\^D/, 5000);
+            await this.writeChannel(lines.join(this.newline) + this.newline);
+            await this.writeChannel('\x04');
+            const loadOutput = await this.readUntilMatch(configPrompt, 120000);
+
+            if (!/load complete/i.test(loadOutput) || /load complete \(\d+ errors?\)|^\s*error:|terminal:\d+:.*syntax error/im.test(loadOutput)) {
+                throw new Error(`Loading the replacement configuration failed:\n\n${loadOutput}`);
+            }
+
+            const commitResult = await this.commitConfig();
+            if (!commitResult.success) {
+                throw new Error(commitResult.error || 'Commit failed');
+            }
+
+            await this.exitConfigMode();
+
+            return {
+                command,
+                output: this.sanitizeOutput(loadOutput + commitResult.output, command),
+                success: true
+            };
+        } catch (error) {
+            // Discard the candidate so the active configuration is left untouched
+            try {
+                await this.discardCandidate(configPrompt);
+            } catch (exitError) {
+                // Ignore exit errors if we're already handling an error
+            }
+
+            return {
+                command,
+                output: '',
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    async commitConfirmed(configCommands: string[], minutes: number): Promise<CommandResult> {
+        const command = `commit confirmed ${minutes}`;
+        const configPrompt = new RegExp(`${this.escapeRegex(this.basePrompt)}#\\s*$`);
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+
+            await this.enterConfigMode();
+
+            let allOutput = '';
+            for (const configCommand of configCommands) {
+                await this.writeChannel(configCommand + this.newline);
+                const output = await this.readUntilMatch(configPrompt, 10000);
+                allOutput += output;
+
+                if (output.includes('error:') || output.includes('syntax error')) {
+                    throw new Error(`Configuration error on command "${configCommand}": ${output}`);
+                }
+            }
+
+            await this.writeChannel(command + this.newline);
+            const commitOutput = await this.readUntilMatch(configPrompt, 120000);
+            if (!commitOutput.includes('commit complete')) {
+                throw new Error(`Commit confirmed failed:\n\n${this.sanitizeConfigOutput(commitOutput, command)}`);
+            }
+
+            await this.exitConfigMode();
+
+            return {
+                command,
+                output: this.sanitizeOutput(allOutput + commitOutput, command),
+                success: true
+            };
+        } catch (error) {
+            try {
+                await this.discardCandidate(configPrompt);
+            } catch (discardError) {
+                // Ignore discard errors if we're already handling an error
+            }
+
+            return {
+                command,
+                output: '',
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    async confirmCommit(): Promise<CommandResult> {
+        const command = 'commit';
+        const configPrompt = new RegExp(`${this.escapeRegex(this.basePrompt)}#\\s*$`);
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+
+            await this.enterConfigMode();
+            await this.writeChannel(command + this.newline);
+            const output = await this.readUntilMatch(configPrompt, 120000);
+            await this.exitConfigMode();
+
+            if (!output.includes('commit complete')) {
+                throw new Error(`Confirming commit failed:\n\n${this.sanitizeConfigOutput(output, command)}`);
+            }
+
+            return {
+                command,
+                output: this.sanitizeConfigOutput(output, command),
+                success: true
+            };
+        } catch (error) {
+            return {
+                command,
+                output: '',
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    async rollbackConfig(revision: string): Promise<CommandResult> {
+        const command = `rollback ${revision}`;
+        const configPrompt = new RegExp(`${this.escapeRegex(this.basePrompt)}#\\s*$`);
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+            if (!/^(?:\d+|rescue)$/.test(revision)) {
+                throw new Error(`Invalid revision "${revision}", expected a rollback number (0-49) or "rescue"`);
+            }
+
+            await this.enterConfigMode();
+            await this.writeChannel(command + this.newline);
+            const loadOutput = await this.readUntilMatch(configPrompt, 60000);
+            if (!/load complete/i.test(loadOutput) || /error:/i.test(loadOutput)) {
+                throw new Error(`Loading revision ${revision} failed:\n\n${this.sanitizeConfigOutput(loadOutput, command)}`);
+            }
+
+            const commitResult = await this.commitConfig(`rollback ${revision}`);
+            if (!commitResult.success) {
+                throw new Error(commitResult.error || 'Commit failed');
+            }
+
+            await this.exitConfigMode();
+
+            return {
+                command,
+                output: this.sanitizeOutput(loadOutput + commitResult.output, command),
+                success: true
+            };
+        } catch (error) {
+            try {
+                await this.discardCandidate(configPrompt);
+            } catch (discardError) {
+                // Ignore discard errors if we're already handling an error
+            }
+
+            return {
+                command,
+                output: '',
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    async getConfigRevisions(): Promise<ConfigRevisionsResult> {
+        const result = await this.sendCommand('show system commit');
+        return {
+            ...result,
+            revisions: result.success ? parseSystemCommitHistory(result.output) : []
+        };
+    }
+
+    protected getPingCommand(target: string, options: PingOptions): string {
+        const { count, size, source, vrf } = options;
+        return [
+            `ping ${target} count ${count} rapid`,
+            size ? `size ${size}` : '',
+            source ? `${isIP(source) ? 'source' : 'interface'} ${source}` : '',
+            vrf ? `routing-instance ${vrf}` : ''
+        ].filter(Boolean).join(' ');
+    }
+
+    protected getTracerouteCommand(target: string, options: PingOptions): string {
+        const { source, vrf } = options;
+        return [
+            `traceroute ${target} no-resolve`,
+            source ? `${isIP(source) ? 'source' : 'interface'} ${source}` : '',
+            vrf ? `routing-instance ${vrf}` : ''
+        ].filter(Boolean).join(' ');
+    }
+
+    protected async getRemoteChecksum(remotePath: string): Promise<RemoteChecksum | null> {
+        const command = `file checksum sha-256 ${remotePath}`;
+        await this.writeChannel(command + this.newline);
+        const output = await this.readUntilMatch(new RegExp(`${this.escapeRegex(this.basePrompt)}[>#]\\s*$`), 300000);
+        const match = output.match(/SHA256 \(.*\) = ([0-9a-f]{64})/i);
+        return match ? { algorithm: 'sha256', value: match[1] } : null;
+    }
+
+    async getFreeSpace(remotePath: string): Promise<FreeSpaceResult> {
+        const result = await this.sendCommand('show system storage');
+        if (!result.success) {
+            return { ...result, bytesFree: 0 };
+        }
+
+        // Pick the most specific mount point holding the path; newer releases mount under /.mount
+        let best: { mount: string; avail: number } | null = null;
+        for (const line of result.output.split('\n')) {
+            const columns = line.trim().split(/\s+/);
+            if (columns.length < 6 || !/%$/.test(columns[4])) continue;
+
+            const mount = columns[5].replace(/^\/\.mount/, '') || '/';
+            const avail = this.parseStorageSize(columns[3]);
+            const holdsPath = mount === '/' || remotePath === mount || remotePath.startsWith(mount + '/');
+            if (holdsPath && avail !== null && (!best || mount.length > best.mount.length)) {
+                best = { mount, avail };
+            }
+        }
+
+        if (!best) {
+            return {
+                ...result,
+                success: false,
+                bytesFree: 0,
+                error: `Could not find the file system holding ${remotePath}`
+            };
+        }
+
+        return { ...result, bytesFree: best.avail };
+    }
+
+    async stageSoftware(remotePath: string): Promise<CommandResult> {
+        const command = `request system software add ${remotePath}`;
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+
+            if (!this.inCliMode) {
+                await this.enterCliMode();
+            }
+
+            // Package validation and installation can take a long time
+            await this.writeChannel(command + this.newline);
+            const output = await this.readUntilMatch(new RegExp(`${this.escapeRegex(this.basePrompt)}>\\s*$`), SOFTWARE_STAGING_TIMEOUT);
+            const cleanOutput = this.sanitizeOutput(output, command);
+
+            if (/\berror\b|\bfail(?:ed|ure)?\b/i.test(cleanOutput)) {
+                throw new Error(`Software installation failed:\n\n${cleanOutput}`);
+            }
+
+            return {
+                command,
+                output: cleanOutput,
+                success: true
+            };
+        } catch (error) {
+            return {
+                command,
+                output: '',
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    async getSoftwareVersion(): Promise<SoftwareVersionResult> {
+        const result = await this.sendCommand('show version');
+        const match = result.output.match(/^Junos:\s*(\S+)/m) || result.output.match(/\[(\d+\.\d+[^\]]*)\]/);
+        return {
+            ...result,
+            version: match ? match[1] : ''
+        };
+    }
+
+    async getFacts(): Promise<DeviceStateResult<DeviceFacts | null>> {
+        return this.runGetter(
+            [
+                'show version',
+                'show chassis hardware',
+                'show system uptime',
+                'show interfaces terse',
+                'show configuration system domain-name'
+            ],
+            ([version, hardware, uptime, interfaces, domain]) => parseJunosFacts(version, hardware, uptime, interfaces, domain),
+            null
+        );
+    }
+
+    async getInterfaces(): Promise<DeviceStateResult<InterfaceState[]>> {
+        return this.runGetter(['show interfaces'], ([output]) => parseJunosInterfaces(output), []);
+    }
+
+    async getInterfacesIp(): Promise<DeviceStateResult<InterfaceAddress[]>> {
+        return this.runGetter(['show interfaces terse'], ([output]) => parseJunosInterfaceAddresses(output), []);
+    }
+
+    async getArpTable(): Promise<DeviceStateResult<ArpEntry[]>> {
+        return this.runGetter(['show arp no-resolve'], ([output]) => parseJunosArpTable(output), []);
+    }
+
+    async getMacAddressTable(): Promise<DeviceStateResult<MacTableEntry[]>> {
+        return this.runGetter(['show ethernet-switching table'], ([output]) => parseJunosMacTable(output), []);
+    }
+
+    async getLldpNeighbors(): Promise<DeviceStateResult<LldpNeighbor[]>> {
+        return this.runGetter(['show lldp neighbors'], ([output]) => parseJunosLldpNeighbors(output), []);
+    }
+
+    async getBgpNeighbors(): Promise<DeviceStateResult<BgpNeighbor[]>> {
+        return this.runGetter(
+            ['show bgp summary', 'show configuration routing-options'],
+            ([summary, routingOptions]) => parseJunosBgpNeighbors(summary, routingOptions),
+            []
+        );
+    }
+
+    // "show system storage" sizes such as 512M or 1.2G, in bytes
+    private parseStorageSize(size: string): number | null {
+        const match = size.match(/^([\d.]+)([BKMGTP]?)$/i);
+        if (!match) return null;
+        const exponent = 'BKMGTP'.indexOf((match[2] || 'B').toUpperCase());
+        return Math.round(parseFloat(match[1]) * Math.pow(1024, exponent));
+    }
+
     async saveConfig(): Promise<CommandResult> {
         // In JunOS, configurations are saved when committed
         return await this.sendCommand('show configuration | display set');
@@ -327,7 +796,7 @@ export class JuniperConnection extends BaseConnection {
             await this.writeChannel('request system reboot' + this.newline);
             
             // Wait for confirmation prompt
-            let output = await this.readChannel(5000);
+            let output = await this.readUntilPrompt(/\[yes,no\]/, 10000);
             
             // If we see a confirmation prompt, respond with yes
             if (output.includes('Reboot the system?') || output.includes('[yes,no]')) {
@@ -0,0 +1,9 @@
+export {
+	DEFAULT_PROMPT_RULES,
+	parsePromptRules,
+	KeyboardInteractiveListener,
+	KeyboardInteractiveResponder,
+	PromptRule,
+	PromptSecrets,
+} from './prompts';
+export { decodeBase32, generateTotp, parseTotpSecret, TotpAlgorithm, TotpOptions } from './totp';
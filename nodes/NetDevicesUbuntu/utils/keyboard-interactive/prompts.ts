@@ -0,0 +1,118 @@
+import type { KeyboardInteractiveCallback, Prompt } from 'ssh2';
+import { generateTotp } from './totp';
+
+// A prompt pattern and the response to send when a prompt matches it
+export interface PromptRule {
+	pattern: RegExp;
+	response: string;
+}
+
+// Listener of ssh2's 'keyboard-interactive' event
+export type KeyboardInteractiveListener = (
+	name: string,
+	instructions: string,
+	lang: string,
+	prompts: Prompt[],
+	finish: KeyboardInteractiveCallback,
+) => void;
+
+export interface PromptSecrets {
+	password?: string;
+	// Base32 secret or otpauth:// URI
+	totpSecret?: string;
+}
+
+// Used when a credential leaves the rules empty
+export const DEFAULT_PROMPT_RULES = [
+	'verification|one-time|otp|token|passcode|authenticator => {totp}',
+	'password => {password}',
+].join('\n');
+
+/**
+ * Parse keyboard-interactive rules, one "regex => response" per line. The
+ * regex is matched against the prompt without regard to case, and the
+ * response may contain {password} and {totp}, e.g. "{password}{totp}" for
+ * RADIUS servers that expect both in one answer. Lines starting with # are
+ * comments.
+ * @throws Error for lines without "=>" and invalid regular expressions
+ */
+export function parsePromptRules(text = ''): PromptRule[] {
+	const rules: PromptRule[] = [];
+	text.split('\n').forEach((raw, index) => {
+		const line = raw.trim();
+		if (line === '' || line.startsWith('#')) {
+			return;
+		}
+		const separator = line.indexOf('=>');
+		if (separator === -1) {
+			throw new Error(`Invalid keyboard-interactive rule on line ${index + 1}, expected "regex => response"`);
+		}
+		const source = line.slice(0, separator).trim();
+		try {
+			rules.push({ pattern: new RegExp(source, 'i'), response: line.slice(separator + 2).trim() });
+		} catch (error) {
+			throw new Error(`Invalid prompt pattern "${source}" on line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	});
+	return rules;
+}
+
+/**
+ * Answers keyboard-interactive prompts from a set of rules, passed to ssh2's
+ * 'keyboard-interactive' event. Servers that ask in several rounds, such as
+ * PAM with password then TOTP or RADIUS challenges, call it once per round.
+ * ssh2 only reports a generic authentication failure when a prompt cannot be
+ * answered, so the reason is kept in `error` for the connection to report.
+ */
+export class KeyboardInteractiveResponder {
+	error?: Error;
+	// Prompts seen so far, for troubleshooting; responses are not kept
+	readonly prompts: string[] = [];
+
+	private readonly rules: PromptRule[];
+
+	constructor(
+		rules: string | undefined,
+		private readonly secrets: PromptSecrets = {},
+	) {
+		this.rules = parsePromptRules(rules && rules.trim() !== '' ? rules : DEFAULT_PROMPT_RULES);
+	}
+
+	respond: KeyboardInteractiveListener = (_name, _instructions, _lang, prompts, finish) => {
+		const responses: string[] = [];
+		for (const { prompt } of prompts) {
+			this.prompts.push(prompt);
+			const rule = this.rules.find((entry) => entry.pattern.test(prompt));
+			if (!rule) {
+				this.error = new Error(`No keyboard-interactive rule matches the prompt "${prompt.trim()}"`);
+				finish([]);
+				return;
+			}
+			try {
+				responses.push(this.render(rule.response));
+			} catch (error) {
+				this.error = new Error(
+					`Cannot answer the prompt "${prompt.trim()}": ${error instanceof Error ? error.message : String(error)}`,
+				);
+				finish([]);
+				return;
+			}
+		}
+		finish(responses);
+	};
+
+	private render(response: string): string {
+		return response.replace(/\{(password|totp)\}/g, (_match, name: string) => {
+			if (name === 'password') {
+				if (this.secrets.password === undefined) {
+					throw new Error('the credential has no password');
+				}
+				return this.secrets.password;
+			}
+			if (!this.secrets.totpSecret) {
+				throw new Error('the credential has no TOTP secret');
+			}
+			return generateTotp(this.secrets.totpSecret);
+		});
+	}
+}
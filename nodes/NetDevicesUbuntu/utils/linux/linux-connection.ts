@@ -1,4 +1,6 @@
-import { BaseConnection } from '../base-connection';
+import { isIP } from 'net';
+import { BaseConnection, PingOptions } from '../base-connection';
+import { RemoteChecksum } from '../transfer';
 import { DeviceCredentials, CommandResult } from '../index';
 
 // Try to import n8n's LoggerProxy for proper logging
@@ -406,6 +408,38 @@ export class LinuxConnection extends BaseConnection {
         return await this.sendCommand('cat /etc/os-release && echo "---" && uname -a');
     }
 
+    protected async getRemoteChecksum(remotePath: string): Promise<RemoteChecksum | null> {
+        const result = await this.sendCommand(`sha256sum '${remotePath.replace(/'/g, `'\\''`)}'`);
+        const match = result.success ? result.output.match(/^([0-9a-f]{64})\s/m) : null;
+        return match ? { algorithm: 'sha256', value: match[1] } : null;
+    }
+
+    protected getPingCommand(target: string, options: PingOptions): string {
+        const { count, size, source, vrf } = options;
+        return [
+            vrf ? `ip vrf exec ${vrf}` : '',
+            `ping -c ${count}`,
+            size ? `-s ${size}` : '',
+            source ? `-I ${source}` : '',
+            target
+        ].filter(Boolean).join(' ');
+    }
+
+    protected getTracerouteCommand(target: string, options: PingOptions): string {
+        const { source, vrf } = options;
+        return [
+            vrf ? `ip vrf exec ${vrf}` : '',
+            'traceroute -n',
+            source ? `${isIP(source) ? '-s' : '-i'} ${source}` : '',
+            target
+        ].filter(Boolean).join(' ');
+    }
+
+    // The detected prompt already ends in $ or # and may be wrapped in colour codes
+    protected getPromptPattern(): RegExp {
+        return /[#$]\s*$/;
+    }
+
     async saveConfig(): Promise<CommandResult> {
         return await this.sendCommand('sync && echo "Configuration synchronized"');
     }
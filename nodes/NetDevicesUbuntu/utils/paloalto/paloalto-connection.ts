@@ -1,4 +1,8 @@
-import { BaseConnection, DeviceCredentials, CommandResult } from '../base-connection';
+import { BaseConnection, DeviceCredentials, CommandResult, ConfigValidationResult, ConfigRevisionsResult, PingOptions, PingResult, TracerouteResult } from '../base-connection';
+import { parsePanosConfigAudit } from '../config';
+
+// "validate full" checks the whole candidate, not only the commands sent
+const VALIDATION_SCOPE = 'validate full checks the whole candidate configuration, including uncommitted changes of other administrators';
 
 export class PaloAltoConnection extends BaseConnection {
     private inConfigMode: boolean = false;
@@ -301,12 +305,216 @@ export class PaloAltoConnection extends BaseConnection {
         return this.sendCommand('show config running');
     }
 
+    async validateConfig(configCommands: string[]): Promise<ConfigValidationResult> {
+        const command = 'validate full';
+        const configPrompt = new RegExp(`${this.escapeRegex(this.basePrompt)}#\\s*$`);
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+
+            await this.enterConfigMode();
+
+            const messages: string[] = [];
+            for (const configCommand of configCommands) {
+                await this.writeChannel(configCommand + this.newline);
+                const output = await this.readUntilMatch(configPrompt, 15000);
+                if (/Invalid syntax|Unknown command|Server error|is not a valid/i.test(output)) {
+                    messages.push(`${configCommand}: ${this.sanitizeOutput(output, configCommand)}`);
+                }
+            }
+
+            await this.writeChannel('run show config diff' + this.newline);
+            const diff = this.sanitizeOutput(await this.readUntilMatch(configPrompt, 30000), 'run show config diff');
+
+            // Validation runs as a job; poll it until it finishes
+            await this.writeChannel(command + this.newline);
+            const enqueueOutput = await this.readUntilMatch(configPrompt, 30000);
+            const jobMatch = enqueueOutput.match(/jobid\s+(\d+)/i);
+            if (!jobMatch) {
+                throw new Error(`Validation job was not started:\n\n${this.sanitizeOutput(enqueueOutput, command)}`);
+            }
+
+            const jobCommand = `run show jobs id ${jobMatch[1]}`;
+            let jobOutput = '';
+            for (let attempt = 0; attempt < 60; attempt++) {
+                await this.writeChannel(jobCommand + this.newline);
+                jobOutput = this.sanitizeOutput(await this.readUntilMatch(configPrompt, 15000), jobCommand);
+                if (/\bFIN\b/.test(jobOutput)) {
+                    break;
+                }
+                await new Promise(resolve => setTimeout(resolve, 2000));
+            }
+
+            if (!/\bFIN\b/.test(jobOutput)) {
+                messages.push(`Validation job ${jobMatch[1]} did not finish`);
+            } else if (!/\bFIN\s+OK\b/.test(jobOutput)) {
+                messages.push(...this.getJobMessages(jobOutput));
+            }
+
+            await this.revertCandidate(configPrompt);
+
+            const valid = messages.length === 0;
+            return {
+                command,
+                output: jobOutput,
+                success: valid,
+                valid,
+                diff,
+                messages,
+                scope: VALIDATION_SCOPE,
+                error: valid ? undefined : 'Configuration validation failed'
+            };
+        } catch (error) {
+            try {
+                await this.revertCandidate(configPrompt);
+            } catch (revertError) {
+                // Ignore revert errors
+            }
+
+            return {
+                command,
+                output: '',
+                success: false,
+                valid: false,
+                diff: '',
+                messages: [],
+                scope: VALIDATION_SCOPE,
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }
+
+    // Discard this admin's candidate changes and leave configuration mode; other admins' changes are kept
+    private async revertCandidate(configPrompt: RegExp): Promise<void> {
+        if (!this.inConfigMode) {
+            return;
+        }
+        await this.writeChannel(`revert config partial admin ${this.credentials.username}` + this.newline);
+        await this.readUntilMatch(configPrompt, 30000);
+        await this.exitConfigMode();
+    }
+
+    // Warning and detail lines of a job, e.g. the reasons a validation failed
+    private getJobMessages(jobOutput: string): string[] {
+        const lines = jobOutput.split('\n').map(line => line.trim());
+        const start = lines.findIndex(line => /^(?:Warnings|Details):/.test(line));
+        if (start === -1) {
+            return [jobOutput];
+        }
+        return lines
+            .slice(start)
+            .filter(line => line.length > 0 && !/^(?:Warnings|Details):\s*$/.test(line));
+    }
+
+    async replaceConfig(config: string): Promise<CommandResult> {
+        // PAN-OS only loads full configurations from named files, which cannot be written from the CLI session
+        return {
+            command: 'load config from',
+            output: '',
+            success: false,
+            error: 'Configuration replace is not supported on PAN-OS over SSH. Import the file (e.g. "scp import configuration"), then run "load config from <file>" and commit.'
+        };
+    }
+
+    async rollbackConfig(revision: string): Promise<CommandResult> {
+        const command = `load config version ${revision}`;
+        const configPrompt = new RegExp(`${this.escapeRegex(this.basePrompt)}#\\s*$`);
+
+        try {
+            if (!this.isConnected || !this.currentChannel) {
+                throw new Error('Not connected to device');
+            }
+            if (!/^\d+$/.test(revision)) {
+                throw new Error(`Invalid revision "${revision}", expected a config version number`);
+            }
+
+            await this.enterConfigMode();
+            await this.writeChannel(command + this.newline);
+            const loadOutput = await this.readUntilMatch(configPrompt, 60000);
+            if (/Invalid syntax|Unknown command|Server error|failed|not found/i.test(loadOutput)) {
+                throw new Error(`Loading config version ${revision} failed:\n\n${this.sanitizeOutput(loadOutput, command)}`);
+            }
+
+            // commit() leaves configuration mode when it is done
+            const commitResult = await this.commit(`rollback to version ${revision}`);
+            if (!commitResult.success) {
+                throw new Error(commitResult.error || 'Commit failed');
+            }
+
+            return {
+                command,
+                output: this.sanitizeOutput(loadOutput, command) + '\n' + commitResult.output,
+                success: true
+            };
+        } catch (error) {
+            try {
+                await this.revertCandidate(configPrompt);
+            } catch (revertError) {
+                // Ignore revert errors
+            }
+
+            return {
+                command,
+                output: '',
+                success: false,
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }
+
+    async getConfigRevisions(): Promise<ConfigRevisionsResult> {
+        const result = await this.sendCommand('show config audit info');
+        return {
+            ...result,
+            revisions: result.success ? parsePanosConfigAudit(result.output) : []
+        };
+    }
+
     async saveConfig(): Promise<CommandResult> {
         // Palo Alto doesn't have a traditional save command like Cisco
         // Configuration is automatically saved when committed
         return this.sendCommand('show config saved');
     }
 
+    async ping(target: string, options: PingOptions = {}): Promise<PingResult> {
+        return this.withTargetVsys(options.vrf, () => super.ping(target, options));
+    }
+
+    async traceroute(target: string, options: PingOptions = {}): Promise<TracerouteResult> {
+        return this.withTargetVsys(options.vrf, () => super.traceroute(target, options));
+    }
+
+    protected getPingCommand(target: string, options: PingOptions): string {
+        const { count, size, source } = options;
+        return [
+            `ping count ${count}`,
+            size ? `size ${size}` : '',
+            source ? `source ${source}` : '',
+            `host ${target}`
+        ].filter(Boolean).join(' ');
+    }
+
+    protected getTracerouteCommand(target: string, options: PingOptions): string {
+        const { source } = options;
+        return ['traceroute', source ? `source ${source}` : '', `host ${target}`].filter(Boolean).join(' ');
+    }
+
+    // Scope operational commands to a vsys on multi-vsys firewalls, and reset it afterwards
+    private async withTargetVsys<T>(vsys: string | undefined, run: () => Promise<T>): Promise<T> {
+        if (!vsys) {
+            return run();
+        }
+
+        await this.sendCommand(`set system setting target-vsys ${vsys}`);
+        try {
+            return await run();
+        } finally {
+            await this.sendCommand('set system setting target-vsys none');
+        }
+    }
+
     async rebootDevice(): Promise<CommandResult> {
         try {
             if (!this.isConnected || !this.currentChannel) {
@@ -317,9 +525,9 @@ export class PaloAltoConnection extends BaseConnection {
             await this.writeChannel('request restart system' + this.newline);
             
             // Wait for confirmation prompt
-            const output = await this.readChannel(5000);
+            const output = await this.readUntilPrompt(/\(y or n\)|y\/n|yes\/no/i, 10000);
             
-            if (output.toLowerCase().includes('yes/no') || output.toLowerCase().includes('y/n')) {
+            if (/\(y or n\)|y\/n|yes\/no/i.test(output)) {
                 // Send confirmation
                 await this.writeChannel('yes' + this.newline);
                 await this.readChannel(3000);
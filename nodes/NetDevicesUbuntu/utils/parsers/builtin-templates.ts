@@ -0,0 +1,313 @@
+import type { SupportedDeviceType } from '../connection-dispatcher';
+import { TemplateIndexEntry } from './template-index';
+
+export interface BuiltinTemplate {
+	deviceTypes: SupportedDeviceType[];
+	command: string;
+	template: string;
+}
+
+// Templates use the bare $Value syntax so they can live in String.raw literals
+const CISCO_IOS_SHOW_VERSION = String.raw`Value VERSION ([^,\s]+)
+Value ROMMON (\S+)
+Value HOSTNAME (\S+)
+Value UPTIME (.+)
+Value RELOAD_REASON (.+?)
+Value RUNNING_IMAGE (\S+)
+Value List HARDWARE (\S+)
+Value List SERIAL (\S+)
+Value CONFIG_REGISTER (\S+)
+Value List MAC_ADDRESS ([0-9a-fA-F]{2}(?::[0-9a-fA-F]{2}){5})
+
+Start
+  ^.*Software.*,\s+Version\s+$VERSION(?:,|\s|$$)
+  ^ROM:\s+$ROMMON
+  ^\s*$HOSTNAME\s+uptime\s+is\s+$UPTIME\s*$$
+  ^[Ss]ystem\s+returned\s+to\s+ROM\s+by\s+$RELOAD_REASON\s*$$
+  ^[Ll]ast\s+reload\s+reason:\s+$RELOAD_REASON\s*$$
+  ^[Ss]ystem\s+image\s+file\s+is\s+"[^:]*:$RUNNING_IMAGE"
+  ^[Cc]isco\s+$HARDWARE\s+\(.+\)\s+processor
+  ^[Pp]rocessor\s+board\s+ID\s+$SERIAL
+  ^[Cc]onfiguration\s+register\s+is\s+$CONFIG_REGISTER
+  ^[Bb]ase\s+[Ee]thernet\s+MAC\s+[Aa]ddress\s+:\s+$MAC_ADDRESS
+`;
+
+const CISCO_IOS_SHOW_INTERFACES_STATUS = String.raw`Value PORT (\S+)
+Value NAME (.*?)
+Value STATUS (connected|notconnect|notconnec|disabled|err-disabled|err-disabl|inactive|monitoring|suspended|sfpAbsent|xcvrAbsen|noOperMem|faulty|channelDo|linkFlapE|up|down)
+Value VLAN_ID (\S+)
+Value DUPLEX (\S+)
+Value SPEED (\S+)
+Value TYPE (.*?)
+
+Start
+  ^Port\s+Name\s+Status\s+Vlan -> Interfaces
+
+Interfaces
+  ^$PORT\s+$NAME\s+$STATUS\s+$VLAN_ID\s+$DUPLEX\s+$SPEED(?:\s+$TYPE)?\s*$$ -> Record
+  ^-+
+  ^\s*$$
+`;
+
+const CISCO_IOS_SHOW_IP_INTERFACE_BRIEF = String.raw`Value INTERFACE (\S+)
+Value IP_ADDRESS (\S+)
+Value STATUS (up|down|administratively down|deleted)
+Value PROTO (up|down)
+
+Start
+  ^$INTERFACE\s+$IP_ADDRESS\s+\S+\s+\S+\s+$STATUS\s+$PROTO\s*$$ -> Record
+`;
+
+const CISCO_SHOW_LLDP_NEIGHBORS = String.raw`Value NEIGHBOR_NAME (\S.*?)
+Value LOCAL_INTERFACE (\S+)
+Value CAPABILITIES (\S*)
+Value NEIGHBOR_INTERFACE (\S+)
+
+Start
+  ^Device\s+ID\s+Local\s+Intf -> Neighbors
+
+Neighbors
+  ^$NEIGHBOR_NAME\s+$LOCAL_INTERFACE\s+\d+\s+$CAPABILITIES\s+$NEIGHBOR_INTERFACE\s*$$ -> Record
+  ^$NEIGHBOR_NAME\s+$LOCAL_INTERFACE\s+\d+\s+$NEIGHBOR_INTERFACE\s*$$ -> Record
+  ^Total\s+entries -> End
+`;
+
+const CISCO_IOS_XR_SHOW_IP_INTERFACE_BRIEF = String.raw`Value INTERFACE (\S+)
+Value IP_ADDRESS (\S+)
+Value STATUS (\S+)
+Value PROTO (\S+)
+Value VRF (\S+)
+
+Start
+  ^Interface\s+IP-Address -> Interfaces
+
+Interfaces
+  ^$INTERFACE\s+$IP_ADDRESS\s+$STATUS\s+$PROTO(?:\s+$VRF)?\s*$$ -> Record
+`;
+
+const CISCO_NXOS_SHOW_VERSION = String.raw`Value HOSTNAME (\S+)
+Value OS (\S+)
+Value BOOT_IMAGE (\S+)
+Value PLATFORM (\S+)
+Value UPTIME (.+)
+Value SERIAL (\S+)
+Value LAST_REBOOT_REASON (.+)
+
+Start
+  ^\s+(?:NXOS|NX-OSv|system):\s+version\s+$OS
+  ^\s+(?:NXOS|NX-OSv|system)\s+image\s+file\s+is:\s+$BOOT_IMAGE
+  ^\s+cisco\s+(?:Nexus\S*\s+)?$PLATFORM\s+[Cc]hassis
+  ^\s+Processor\s+[Bb]oard\s+ID\s+$SERIAL
+  ^\s+Device\s+name:\s+$HOSTNAME
+  ^Kernel\s+uptime\s+is\s+$UPTIME\s*$$
+  ^\s+Reason:\s+$LAST_REBOOT_REASON\s*$$
+`;
+
+const CISCO_NXOS_SHOW_IP_INTERFACE_BRIEF = String.raw`Value Filldown VRF ([^"]+)
+Value Required INTERFACE (\S+)
+Value IP_ADDRESS (\S+)
+Value PROTO_STATUS (\S+)
+Value LINK_STATUS (\S+)
+Value ADMIN_STATUS (\S+)
+
+Start
+  ^IP\s+Interface\s+Status\s+for\s+VRF\s+"$VRF"
+  ^$INTERFACE\s+$IP_ADDRESS\s+protocol-$PROTO_STATUS/link-$LINK_STATUS/admin-$ADMIN_STATUS\s*$$ -> Record
+`;
+
+const JUNIPER_JUNOS_SHOW_VERSION = String.raw`Value HOSTNAME (\S+)
+Value MODEL (\S+)
+Value VERSION ([^\]\s]+)
+
+Start
+  ^Hostname:\s+$HOSTNAME
+  ^Model:\s+$MODEL
+  ^Junos:\s+$VERSION
+  ^JUNOS\s+.*Software\s+Release\s+\[$VERSION\]
+`;
+
+const JUNIPER_JUNOS_SHOW_INTERFACES_TERSE = String.raw`Value Required INTERFACE (\S+)
+Value ADMIN_STATE (up|down)
+Value LINK_STATE (up|down)
+Value List PROTOCOL (\S+)
+Value List LOCAL (\S+)
+Value List REMOTE (\S+)
+
+Start
+  ^Interface\s+Admin\s+Link -> Interfaces
+
+Interfaces
+  ^\S+\s+(?:up|down)\s+(?:up|down) -> Continue.Record
+  ^$INTERFACE\s+$ADMIN_STATE\s+$LINK_STATE\s*$$
+  ^$INTERFACE\s+$ADMIN_STATE\s+$LINK_STATE\s+$PROTOCOL\s*$$
+  ^$INTERFACE\s+$ADMIN_STATE\s+$LINK_STATE\s+$PROTOCOL\s+$LOCAL\s*$$
+  ^$INTERFACE\s+$ADMIN_STATE\s+$LINK_STATE\s+$PROTOCOL\s+$LOCAL\s+-->\s+$REMOTE\s*$$
+  ^\s+$PROTOCOL\s+$LOCAL\s*$$
+  ^\s+$PROTOCOL\s+$LOCAL\s+-->\s+$REMOTE\s*$$
+  ^\s+$LOCAL\s*$$
+`;
+
+const JUNIPER_JUNOS_SHOW_LLDP_NEIGHBORS = String.raw`Value LOCAL_INTERFACE (\S+)
+Value PARENT_INTERFACE (\S+)
+Value CHASSIS_ID (\S+)
+Value NEIGHBOR_INTERFACE (\S+)
+Value NEIGHBOR_NAME (\S+)
+
+Start
+  ^Local\s+Interface\s+Parent\s+Interface -> Neighbors
+
+Neighbors
+  ^$LOCAL_INTERFACE\s+$PARENT_INTERFACE\s+$CHASSIS_ID\s+$NEIGHBOR_INTERFACE\s+$NEIGHBOR_NAME\s*$$ -> Record
+`;
+
+const FORTINET_GET_SYSTEM_STATUS = String.raw`Value MODEL (\S+)
+Value VERSION (v[\d.]+)
+Value BUILD (\d+)
+Value SERIAL_NUMBER (\S+)
+Value HOSTNAME (\S+)
+Value OPERATION_MODE (\S+)
+Value VIRTUAL_DOMAIN_CONFIGURATION (\S+)
+Value HA_MODE (.+?)
+Value BRANCH_POINT (\S+)
+Value SYSTEM_TIME (.+?)
+
+Start
+  ^Version:\s+$MODEL\s+$VERSION,build$BUILD
+  ^Serial-Number:\s+$SERIAL_NUMBER
+  ^Hostname:\s+$HOSTNAME
+  ^Operation\s+Mode:\s+$OPERATION_MODE
+  ^Virtual\s+domain\s+configuration:\s+$VIRTUAL_DOMAIN_CONFIGURATION
+  ^Current\s+HA\s+mode:\s+$HA_MODE\s*$$
+  ^Branch\s+point:\s+$BRANCH_POINT
+  ^System\s+time:\s+$SYSTEM_TIME\s*$$
+`;
+
+const PALOALTO_PANOS_SHOW_SYSTEM_INFO = String.raw`Value HOSTNAME (\S+)
+Value IP_ADDRESS (\S+)
+Value NETMASK (\S+)
+Value DEFAULT_GATEWAY (\S+)
+Value MAC_ADDRESS (\S+)
+Value UPTIME (.+?)
+Value FAMILY (\S+)
+Value MODEL (\S+)
+Value SERIAL (\S+)
+Value SW_VERSION (\S+)
+Value APP_VERSION (\S+)
+Value THREAT_VERSION (\S+)
+Value MULTI_VSYS (\S+)
+Value OPERATIONAL_MODE (\S+)
+
+Start
+  ^hostname:\s+$HOSTNAME
+  ^ip-address:\s+$IP_ADDRESS
+  ^netmask:\s+$NETMASK
+  ^default-gateway:\s+$DEFAULT_GATEWAY
+  ^mac-address:\s+$MAC_ADDRESS
+  ^uptime:\s+$UPTIME\s*$$
+  ^family:\s+$FAMILY
+  ^model:\s+$MODEL
+  ^serial:\s+$SERIAL
+  ^sw-version:\s+$SW_VERSION
+  ^app-version:\s+$APP_VERSION
+  ^threat-version:\s+$THREAT_VERSION
+  ^multi-vsys:\s+$MULTI_VSYS
+  ^operational-mode:\s+$OPERATIONAL_MODE
+`;
+
+const VYOS_SHOW_INTERFACES = String.raw`Value Required INTERFACE (\S+)
+Value List IP_ADDRESS (\S+)
+Value STATE (\S)
+Value LINK (\S)
+Value DESCRIPTION (.*?)
+
+Start
+  ^-+\s+-+ -> Interfaces
+
+Interfaces
+  ^\S+\s+\S+\s+\S/\S -> Continue.Record
+  ^$INTERFACE\s+$IP_ADDRESS\s+$STATE/$LINK(?:\s+$DESCRIPTION)?\s*$$
+  ^\s+$IP_ADDRESS\s*$$
+`;
+
+/**
+ * Parsers shipped with the node, keyed by device type and command
+ */
+export const BUILTIN_TEMPLATES: BuiltinTemplate[] = [
+	{
+		deviceTypes: ['cisco_ios', 'cisco_ios_xe'],
+		command: 'sh[[ow]] ver[[sion]]',
+		template: CISCO_IOS_SHOW_VERSION,
+	},
+	{
+		deviceTypes: ['cisco_ios', 'cisco_ios_xe', 'cisco_nxos'],
+		command: 'sh[[ow]] int[[erfaces]] stat[[us]]',
+		template: CISCO_IOS_SHOW_INTERFACES_STATUS,
+	},
+	{
+		deviceTypes: ['cisco_ios', 'cisco_ios_xe'],
+		command: 'sh[[ow]] ip int[[erface]] br[[ief]]',
+		template: CISCO_IOS_SHOW_IP_INTERFACE_BRIEF,
+	},
+	{
+		deviceTypes: ['cisco_ios', 'cisco_ios_xe', 'cisco_nxos'],
+		command: 'sh[[ow]] lld[[p]] nei[[ghbors]]',
+		template: CISCO_SHOW_LLDP_NEIGHBORS,
+	},
+	{
+		deviceTypes: ['cisco_ios_xr'],
+		command: 'sh[[ow]] ip int[[erface]] br[[ief]]',
+		template: CISCO_IOS_XR_SHOW_IP_INTERFACE_BRIEF,
+	},
+	{
+		deviceTypes: ['cisco_nxos'],
+		command: 'sh[[ow]] ver[[sion]]',
+		template: CISCO_NXOS_SHOW_VERSION,
+	},
+	{
+		deviceTypes: ['cisco_nxos'],
+		command: 'sh[[ow]] ip int[[erface]] br[[ief]]',
+		template: CISCO_NXOS_SHOW_IP_INTERFACE_BRIEF,
+	},
+	{
+		deviceTypes: ['juniper_junos', 'juniper_srx'],
+		command: 'sh[[ow]] ver[[sion]]',
+		template: JUNIPER_JUNOS_SHOW_VERSION,
+	},
+	{
+		deviceTypes: ['juniper_junos', 'juniper_srx'],
+		command: 'sh[[ow]] int[[erfaces]] ter[[se]]',
+		template: JUNIPER_JUNOS_SHOW_INTERFACES_TERSE,
+	},
+	{
+		deviceTypes: ['juniper_junos', 'juniper_srx'],
+		command: 'sh[[ow]] lld[[p]] nei[[ghbors]]',
+		template: JUNIPER_JUNOS_SHOW_LLDP_NEIGHBORS,
+	},
+	{
+		deviceTypes: ['fortinet_fortios'],
+		command: 'get sys[[tem]] stat[[us]]',
+		template: FORTINET_GET_SYSTEM_STATUS,
+	},
+	{
+		deviceTypes: ['paloalto_panos'],
+		command: 'sh[[ow]] sys[[tem]] info',
+		template: PALOALTO_PANOS_SHOW_SYSTEM_INFO,
+	},
+	{
+		deviceTypes: ['vyos'],
+		command: 'sh[[ow]] int[[erfaces]]',
+		template: VYOS_SHOW_INTERFACES,
+	},
+];
+
+/**
+ * Convert the built-in parsers into template index entries
+ * @returns Entries that can be appended to a TemplateIndex
+ */
+export function getBuiltinTemplateEntries(): TemplateIndexEntry[] {
+	return BUILTIN_TEMPLATES.map((builtin) => ({
+		deviceType: builtin.deviceTypes.join(','),
+		command: builtin.command,
+		template: builtin.template,
+	}));
+}
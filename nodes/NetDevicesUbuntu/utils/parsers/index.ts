@@ -0,0 +1,3 @@
+export { TextFsmTemplate, TextFsmError, TextFsmRow, TextFsmValueOption, parseTextFsm, convertPythonRegex } from './textfsm';
+export { TemplateIndex, TemplateIndexEntry, compileCommandPattern } from './template-index';
+export { BuiltinTemplate, BUILTIN_TEMPLATES, getBuiltinTemplateEntries } from './builtin-templates';
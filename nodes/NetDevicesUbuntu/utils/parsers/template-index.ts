@@ -0,0 +1,102 @@
+import { TextFsmRow, TextFsmTemplate } from './textfsm';
+
+export interface TemplateIndexEntry {
+	deviceType: string;
+	command: string;
+	template: string;
+}
+
+interface CompiledEntry {
+	deviceTypes: string[];
+	commandRegex: RegExp;
+	source: string;
+	compiled?: TextFsmTemplate;
+}
+
+/**
+ * Expand an ntc-templates style command pattern into a regex.
+ * "sh[[ow]] ip int[[erface]] br[[ief]]" matches "sh ip int br", "show ip interface brief"
+ * and every abbreviation in between.
+ * @param pattern Command pattern
+ * @returns Anchored, whitespace-tolerant regex
+ */
+export function compileCommandPattern(pattern: string): RegExp {
+	const expanded = pattern
+		.trim()
+		.replace(/\[\[([^\]]+)\]\]/g, (_match, completion: string) => {
+			return completion
+				.split('')
+				.reduceRight((inner, char) => `(?:${char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}${inner})?`, '');
+		})
+		.replace(/\s+/g, '\\s+');
+
+	return new RegExp(`^${expanded}$`, 'i');
+}
+
+/**
+ * Selects a TextFSM template by device type and command, like the
+ * ntc-templates index used by Netmiko's use_textfsm option
+ */
+export class TemplateIndex {
+	private entries: CompiledEntry[] = [];
+
+	constructor(entries: TemplateIndexEntry[] = []) {
+		entries.forEach((entry) => this.add(entry));
+	}
+
+	/**
+	 * Register a template
+	 * @param entry Device types (comma separated, empty for any), command pattern and template source
+	 */
+	add(entry: TemplateIndexEntry): void {
+		this.entries.push({
+			deviceTypes: entry.deviceType
+				.split(',')
+				.map((deviceType) => deviceType.trim().toLowerCase())
+				.filter((deviceType) => deviceType.length > 0),
+			commandRegex: compileCommandPattern(entry.command),
+			source: entry.template,
+		});
+	}
+
+	/**
+	 * Find the first template registered for the device type and command
+	 * @param deviceType Device type of the connection
+	 * @param command Command that produced the output
+	 * @returns Compiled template or undefined if none matches
+	 */
+	find(deviceType: string, command: string): TextFsmTemplate | undefined {
+		const normalizedType = deviceType.toLowerCase();
+		const normalizedCommand = command.trim();
+
+		const entry = this.entries.find(
+			(candidate) =>
+				(candidate.deviceTypes.length === 0 || candidate.deviceTypes.includes(normalizedType)) &&
+				candidate.commandRegex.test(normalizedCommand),
+		);
+
+		if (!entry) {
+			return undefined;
+		}
+		if (!entry.compiled) {
+			entry.compiled = new TextFsmTemplate(entry.source);
+		}
+		return entry.compiled;
+	}
+
+	/**
+	 * Parse command output with the matching template
+	 * @param deviceType Device type of the connection
+	 * @param command Command that produced the output
+	 * @param output Raw command output
+	 * @returns Parsed rows or undefined if no template matches
+	 */
+	parse(deviceType: string, command: string, output: string): TextFsmRow[] | undefined {
+		const template = this.find(deviceType, command);
+		return template ? template.parseText(output) : undefined;
+	}
+
+	get size(): number {
+		return this.entries.length;
+	}
+}
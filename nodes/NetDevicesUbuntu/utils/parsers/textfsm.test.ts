@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { convertPythonRegex, parseTextFsm, TextFsmError } from './textfsm';
+
+const VLAN_TEMPLATE = [
+	'Value Filldown SWITCH (\\S+)',
+	'Value Required VLAN (\\d+)',
+	'Value NAME (\\S+)',
+	'',
+	'Start',
+	'  ^Switch\\s+${SWITCH}',
+	'  ^${VLAN}\\s+${NAME}\\s+active -> Record',
+	'',
+].join('\n');
+
+const VLAN_OUTPUT = ['Switch sw1', 'VLAN Name Status Ports', '1    default active Gi0/1', '10   users   active Gi0/2', ''].join('\n');
+
+describe('parseTextFsm', () => {
+	it('fills down, requires and collects values into rows', () => {
+		const template = [
+			'Value Filldown SWITCH (\\S+)',
+			'Value Required INTERFACE (\\S+)',
+			'Value List ADDRESS (\\S+)',
+			'',
+			'Start',
+			'  ^Switch\\s+${SWITCH}',
+			'  ^interface\\s+${INTERFACE} -> Continue',
+			'  ^interface -> Next',
+			'  ^\\s+ip address\\s+${ADDRESS}',
+			'  ^! -> Record',
+			'',
+		].join('\n');
+		const output = [
+			'Switch sw1',
+			'interface Gi0/1',
+			' ip address 10.0.0.1',
+			' ip address 10.0.1.1',
+			'!',
+			'interface Gi0/2',
+			'!',
+			// Nothing sets INTERFACE before this record, so Required drops it
+			'!',
+		].join('\n');
+
+		assert.deepEqual(parseTextFsm(template, output), [
+			{ switch: 'sw1', interface: 'Gi0/1', address: ['10.0.0.1', '10.0.1.1'] },
+			{ switch: 'sw1', interface: 'Gi0/2', address: [] },
+		]);
+	});
+
+	it('records a row per matching line', () => {
+		const rows = parseTextFsm(VLAN_TEMPLATE, VLAN_OUTPUT);
+		assert.deepEqual(
+			rows.map((row) => [row.switch, row.vlan, row.name]),
+			[
+				['sw1', '1', 'default'],
+				['sw1', '10', 'users'],
+			],
+		);
+	});
+
+	it('reports template errors', () => {
+		assert.throws(() => parseTextFsm('Value Bogus NAME (\\S+)\n\nStart\n  ^${NAME}\n', 'x'), TextFsmError);
+	});
+});
+
+describe('convertPythonRegex', () => {
+	it('converts named groups and leading inline flags', () => {
+		assert.deepEqual(convertPythonRegex('(?i)(?P<name>\\S+) (?P=name)'), { source: '(?<name>\\S+) \\k<name>', flags: 'i' });
+	});
+});
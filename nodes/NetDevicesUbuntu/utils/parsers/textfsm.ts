@@ -0,0 +1,425 @@
+/**
+ * TextFSM-compatible template engine.
+ *
+ * Supports the template syntax used by Google's TextFSM and the ntc-templates
+ * collection: Value definitions (Filldown, Key, Required, List, Fillup),
+ * named states with rules, line actions (Next, Continue), record actions
+ * (NoRecord, Record, Clear, Clearall), state transitions and Error.
+ */
+
+export type TextFsmValueOption = 'Filldown' | 'Key' | 'Required' | 'List' | 'Fillup';
+
+export type TextFsmRow = { [key: string]: string | string[] };
+
+type LineOp = 'Next' | 'Continue';
+type RecordOp = 'NoRecord' | 'Record' | 'Clear' | 'Clearall';
+
+interface TextFsmValue {
+	name: string;
+	regex: string;
+	options: TextFsmValueOption[];
+}
+
+interface TextFsmRule {
+	regex: RegExp;
+	lineOp: LineOp;
+	recordOp: RecordOp;
+	newState: string;
+	errorMessage?: string;
+	lineNumber: number;
+}
+
+const VALUE_OPTIONS: TextFsmValueOption[] = ['Filldown', 'Key', 'Required', 'List', 'Fillup'];
+const LINE_OPS: LineOp[] = ['Next', 'Continue'];
+const RECORD_OPS: RecordOp[] = ['NoRecord', 'Record', 'Clear', 'Clearall'];
+const RESERVED_STATES = ['End', 'EOF'];
+
+export class TextFsmError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'TextFsmError';
+	}
+}
+
+/**
+ * Convert a Python regular expression into its JavaScript equivalent
+ * @param pattern Python regex source
+ * @returns JavaScript regex source and flags
+ */
+export function convertPythonRegex(pattern: string): { source: string; flags: string } {
+	let source = pattern;
+	let flags = '';
+
+	// Leading inline flags such as (?i) are not supported by JavaScript
+	const inlineFlags = source.match(/^\(\?([imsx]+)\)/);
+	if (inlineFlags) {
+		source = source.substring(inlineFlags[0].length);
+		flags = inlineFlags[1].replace(/x/g, '');
+	}
+
+	source = source
+		.replace(/\(\?P<(\w+)>/g, '(?<$1>')
+		.replace(/\(\?P=(\w+)\)/g, '\\k<$1>')
+		.replace(/\\A/g, '^')
+		.replace(/\\Z/g, '$');
+
+	return { source, flags };
+}
+
+/**
+ * A compiled TextFSM template
+ */
+export class TextFsmTemplate {
+	private values: TextFsmValue[] = [];
+	private states: Map<string, TextFsmRule[]> = new Map();
+
+	constructor(template: string) {
+		this.parseTemplate(template);
+	}
+
+	/**
+	 * Names of the values defined by the template, in definition order
+	 */
+	getHeader(): string[] {
+		return this.values.map((value) => value.name);
+	}
+
+	/**
+	 * Run the state machine over the text
+	 * @param text Raw command output
+	 * @param lowercaseKeys Use lower case value names as keys, like Netmiko does
+	 * @returns One object per record
+	 */
+	parseText(text: string, lowercaseKeys: boolean = true): TextFsmRow[] {
+		const records = this.parseTextToTable(text);
+		const header = this.getHeader().map((name) => (lowercaseKeys ? name.toLowerCase() : name));
+
+		return records.map((record) => {
+			const row: TextFsmRow = {};
+			header.forEach((name, index) => {
+				row[name] = record[index];
+			});
+			return row;
+		});
+	}
+
+	/**
+	 * Run the state machine over the text
+	 * @param text Raw command output
+	 * @returns One array of values per record, in header order
+	 */
+	parseTextToTable(text: string): Array<Array<string | string[]>> {
+		const results: Array<Array<string | string[]>> = [];
+		const current: Array<string | string[] | null> = this.values.map((value) =>
+			value.options.includes('List') ? [] : null,
+		);
+
+		const isEmpty = (entry: string | string[] | null) =>
+			entry === null || (Array.isArray(entry) && entry.length === 0);
+
+		const clearRecord = (all: boolean) => {
+			this.values.forEach((value, index) => {
+				if (!all && value.options.includes('Filldown')) {
+					return;
+				}
+				current[index] = value.options.includes('List') ? [] : null;
+			});
+		};
+
+		const appendRecord = () => {
+			if (this.values.length === 0) {
+				return;
+			}
+
+			for (let index = 0; index < this.values.length; index++) {
+				if (this.values[index].options.includes('Required') && isEmpty(current[index])) {
+					clearRecord(false);
+					return;
+				}
+			}
+
+			if (current.every(isEmpty)) {
+				return;
+			}
+
+			results.push(
+				current.map((entry) => {
+					if (entry === null) {
+						return '';
+					}
+					return Array.isArray(entry) ? [...entry] : entry;
+				}),
+			);
+			clearRecord(false);
+		};
+
+		const assign = (index: number, matched: string) => {
+			const value = this.values[index];
+			if (value.options.includes('List')) {
+				(current[index] as string[]).push(matched);
+				return;
+			}
+
+			current[index] = matched;
+
+			if (value.options.includes('Fillup')) {
+				for (let row = results.length - 1; row >= 0; row--) {
+					if (results[row][index] !== '') {
+						break;
+					}
+					results[row][index] = matched;
+				}
+			}
+		};
+
+		let stateName = 'Start';
+		const lines = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+
+		for (const line of lines) {
+			const rules = this.states.get(stateName) || [];
+
+			for (const rule of rules) {
+				const match = rule.regex.exec(line);
+				if (!match) {
+					continue;
+				}
+
+				if (match.groups) {
+					this.values.forEach((value, index) => {
+						const matched = match.groups![value.name];
+						if (matched !== undefined) {
+							assign(index, matched);
+						}
+					});
+				}
+
+				if (rule.errorMessage !== undefined) {
+					throw new TextFsmError(
+						`State Error raised. Rule line: ${rule.lineNumber}. Input line: ${line}${rule.errorMessage ? `. ${rule.errorMessage}` : ''}`,
+					);
+				}
+
+				if (rule.recordOp === 'Record') {
+					appendRecord();
+				} else if (rule.recordOp === 'Clear') {
+					clearRecord(false);
+				} else if (rule.recordOp === 'Clearall') {
+					clearRecord(true);
+				}
+
+				if (rule.lineOp === 'Next') {
+					if (rule.newState) {
+						stateName = rule.newState;
+					}
+					break;
+				}
+			}
+
+			if (stateName === 'End') {
+				break;
+			}
+		}
+
+		// Implicit record at end of input unless the template declares an EOF state
+		if (stateName !== 'End' && !this.states.has('EOF')) {
+			appendRecord();
+		}
+
+		return results;
+	}
+
+	private parseTemplate(template: string): void {
+		const lines = template.replace(/\r\n/g, '\n').split('\n');
+		let index = 0;
+
+		// Value definitions come first, terminated by a blank line
+		for (; index < lines.length; index++) {
+			const line = lines[index];
+			if (line.trim() === '') {
+				if (this.values.length > 0) {
+					index++;
+					break;
+				}
+				continue;
+			}
+			if (line.trim().startsWith('#')) {
+				continue;
+			}
+			if (!line.startsWith('Value ')) {
+				throw new TextFsmError(`Expected a Value definition on template line ${index + 1}: ${line}`);
+			}
+			this.values.push(this.parseValue(line, index + 1));
+		}
+
+		let stateName = '';
+		for (; index < lines.length; index++) {
+			const line = lines[index];
+			const trimmed = line.trim();
+
+			if (trimmed === '' || trimmed.startsWith('#')) {
+				continue;
+			}
+
+			if (!/^\s/.test(line)) {
+				stateName = trimmed;
+				if (!/^\w+$/.test(stateName)) {
+					throw new TextFsmError(`Invalid state name "${stateName}" on template line ${index + 1}`);
+				}
+				if (this.states.has(stateName)) {
+					throw new TextFsmError(`Duplicate state name "${stateName}" on template line ${index + 1}`);
+				}
+				this.states.set(stateName, []);
+				continue;
+			}
+
+			if (!stateName) {
+				throw new TextFsmError(`Rule outside of a state on template line ${index + 1}`);
+			}
+			this.states.get(stateName)!.push(this.parseRule(trimmed, index + 1));
+		}
+
+		if (!this.states.has('Start')) {
+			throw new TextFsmError('Template is missing the mandatory Start state');
+		}
+		if ((this.states.get('End') || []).length > 0) {
+			throw new TextFsmError('The End state must not contain rules');
+		}
+
+		for (const [name, rules] of this.states.entries()) {
+			for (const rule of rules) {
+				if (rule.newState && !this.states.has(rule.newState) && !RESERVED_STATES.includes(rule.newState)) {
+					throw new TextFsmError(
+						`State "${name}" transitions to undefined state "${rule.newState}" on template line ${rule.lineNumber}`,
+					);
+				}
+			}
+		}
+	}
+
+	private parseValue(line: string, lineNumber: number): TextFsmValue {
+		// "Value Name (re)" or "Value Opt1,Opt2 Name (re)"
+		const match = line.match(/^Value\s+(?:(\S+)\s+)?(\S+)\s+(\(.*\))\s*$/);
+		if (!match) {
+			throw new TextFsmError(`Invalid Value definition on template line ${lineNumber}: ${line}`);
+		}
+
+		const options = (match[1] ? match[1].split(',') : []) as TextFsmValueOption[];
+		const name = match[2];
+		const regex = match[3];
+
+		for (const option of options) {
+			if (!VALUE_OPTIONS.includes(option)) {
+				throw new TextFsmError(`Unknown Value option "${option}" on template line ${lineNumber}`);
+			}
+		}
+		if (!/^\w+$/.test(name)) {
+			throw new TextFsmError(`Invalid Value name "${name}" on template line ${lineNumber}`);
+		}
+		if (this.values.some((value) => value.name === name)) {
+			throw new TextFsmError(`Duplicate Value name "${name}" on template line ${lineNumber}`);
+		}
+
+		return { name, regex, options };
+	}
+
+	private parseRule(line: string, lineNumber: number): TextFsmRule {
+		if (!line.startsWith('^')) {
+			throw new TextFsmError(`Rule must start with "^" on template line ${lineNumber}: ${line}`);
+		}
+
+		let pattern = line;
+		let action = '';
+		const arrowMatch = line.match(/\s+->\s*(.*)$/);
+		if (arrowMatch) {
+			pattern = line.substring(0, arrowMatch.index);
+			action = arrowMatch[1].trim();
+		}
+
+		const rule: TextFsmRule = {
+			regex: this.compileRuleRegex(pattern, lineNumber),
+			lineOp: 'Next',
+			recordOp: 'NoRecord',
+			newState: '',
+			lineNumber,
+		};
+
+		if (!action) {
+			return rule;
+		}
+
+		const errorMatch = action.match(/^Error(?:\s+"?([^"]*)"?)?$/);
+		if (errorMatch) {
+			rule.errorMessage = errorMatch[1] || '';
+			return rule;
+		}
+
+		const [operations, newState, extra] = action.split(/\s+/);
+		if (extra !== undefined) {
+			throw new TextFsmError(`Invalid rule action "${action}" on template line ${lineNumber}`);
+		}
+
+		const parts = operations.split('.');
+		if (parts.length === 2) {
+			if (!LINE_OPS.includes(parts[0] as LineOp) || !RECORD_OPS.includes(parts[1] as RecordOp)) {
+				throw new TextFsmError(`Invalid rule action "${action}" on template line ${lineNumber}`);
+			}
+			rule.lineOp = parts[0] as LineOp;
+			rule.recordOp = parts[1] as RecordOp;
+			rule.newState = newState || '';
+		} else if (LINE_OPS.includes(operations as LineOp)) {
+			rule.lineOp = operations as LineOp;
+			rule.newState = newState || '';
+		} else if (RECORD_OPS.includes(operations as RecordOp)) {
+			rule.recordOp = operations as RecordOp;
+			rule.newState = newState || '';
+		} else if (newState === undefined) {
+			// A bare state name
+			rule.newState = operations;
+		} else {
+			throw new TextFsmError(`Invalid rule action "${action}" on template line ${lineNumber}`);
+		}
+
+		if (rule.lineOp === 'Continue' && rule.newState) {
+			throw new TextFsmError(`Continue actions cannot change state on template line ${lineNumber}`);
+		}
+
+		return rule;
+	}
+
+	private compileRuleRegex(pattern: string, lineNumber: number): RegExp {
+		// Substitute $$, ${Name} and $Name with the value regexes as named groups
+		const substituted = pattern.replace(/\$\$|\$\{(\w+)\}|\$(\w+)/g, (token, braced, bare) => {
+			if (token === '$$') {
+				return '$';
+			}
+			const name = braced || bare;
+			const value = this.values.find((entry) => entry.name === name);
+			if (!value) {
+				if (braced) {
+					throw new TextFsmError(`Rule references undefined Value "${name}" on template line ${lineNumber}`);
+				}
+				return token;
+			}
+			return `(?<${value.name}>${value.regex})`;
+		});
+
+		const { source, flags } = convertPythonRegex(substituted);
+		try {
+			return new RegExp(source, flags);
+		} catch (error) {
+			throw new TextFsmError(
+				`Invalid rule regex on template line ${lineNumber}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+}
+
+/**
+ * Parse text with a TextFSM template
+ * @param template TextFSM template source
+ * @param text Raw command output
+ * @returns One object per record, keyed by lower case value name
+ */
+export function parseTextFsm(template: string, text: string): TextFsmRow[] {
+	return new TextFsmTemplate(template).parseText(text);
+}
@@ -0,0 +1,112 @@
+import type { NegotiatedAlgorithms } from 'ssh2';
+import { SshAlgorithms } from './profiles';
+
+export type AlgorithmListMode = 'replace' | 'append' | 'prepend' | 'remove';
+
+export type AlgorithmListType = 'kex' | 'serverHostKey' | 'cipher' | 'hmac' | 'compress';
+
+// Lists in the OpenSSH form: "a,b" replaces, "+a,b" appends, "^a,b" prepends and "-a,b" removes
+export type SshAlgorithmOverrides = {
+	[type in AlgorithmListType]?: string;
+};
+
+// Algorithms agreed with the server, client to server direction
+export interface NegotiatedSshAlgorithms {
+	kex: string;
+	serverHostKey: string;
+	cipher: string;
+	hmac: string;
+	compress: string;
+}
+
+const LIST_TYPES: AlgorithmListType[] = ['kex', 'serverHostKey', 'cipher', 'hmac', 'compress'];
+
+const MODE_BY_PREFIX: { [prefix: string]: AlgorithmListMode } = {
+	'+': 'append',
+	'^': 'prepend',
+	'-': 'remove',
+};
+
+// ssh2's compression list, which the profiles leave at its default
+const DEFAULT_COMPRESSION = ['none', 'zlib@openssh.com', 'zlib'];
+
+/**
+ * Parse an algorithm list in the form of OpenSSH's Ciphers, KexAlgorithms etc.
+ * @param text Comma-separated names, optionally starting with "+", "^" or "-"
+ * @returns Mode and names, or undefined when the list is empty
+ */
+export function parseAlgorithmList(text = ''): { mode: AlgorithmListMode; algorithms: string[] } | undefined {
+	const trimmed = text.trim();
+	const mode = MODE_BY_PREFIX[trimmed.charAt(0)] || 'replace';
+	const algorithms = (mode === 'replace' ? trimmed : trimmed.slice(1))
+		.split(/[\s,]+/)
+		.filter((name) => name !== '');
+	return algorithms.length > 0 ? { mode, algorithms } : undefined;
+}
+
+function applyList(current: string[], text: string | undefined): string[] {
+	const list = parseAlgorithmList(text);
+	if (!list) {
+		return current;
+	}
+	switch (list.mode) {
+		case 'append':
+			return [...current.filter((name) => !list.algorithms.includes(name)), ...list.algorithms];
+		case 'prepend':
+			return [...list.algorithms, ...current.filter((name) => !list.algorithms.includes(name))];
+		case 'remove':
+			return current.filter((name) => !list.algorithms.includes(name));
+		default:
+			return list.algorithms;
+	}
+}
+
+/**
+ * Apply the lists set in a credential to each algorithm profile to try.
+ * Profiles that end up the same are tried once.
+ * @param profiles Algorithm lists from getAlgorithmProfiles()
+ * @param overrides Lists in the OpenSSH form
+ * @returns Algorithm lists to try, first one first
+ * @throws Error when a list is left empty
+ */
+export function applyAlgorithmOverrides(profiles: SshAlgorithms[], overrides: SshAlgorithmOverrides = {}): SshAlgorithms[] {
+	if (!LIST_TYPES.some((type) => parseAlgorithmList(overrides[type]))) {
+		return profiles;
+	}
+
+	const seen = new Set<string>();
+	return profiles
+		.map((profile) => {
+			const algorithms = { ...profile } as { [type in AlgorithmListType]?: string[] };
+			for (const type of LIST_TYPES) {
+				if (!parseAlgorithmList(overrides[type])) {
+					continue;
+				}
+				const current = algorithms[type] || (type === 'compress' ? DEFAULT_COMPRESSION : []);
+				algorithms[type] = applyList(current, overrides[type]);
+				if (algorithms[type]!.length === 0) {
+					throw new Error(`The custom ${type} algorithm list leaves no algorithm to offer`);
+				}
+			}
+			return algorithms as SshAlgorithms;
+		})
+		.filter((algorithms) => {
+			const key = JSON.stringify(algorithms);
+			if (seen.has(key)) {
+				return false;
+			}
+			seen.add(key);
+			return true;
+		});
+}
+
+export function summarizeNegotiatedAlgorithms(negotiated: NegotiatedAlgorithms): NegotiatedSshAlgorithms {
+	return {
+		kex: negotiated.kex,
+		serverHostKey: negotiated.serverHostKey,
+		cipher: negotiated.cs.cipher,
+		// AEAD ciphers such as AES-GCM and chacha20-poly1305 authenticate without a MAC
+		hmac: negotiated.cs.mac || 'implicit',
+		compress: negotiated.cs.compress,
+	};
+}
@@ -0,0 +1,18 @@
+export {
+	ALGORITHM_PROFILES,
+	getAlgorithmProfiles,
+	mergeAlgorithms,
+	AlgorithmProfile,
+	AlgorithmProfileName,
+	AlgorithmProfileSetting,
+	SshAlgorithms,
+} from './profiles';
+export {
+	applyAlgorithmOverrides,
+	parseAlgorithmList,
+	summarizeNegotiatedAlgorithms,
+	AlgorithmListMode,
+	AlgorithmListType,
+	NegotiatedSshAlgorithms,
+	SshAlgorithmOverrides,
+} from './custom';
@@ -0,0 +1,125 @@
+import type { CipherAlgorithm, CompressionAlgorithm, KexAlgorithm, MacAlgorithm, ServerHostKeyAlgorithm } from 'ssh2';
+
+/**
+ * Named sets of SSH transport algorithms, each a superset of the one before:
+ * - modern: no SHA-1, as offered by OpenSSH 9 with its defaults
+ * - compatible: adds ssh-rsa host keys, SHA-1 key exchange and MACs and CBC ciphers
+ * - legacy: adds DSA host keys, the 1024-bit group and 3DES for very old devices
+ */
+export type AlgorithmProfileName = 'modern' | 'compatible' | 'legacy';
+
+// "auto" tries the profiles from the most secure one the device type supports
+export type AlgorithmProfileSetting = AlgorithmProfileName | 'auto';
+
+// Algorithm lists in order of preference, in the form ssh2 takes them
+export interface SshAlgorithms {
+	kex: KexAlgorithm[];
+	serverHostKey: ServerHostKeyAlgorithm[];
+	cipher: CipherAlgorithm[];
+	hmac: MacAlgorithm[];
+	// Left to ssh2's default unless a credential sets it
+	compress?: CompressionAlgorithm[];
+}
+
+export interface AlgorithmProfile {
+	name: AlgorithmProfileName;
+	algorithms: SshAlgorithms;
+}
+
+const MODERN: SshAlgorithms = {
+	kex: [
+		'curve25519-sha256',
+		'curve25519-sha256@libssh.org',
+		'ecdh-sha2-nistp256',
+		'ecdh-sha2-nistp384',
+		'ecdh-sha2-nistp521',
+		'diffie-hellman-group-exchange-sha256',
+		'diffie-hellman-group16-sha512',
+		'diffie-hellman-group18-sha512',
+		'diffie-hellman-group14-sha256',
+	],
+	serverHostKey: [
+		'ssh-ed25519',
+		'ecdsa-sha2-nistp256',
+		'ecdsa-sha2-nistp384',
+		'ecdsa-sha2-nistp521',
+		'rsa-sha2-512',
+		'rsa-sha2-256',
+	],
+	cipher: [
+		'chacha20-poly1305@openssh.com',
+		'aes128-gcm@openssh.com',
+		'aes256-gcm@openssh.com',
+		'aes128-ctr',
+		'aes192-ctr',
+		'aes256-ctr',
+	],
+	hmac: ['hmac-sha2-256-etm@openssh.com', 'hmac-sha2-512-etm@openssh.com', 'hmac-sha2-256', 'hmac-sha2-512'],
+};
+
+const COMPATIBLE: SshAlgorithms = {
+	kex: [...MODERN.kex, 'diffie-hellman-group14-sha1', 'diffie-hellman-group-exchange-sha1'],
+	serverHostKey: [...MODERN.serverHostKey, 'ssh-rsa'],
+	cipher: [...MODERN.cipher, 'aes128-cbc', 'aes192-cbc', 'aes256-cbc'],
+	hmac: [...MODERN.hmac, 'hmac-sha1'],
+};
+
+const LEGACY: SshAlgorithms = {
+	kex: [...COMPATIBLE.kex, 'diffie-hellman-group1-sha1'],
+	serverHostKey: [...COMPATIBLE.serverHostKey, 'ssh-dss'],
+	cipher: [...COMPATIBLE.cipher, '3des-cbc'],
+	hmac: [...COMPATIBLE.hmac, 'hmac-sha1-96'],
+};
+
+export const ALGORITHM_PROFILES: { [name in AlgorithmProfileName]: SshAlgorithms } = {
+	modern: MODERN,
+	compatible: COMPATIBLE,
+	legacy: LEGACY,
+};
+
+const DEFAULT_PROFILE_ORDER: AlgorithmProfileName[] = ['modern', 'compatible', 'legacy'];
+
+// Device types whose SSH servers are known not to negotiate the modern profile
+const PROFILE_ORDER_BY_DEVICE_TYPE: { [deviceType: string]: AlgorithmProfileName[] } = {
+	// FortiOS before 6.4 only offers SHA-1 key exchange and hmac-sha1
+	fortinet_fortios: ['compatible', 'legacy'],
+};
+
+/**
+ * The algorithm profiles to try, in order, for a connection
+ * @param setting Profile chosen in the credential; "auto" tries them from modern to legacy
+ * @param options Device type of the server, and fast mode, which leaves out the legacy fallback
+ * @returns Profiles to try, first one first
+ */
+export function getAlgorithmProfiles(
+	setting: AlgorithmProfileSetting = 'auto',
+	options: { deviceType?: string; fastMode?: boolean } = {},
+): AlgorithmProfile[] {
+	if (setting !== 'auto') {
+		return [{ name: setting, algorithms: ALGORITHM_PROFILES[setting] }];
+	}
+	const order = PROFILE_ORDER_BY_DEVICE_TYPE[options.deviceType || ''] || DEFAULT_PROFILE_ORDER;
+	return order
+		.filter((name) => !options.fastMode || name !== 'legacy')
+		.map((name) => ({ name, algorithms: ALGORITHM_PROFILES[name] }));
+}
+
+/**
+ * Combine algorithm lists into one, keeping the order of preference, for a
+ * single handshake that still falls back (e.g. through a jump host tunnel,
+ * which carries only one connection attempt)
+ */
+export function mergeAlgorithms(list: SshAlgorithms[]): SshAlgorithms {
+	const merge = <T>(lists: Array<T[] | undefined>): T[] =>
+		Array.from(new Set(lists.flatMap((entry) => entry || [])));
+	const merged: SshAlgorithms = {
+		kex: merge(list.map((algorithms) => algorithms.kex)),
+		serverHostKey: merge(list.map((algorithms) => algorithms.serverHostKey)),
+		cipher: merge(list.map((algorithms) => algorithms.cipher)),
+		hmac: merge(list.map((algorithms) => algorithms.hmac)),
+	};
+	if (list.some((algorithms) => algorithms.compress)) {
+		merged.compress = merge(list.map((algorithms) => algorithms.compress));
+	}
+	return merged;
+}
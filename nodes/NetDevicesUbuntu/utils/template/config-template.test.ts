@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { renderConfigTemplate } from './config-template';
+
+describe('renderConfigTemplate', () => {
+	it('renders variables, loops and filters', () => {
+		const template = [
+			'hostname {{ hostname }}',
+			'{% for interface in interfaces %}',
+			'interface {{ interface.name }}',
+			' ip address {{ interface.address | ipaddr("address") }} {{ interface.address | netmask }}',
+			'{% endfor %}',
+		].join('\n');
+		const rendered = renderConfigTemplate(template, {
+			hostname: 'R1',
+			interfaces: [{ name: 'Gi0/1', address: '10.0.0.1/24' }],
+		});
+		assert.equal(rendered, 'hostname R1\ninterface Gi0/1\n ip address 10.0.0.1 255.255.255.0\n');
+	});
+
+	it('blocks the Function constructor escape', () => {
+		for (const template of [
+			'{{ range.constructor("return process.pid")() }}',
+			'{{ cycler["constructor"]("return process")() }}',
+			'{% set name = "constr" + "uctor" %}{{ joiner[name]("return process")() }}',
+			'{{ "".constructor.constructor("return process")() }}',
+			'{{ hostname.__proto__ }}',
+		]) {
+			assert.throws(() => renderConfigTemplate(template, { hostname: 'R1' }), /is not allowed in configuration templates/, template);
+		}
+	});
+
+	it('restores member lookups after a blocked template', () => {
+		assert.throws(() => renderConfigTemplate('{{ range.constructor }}', {}));
+		assert.equal(renderConfigTemplate('{{ device.name }}', { device: { name: 'R1' } }), 'R1');
+	});
+});
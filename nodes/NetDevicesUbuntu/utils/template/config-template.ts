@@ -0,0 +1,70 @@
+import { Environment, runtime } from 'nunjucks';
+import { ipaddr, netmask, prefixLength, wildcard } from './ip-filters';
+
+type MemberLookup = (obj: unknown, member: unknown) => unknown;
+
+// Members that lead from any value to the Function constructor or to prototypes
+const BLOCKED_MEMBERS = new Set([
+	'constructor',
+	'__proto__',
+	'prototype',
+	'__defineGetter__',
+	'__defineSetter__',
+	'__lookupGetter__',
+	'__lookupSetter__',
+]);
+
+// Compiled templates resolve every "a.b" and "a[b]" through the runtime's memberLookup
+const templateRuntime = runtime as unknown as { memberLookup: MemberLookup };
+
+let environment: Environment | null = null;
+
+// Configuration is plain text, so nothing is escaped, and block tags do not
+// leave blank lines behind, as with Ansible's trim_blocks
+function getEnvironment(): Environment {
+	if (!environment) {
+		environment = new Environment(null, {
+			autoescape: false,
+			throwOnUndefined: true,
+			trimBlocks: true,
+			lstripBlocks: true,
+		});
+		environment.addFilter('ipaddr', ipaddr);
+		environment.addFilter('netmask', netmask);
+		environment.addFilter('wildcard', wildcard);
+		environment.addFilter('prefixlen', prefixLength);
+	}
+	return environment;
+}
+
+/**
+ * Render a configuration template with Jinja2 syntax: {{ variables }}, {% for %}
+ * and {% if %} blocks, and filters including ipaddr, netmask, wildcard and prefixlen.
+ * Printing an undefined variable is an error rather than an empty string, and
+ * so is looking up constructor, __proto__ or prototype on any value.
+ * @param template Template source
+ * @param variables Values available in the template
+ * @returns Rendered configuration
+ * @throws Error with the template line of syntax and undefined-variable errors
+ */
+export function renderConfigTemplate(template: string, variables: { [name: string]: unknown }): string {
+	// nunjucks has no sandbox, and e.g. range.constructor is the Function
+	// constructor, so member lookups are checked while this template renders.
+	// Rendering is synchronous: no other template runs with the check in place.
+	const memberLookup = templateRuntime.memberLookup;
+	templateRuntime.memberLookup = (obj, member) => {
+		if (BLOCKED_MEMBERS.has(String(member))) {
+			throw new Error(`Access to "${String(member)}" is not allowed in configuration templates`);
+		}
+		return memberLookup(obj, member);
+	};
+	try {
+		return getEnvironment().renderString(template, variables);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		// nunjucks prefixes its messages with "(unknown path)" for string templates
+		throw new Error(message.replace(/^(?:Error:\s*)?\(unknown path\)\s*/, '').replace(/^Error:\s*/, '').replace(/\s+/g, ' ').trim());
+	} finally {
+		templateRuntime.memberLookup = memberLookup;
+	}
+}
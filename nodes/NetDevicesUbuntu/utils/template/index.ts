@@ -0,0 +1,2 @@
+export { renderConfigTemplate } from './config-template';
+export { ipaddr, netmask, parseIpNetwork, prefixLength, wildcard } from './ip-filters';
@@ -0,0 +1,175 @@
+import { isIP } from 'net';
+
+interface IpNetwork {
+	version: 4 | 6;
+	address: bigint;
+	prefix: number;
+}
+
+function bitCount(version: 4 | 6): number {
+	return version === 4 ? 32 : 128;
+}
+
+function parseIpv6(text: string): bigint {
+	const [head, tail] = text.includes('::') ? text.split('::') : [text, undefined];
+	const headGroups = head ? head.split(':') : [];
+	const tailGroups = tail ? tail.split(':') : [];
+
+	// An embedded IPv4 address (::ffff:192.0.2.1) fills the last two groups
+	const last = tailGroups.length > 0 ? tailGroups : headGroups;
+	if (last.length > 0 && last[last.length - 1].includes('.')) {
+		const octets = last.pop()!.split('.').map(Number);
+		last.push(((octets[0] << 8) | octets[1]).toString(16), ((octets[2] << 8) | octets[3]).toString(16));
+	}
+
+	const missing = 8 - headGroups.length - tailGroups.length;
+	const groups = [...headGroups, ...Array(tail !== undefined ? missing : 0).fill('0'), ...tailGroups];
+	return groups.reduce((value, group) => (value << BigInt(16)) | BigInt(parseInt(group, 16)), BigInt(0));
+}
+
+function formatIpv6(value: bigint): string {
+	const groups: string[] = [];
+	for (let index = 7; index >= 0; index--) {
+		groups.push(((value >> BigInt(index * 16)) & BigInt(0xffff)).toString(16));
+	}
+
+	// Compress the longest run of zero groups, as in RFC 5952
+	let bestStart = -1;
+	let bestLength = 1;
+	for (let start = 0; start < 8; start++) {
+		let length = 0;
+		while (start + length < 8 && groups[start + length] === '0') {
+			length++;
+		}
+		if (length > bestLength) {
+			bestStart = start;
+			bestLength = length;
+		}
+	}
+	if (bestStart === -1) {
+		return groups.join(':');
+	}
+	return `${groups.slice(0, bestStart).join(':')}::${groups.slice(bestStart + bestLength).join(':')}`;
+}
+
+function formatAddress(value: bigint, version: 4 | 6): string {
+	if (version === 6) {
+		return formatIpv6(value);
+	}
+	return [24, 16, 8, 0].map((shift) => Number((value >> BigInt(shift)) & BigInt(255))).join('.');
+}
+
+function maskOf(prefix: number, version: 4 | 6): bigint {
+	const bits = bitCount(version);
+	return ((BigInt(1) << BigInt(bits)) - BigInt(1)) ^ ((BigInt(1) << BigInt(bits - prefix)) - BigInt(1));
+}
+
+/**
+ * Parse "192.0.2.1/24", "192.0.2.1 255.255.255.0", "2001:db8::1/64" or a bare address
+ * @returns Network, or null when the value is not an address
+ */
+export function parseIpNetwork(value: unknown): IpNetwork | null {
+	if (typeof value !== 'string') {
+		return null;
+	}
+	const [address, mask] = value.trim().split(/\s*\/\s*|\s+/);
+	const version = isIP(address);
+	if (version === 0) {
+		return null;
+	}
+
+	const bits = bitCount(version as 4 | 6);
+	let prefix = bits;
+	if (mask !== undefined) {
+		if (/^\d+$/.test(mask)) {
+			prefix = Number(mask);
+		} else if (version === 4 && isIP(mask) === 4) {
+			prefix = mask
+				.split('.')
+				.map((octet) => Number(octet).toString(2).replace(/0/g, '').length)
+				.reduce((total, count) => total + count, 0);
+		} else {
+			return null;
+		}
+		if (prefix > bits) {
+			return null;
+		}
+	}
+
+	return {
+		version: version as 4 | 6,
+		address:
+			version === 4
+				? address.split('.').reduce((total, octet) => (total << BigInt(8)) | BigInt(Number(octet)), BigInt(0))
+				: parseIpv6(address),
+		prefix,
+	};
+}
+
+/**
+ * Jinja filter modelled on Ansible's ipaddr: with no query it returns the
+ * value when it is an address and false otherwise, and a query returns one part
+ * of it ("address", "prefix", "netmask", "hostmask", "wildcard", "network",
+ * "network/prefix", "host", "broadcast", "size")
+ * @param value Address with an optional prefix length or netmask
+ * @param query Part to return
+ * @returns The part, or false when the value is not an address
+ */
+export function ipaddr(value: unknown, query = ''): string | number | false {
+	const network = parseIpNetwork(value);
+	if (!network) {
+		return false;
+	}
+
+	const mask = maskOf(network.prefix, network.version);
+	const hostBits = ((BigInt(1) << BigInt(bitCount(network.version))) - BigInt(1)) ^ mask;
+	const networkAddress = network.address & mask;
+
+	switch (query) {
+		case '':
+			return String(value).trim();
+		case 'address':
+			return formatAddress(network.address, network.version);
+		case 'prefix':
+			return network.prefix;
+		case 'netmask':
+			return formatAddress(mask, network.version);
+		case 'hostmask':
+		case 'wildcard':
+			return formatAddress(hostBits, network.version);
+		case 'network':
+			return formatAddress(networkAddress, network.version);
+		case 'network/prefix':
+		case 'subnet':
+			return `${formatAddress(networkAddress, network.version)}/${network.prefix}`;
+		case 'host':
+			return `${formatAddress(network.address, network.version)}/${network.prefix}`;
+		case 'broadcast':
+			return network.version === 4 ? formatAddress(networkAddress | hostBits, 4) : false;
+		case 'size':
+			return Number(hostBits + BigInt(1));
+		default:
+			throw new Error(`Unknown ipaddr query "${query}"`);
+	}
+}
+
+/**
+ * Netmask of an address with a prefix length: "192.0.2.1/24" gives "255.255.255.0"
+ */
+export function netmask(value: unknown): string | false {
+	return ipaddr(value, 'netmask') as string | false;
+}
+
+/**
+ * Wildcard (inverse) mask for ACLs and OSPF: "192.0.2.0/24" gives "0.0.0.255"
+ */
+export function wildcard(value: unknown): string | false {
+	return ipaddr(value, 'wildcard') as string | false;
+}
+
+/**
+ * Prefix length of an address with a netmask: "192.0.2.1 255.255.255.0" gives 24
+ */
+export function prefixLength(value: unknown): number | false {
+	return ipaddr(value, 'prefix') as number | false;
+}
@@ -0,0 +1,231 @@
+import { createHash } from 'crypto';
+import type { Client, ClientChannel, SFTPWrapper } from 'ssh2';
+
+export type TransferMethod = 'sftp' | 'scp';
+
+export type ChecksumAlgorithm = 'md5' | 'sha256';
+
+export interface RemoteChecksum {
+	algorithm: ChecksumAlgorithm;
+	value: string;
+}
+
+/**
+ * Compute the checksum of transferred data the way the device reports it
+ * @param data File content
+ * @param algorithm Hash algorithm
+ * @returns Lower-case hex digest
+ */
+export function computeChecksum(data: Buffer, algorithm: ChecksumAlgorithm): string {
+	return createHash(algorithm).update(data).digest('hex');
+}
+
+/**
+ * Get the file name part of a remote path such as flash:/images/ios.bin or /var/tmp/pkg.tgz
+ * @param remotePath Remote path
+ * @returns File name
+ */
+export function getRemoteFileName(remotePath: string): string {
+	return remotePath.split(/[/:\\]/).filter(Boolean).pop() || remotePath;
+}
+
+function openSftp(client: Client): Promise<SFTPWrapper> {
+	return new Promise((resolve, reject) => {
+		client.sftp((error, sftp) => (error ? reject(error) : resolve(sftp)));
+	});
+}
+
+function openExec(client: Client, command: string): Promise<ClientChannel> {
+	return new Promise((resolve, reject) => {
+		client.exec(command, (error, stream) => (error ? reject(error) : resolve(stream)));
+	});
+}
+
+// Quote a path for the remote scp command; device paths like flash:file are left alone
+function quoteScpPath(remotePath: string): string {
+	return /^[\w./:@+-]+$/.test(remotePath) ? remotePath : `'${remotePath.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Reads an SCP exec channel as a byte queue, so protocol replies can be
+ * awaited one after the other
+ */
+class ScpReader {
+	private buffer = Buffer.alloc(0);
+	private waiting: (() => void) | null = null;
+	private closed = false;
+	private stderr = '';
+
+	constructor(stream: ClientChannel) {
+		stream.on('data', (data: Buffer) => {
+			this.buffer = Buffer.concat([this.buffer, data]);
+			this.wake();
+		});
+		stream.stderr.on('data', (data: Buffer) => {
+			this.stderr += data.toString('utf8');
+		});
+		stream.on('close', () => {
+			this.closed = true;
+			this.wake();
+		});
+	}
+
+	private wake(): void {
+		const waiting = this.waiting;
+		this.waiting = null;
+		if (waiting) waiting();
+	}
+
+	private async waitFor(condition: () => boolean): Promise<void> {
+		while (!condition()) {
+			if (this.closed) {
+				throw new Error(`SCP session closed unexpectedly${this.stderr ? `: ${this.stderr.trim()}` : ''}`);
+			}
+			await new Promise<void>((resolve) => {
+				this.waiting = resolve;
+			});
+		}
+	}
+
+	async read(length: number): Promise<Buffer> {
+		await this.waitFor(() => this.buffer.length >= length);
+		const chunk = this.buffer.subarray(0, length);
+		this.buffer = this.buffer.subarray(length);
+		return chunk;
+	}
+
+	async readLine(): Promise<string> {
+		await this.waitFor(() => this.buffer.includes(0x0a));
+		const end = this.buffer.indexOf(0x0a);
+		const line = this.buffer.subarray(0, end).toString('utf8');
+		this.buffer = this.buffer.subarray(end + 1);
+		return line;
+	}
+
+	// A reply is a zero byte, or 1 (warning) / 2 (error) followed by a message line
+	async readAck(): Promise<void> {
+		const [code] = await this.read(1);
+		if (code !== 0) {
+			const message = await this.readLine();
+			throw new Error(`SCP error: ${message.trim() || `code ${code}`}`);
+		}
+	}
+}
+
+/**
+ * Upload a file with SCP ("scp -t" on the remote side)
+ * @param client Connected SSH client
+ * @param remotePath Destination path on the device
+ * @param data File content
+ */
+export async function scpUpload(client: Client, remotePath: string, data: Buffer): Promise<void> {
+	const stream = await openExec(client, `scp -t ${quoteScpPath(remotePath)}`);
+	const reader = new ScpReader(stream);
+
+	try {
+		await reader.readAck();
+		stream.write(`C0644 ${data.length} ${getRemoteFileName(remotePath)}\n`);
+		await reader.readAck();
+		stream.write(data);
+		stream.write(Buffer.from([0]));
+		await reader.readAck();
+	} finally {
+		stream.end();
+	}
+}
+
+/**
+ * Download a file with SCP ("scp -f" on the remote side)
+ * @param client Connected SSH client
+ * @param remotePath Source path on the device
+ * @returns File content
+ */
+export async function scpDownload(client: Client, remotePath: string): Promise<Buffer> {
+	const stream = await openExec(client, `scp -f ${quoteScpPath(remotePath)}`);
+	const reader = new ScpReader(stream);
+
+	try {
+		stream.write(Buffer.from([0]));
+
+		// Skip time records (T...) until the file header (C<mode> <size> <name>)
+		let header = '';
+		for (;;) {
+			const [type] = await reader.read(1);
+			if (type === 1 || type === 2) {
+				throw new Error(`SCP error: ${(await reader.readLine()).trim()}`);
+			}
+			header = String.fromCharCode(type) + (await reader.readLine());
+			stream.write(Buffer.from([0]));
+			if (header.startsWith('C')) {
+				break;
+			}
+		}
+
+		const match = header.match(/^C[0-7]{4} (\d+) /);
+		if (!match) {
+			throw new Error(`Unexpected SCP header: ${header}`);
+		}
+
+		const data = await reader.read(Number(match[1]));
+		await reader.readAck();
+		stream.write(Buffer.from([0]));
+		return data;
+	} finally {
+		stream.end();
+	}
+}
+
+/**
+ * Upload a file over SFTP, falling back to SCP when the device has no SFTP subsystem
+ * @param client Connected SSH client
+ * @param remotePath Destination path on the device
+ * @param data File content
+ * @returns Method that was used
+ */
+export async function uploadFile(client: Client, remotePath: string, data: Buffer): Promise<TransferMethod> {
+	let sftp: SFTPWrapper;
+	try {
+		sftp = await openSftp(client);
+	} catch (error) {
+		await scpUpload(client, remotePath, data);
+		return 'scp';
+	}
+
+	try {
+		await new Promise<void>((resolve, reject) => {
+			sftp.writeFile(remotePath, data, (error) => (error ? reject(error) : resolve()));
+		});
+		return 'sftp';
+	} finally {
+		sftp.end();
+	}
+}
+
+/**
+ * Download a file over SFTP, falling back to SCP when the device has no SFTP subsystem
+ * @param client Connected SSH client
+ * @param remotePath Source path on the device
+ * @returns File content and the method that was used
+ */
+export async function downloadFile(
+	client: Client,
+	remotePath: string,
+): Promise<{ data: Buffer; method: TransferMethod }> {
+	let sftp: SFTPWrapper;
+	try {
+		sftp = await openSftp(client);
+	} catch (error) {
+		return { data: await scpDownload(client, remotePath), method: 'scp' };
+	}
+
+	try {
+		const data = await new Promise<Buffer>((resolve, reject) => {
+			sftp.readFile(remotePath, (error: Error | undefined, content: Buffer) =>
+				error ? reject(error) : resolve(content),
+			);
+		});
+		return { data, method: 'sftp' };
+	} finally {
+		sftp.end();
+	}
+}
@@ -0,0 +1,11 @@
+export {
+	ChecksumAlgorithm,
+	RemoteChecksum,
+	TransferMethod,
+	computeChecksum,
+	downloadFile,
+	getRemoteFileName,
+	scpDownload,
+	scpUpload,
+	uploadFile,
+} from './file-transfer';
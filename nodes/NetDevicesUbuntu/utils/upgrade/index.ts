@@ -0,0 +1,8 @@
+export {
+	runSoftwareUpgrade,
+	SOFTWARE_STAGING_TIMEOUT,
+	SoftwareUpgradeOptions,
+	SoftwareUpgradePhase,
+	SoftwareUpgradePhaseName,
+	SoftwareUpgradeResult,
+} from './software-upgrade';
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { BaseConnection } from '../base-connection';
+import { runSoftwareUpgrade, SoftwareUpgradeOptions } from './software-upgrade';
+
+// Session that accepts every step and reports the given version
+function fakeConnection(version: string): BaseConnection {
+	return {
+		getSoftwareVersion: async () => ({ command: 'show version', output: version, success: true, version }),
+		getFreeSpace: async () => ({ success: true, bytesFree: 1e9 }),
+		uploadFile: async () => ({ success: true, size: 4, method: 'sftp' }),
+		stageSoftware: async () => ({ command: 'install', output: '', success: true }),
+		rebootDevice: async () => ({ command: 'reload', output: '', success: true }),
+		disconnect: async () => undefined,
+	} as unknown as BaseConnection;
+}
+
+async function upgrade(versionAfter: string, expectedVersion?: string) {
+	const options: SoftwareUpgradeOptions = {
+		image: Buffer.from('test'),
+		remotePath: 'flash:new.bin',
+		verifyChecksum: false,
+		reload: true,
+		expectedVersion,
+		reloadTimeout: 1000,
+		pollInterval: 1,
+	};
+	return runSoftwareUpgrade(fakeConnection('17.06.05'), async () => fakeConnection(versionAfter), options);
+}
+
+describe('runSoftwareUpgrade', () => {
+	it('fails a device that comes back on the old image when no version is expected', async () => {
+		const result = await upgrade('17.06.05');
+		assert.equal(result.success, false);
+		assert.equal(result.failedPhase, 'versionCheck');
+		assert.match(result.error!, /expected a version other than 17\.06\.05, found 17\.06\.05/);
+	});
+
+	it('accepts a new version when no version is expected', async () => {
+		const result = await upgrade('17.09.04a');
+		assert.equal(result.success, true);
+		assert.equal(result.version, '17.09.04a');
+	});
+
+	it('requires the expected version when one is given', async () => {
+		assert.equal((await upgrade('17.09.04a', '17.09.04a')).success, true);
+		assert.equal((await upgrade('17.09.03', '17.09.04a')).failedPhase, 'versionCheck');
+	});
+});
@@ -0,0 +1,253 @@
+import type { BaseConnection } from '../base-connection';
+
+export type SoftwareUpgradePhaseName =
+	| 'currentVersion'
+	| 'freeSpace'
+	| 'transfer'
+	| 'verify'
+	| 'stage'
+	| 'reload'
+	| 'reconnect'
+	| 'versionCheck';
+
+export interface SoftwareUpgradePhase {
+	phase: SoftwareUpgradePhaseName;
+	success: boolean;
+	duration: number;
+	output?: string;
+	error?: string;
+}
+
+// Longest wait for staging, which installs the package on Junos
+export const SOFTWARE_STAGING_TIMEOUT = 1800000;
+
+export interface SoftwareUpgradeOptions {
+	image: Buffer;
+	remotePath: string;
+	verifyChecksum: boolean;
+	reload: boolean;
+	expectedVersion?: string;
+	reloadTimeout: number;
+	pollInterval?: number;
+}
+
+export interface SoftwareUpgradeResult {
+	success: boolean;
+	staged: boolean;
+	reloaded: boolean;
+	previousVersion: string;
+	version: string;
+	phases: SoftwareUpgradePhase[];
+	failedPhase?: SoftwareUpgradePhaseName;
+	error?: string;
+}
+
+/**
+ * Run a software upgrade: check free space, copy and verify the image, stage
+ * it for the next boot and, when asked, reload the device, wait for it to
+ * come back and check the version it runs. Stops at the first failing phase.
+ * @param connection Connected session to the device; it is closed when the device reloads
+ * @param reconnect Opens a new connected session, through the jump host when configured
+ * @param options Image, destination, reload behaviour and the expected version
+ * @returns Outcome and the result of every phase that ran
+ */
+export async function runSoftwareUpgrade(
+	connection: BaseConnection,
+	reconnect: () => Promise<BaseConnection>,
+	options: SoftwareUpgradeOptions,
+): Promise<SoftwareUpgradeResult> {
+	const { image, remotePath, verifyChecksum, reload, expectedVersion, reloadTimeout, pollInterval = 30000 } = options;
+	const phases: SoftwareUpgradePhase[] = [];
+	let previousVersion = '';
+	let staged = false;
+	let reloaded = false;
+
+	const fail = (phase: SoftwareUpgradePhaseName, error: string): SoftwareUpgradeResult => ({
+		success: false,
+		staged,
+		reloaded,
+		previousVersion,
+		version: previousVersion,
+		phases,
+		failedPhase: phase,
+		error,
+	});
+
+	// Phase 1: record the version the device runs now
+	let started = Date.now();
+	const current = await connection.getSoftwareVersion();
+	previousVersion = current.version;
+	phases.push({
+		phase: 'currentVersion',
+		success: current.success,
+		duration: Date.now() - started,
+		output: current.version,
+		error: current.error,
+	});
+	if (!current.success) {
+		return fail('currentVersion', `Could not read the current version: ${current.error}`);
+	}
+
+	// Phase 2: make sure the image fits
+	started = Date.now();
+	const space = await connection.getFreeSpace(remotePath);
+	const fits = space.success && space.bytesFree >= image.length;
+	phases.push({
+		phase: 'freeSpace',
+		success: fits,
+		duration: Date.now() - started,
+		output: space.success ? `${space.bytesFree} bytes free, ${image.length} bytes needed` : undefined,
+		error: space.success ? (fits ? undefined : 'Not enough free space for the image') : space.error,
+	});
+	if (!fits) {
+		return fail(
+			'freeSpace',
+			space.success
+				? `Not enough free space for ${remotePath}: ${space.bytesFree} bytes free, ${image.length} bytes needed`
+				: `Free space check failed: ${space.error}`,
+		);
+	}
+
+	// Phase 3 and 4: copy the image, then compare the checksum the device reports
+	started = Date.now();
+	const transfer = await connection.uploadFile(remotePath, image, verifyChecksum);
+	const copied = transfer.success || transfer.checksumVerified === false;
+	phases.push({
+		phase: 'transfer',
+		success: copied,
+		duration: Date.now() - started,
+		output: copied ? `${transfer.size} bytes over ${transfer.method}` : undefined,
+		error: copied ? undefined : transfer.error,
+	});
+	if (!copied) {
+		return fail('transfer', `Image transfer failed: ${transfer.error}`);
+	}
+
+	if (verifyChecksum) {
+		// An image the device cannot vouch for is not staged
+		const verified = transfer.checksumVerified === true;
+		const verifyError = verified
+			? undefined
+			: transfer.error || 'The device did not report a checksum for the image';
+		phases.push({
+			phase: 'verify',
+			success: verified,
+			duration: 0,
+			output: transfer.output || undefined,
+			error: verifyError,
+		});
+		if (!verified) {
+			return fail('verify', `Image verification failed: ${verifyError}`);
+		}
+	}
+
+	// Phase 5: set the image to boot next
+	started = Date.now();
+	const stage = await connection.stageSoftware(remotePath);
+	staged = stage.success;
+	phases.push({
+		phase: 'stage',
+		success: stage.success,
+		duration: Date.now() - started,
+		output: stage.output,
+		error: stage.error,
+	});
+	if (!stage.success) {
+		return fail('stage', `Staging failed: ${stage.error}`);
+	}
+
+	if (!reload) {
+		return {
+			success: true,
+			staged,
+			reloaded,
+			previousVersion,
+			version: previousVersion,
+			phases,
+		};
+	}
+
+	// Phase 6: reload; the session drops with the device
+	started = Date.now();
+	const reboot = await connection.rebootDevice();
+	reloaded = reboot.success;
+	phases.push({
+		phase: 'reload',
+		success: reboot.success,
+		duration: Date.now() - started,
+		output: reboot.output,
+		error: reboot.error,
+	});
+	if (!reboot.success) {
+		return fail('reload', `Reload failed: ${reboot.error}`);
+	}
+	try {
+		await connection.disconnect();
+	} catch (error) {
+		// The device is going down; the session is already gone
+	}
+
+	// Phase 7: poll until the device accepts a session again
+	started = Date.now();
+	let upgraded: BaseConnection | null = null;
+	let reconnectError = '';
+	while (!upgraded && Date.now() - started < reloadTimeout) {
+		await new Promise((resolve) => setTimeout(resolve, pollInterval));
+		try {
+			upgraded = await reconnect();
+		} catch (error) {
+			reconnectError = error instanceof Error ? error.message : String(error);
+		}
+	}
+	phases.push({
+		phase: 'reconnect',
+		success: !!upgraded,
+		duration: Date.now() - started,
+		error: upgraded ? undefined : reconnectError,
+	});
+	if (!upgraded) {
+		return fail(
+			'reconnect',
+			`Device did not come back within ${Math.round(reloadTimeout / 60000)} minute(s)${reconnectError ? `: ${reconnectError}` : ''}`,
+		);
+	}
+
+	try {
+		// Phase 8: the device must run the expected release, or at least not the previous one,
+		// since a device that cannot boot the new image comes back on the old one
+		started = Date.now();
+		const after = await upgraded.getSoftwareVersion();
+		const expected = expectedVersion ? `version ${expectedVersion}` : `a version other than ${previousVersion}`;
+		const matches =
+			after.success && (expectedVersion ? after.version.includes(expectedVersion) : after.version !== previousVersion);
+		phases.push({
+			phase: 'versionCheck',
+			success: matches,
+			duration: Date.now() - started,
+			output: after.version,
+			error: after.success ? (matches ? undefined : `Expected ${expected}, found ${after.version || 'unknown'}`) : after.error,
+		});
+
+		const result: SoftwareUpgradeResult = {
+			success: matches,
+			staged,
+			reloaded,
+			previousVersion,
+			version: after.version,
+			phases,
+		};
+		if (!matches) {
+			result.failedPhase = 'versionCheck';
+			result.error = after.success
+				? `Version check failed: expected ${expected}, found ${after.version || 'unknown'}`
+				: `Could not read the version after the reload: ${after.error}`;
+		}
+		return result;
+	} finally {
+		try {
+			await upgraded.disconnect();
+		} catch (error) {
+			// Ignore disconnect errors
+		}
+	}
+}
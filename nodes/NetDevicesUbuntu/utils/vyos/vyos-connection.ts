@@ -1,5 +1,31 @@
+import { isIP } from 'net';
+import {
+	CommandResult,
+	ConfigRevisionsResult,
+	ConfigValidationResult,
+	DeviceStateResult,
+	PingOptions,
+} from '../base-connection';
 import { CiscoConnection } from '../cisco/cisco-connection';
+import { normalizeConfig, parseSystemCommitHistory } from '../config';
+import {
+	ArpEntry,
+	BgpNeighbor,
+	DeviceFacts,
+	InterfaceAddress,
+	InterfaceState,
+	LldpNeighbor,
+	MacTableEntry,
+	parseBgpSummary,
+	parseVyosArpTable,
+	parseVyosFacts,
+	parseVyosInterfaceAddresses,
+	parseVyosInterfaces,
+	parseVyosLldpNeighbors,
+	parseVyosMacTable,
+} from '../getters';
 import { NoEnable } from '../no-enable';
+import { RemoteChecksum } from '../transfer';
 
 class VyosConnectionBase extends CiscoConnection {
 	/**
@@ -23,7 +49,7 @@ class VyosConnectionBase extends CiscoConnection {
 
 		try {
 			await this.writeChannel('configure' + this.newline);
-			const output = await this.readUntilPrompt('[edit]', 3000);
+			const output = await this.readUntilPrompt(/\[edit\][\s\S]*#\s*$/, 3000);
 
 			if (output.includes('[edit]')) {
 				this.inConfigMode = true;
@@ -81,6 +107,373 @@ class VyosConnectionBase extends CiscoConnection {
 		}
 	}
 
+	/**
+	 * Load set commands, return the candidate diff from compare and discard the changes.
+	 */
+	public async validateConfig(configCommands: string[]): Promise<ConfigValidationResult> {
+		const command = 'compare';
+		const configPrompt = /#\s*$/;
+
+		try {
+			if (!this.isConnected || !this.currentChannel) {
+				throw new Error('Not connected to device');
+			}
+
+			await this.enterConfigMode();
+
+			const messages: string[] = [];
+			for (const configCommand of configCommands) {
+				await this.writeChannel(configCommand + this.newline);
+				const output = await this.readUntilMatch(configPrompt, 10000);
+				if (/Set failed|Delete failed|is not valid|Invalid command|Error/i.test(output)) {
+					messages.push(`${configCommand}: ${this.sanitizeOutput(output, configCommand)}`);
+				}
+			}
+
+			await this.writeChannel(command + this.newline);
+			const diff = this.sanitizeOutput(await this.readUntilMatch(configPrompt, 30000), command)
+				.replace(/\[edit\]\s*$/, '')
+				.trim();
+
+			await this.discardChanges(configPrompt);
+
+			const valid = messages.length === 0;
+			return {
+				command,
+				output: diff,
+				success: valid,
+				valid,
+				diff,
+				messages,
+				error: valid ? undefined : 'Configuration validation failed',
+			};
+		} catch (error) {
+			try {
+				await this.discardChanges(configPrompt);
+			} catch (discardError) {
+				// Ignore discard errors if we're already handling an error
+			}
+
+			return {
+				command,
+				output: '',
+				success: false,
+				valid: false,
+				diff: '',
+				messages: [],
+				error: error instanceof Error ? error.message : 'Unknown error',
+			};
+		}
+	}
+
+	private async discardChanges(configPrompt: RegExp): Promise<void> {
+		if (!this.inConfigMode) {
+			return;
+		}
+		await this.writeChannel('discard' + this.newline);
+		await this.readUntilMatch(configPrompt, 5000);
+		await this.exitConfigMode();
+	}
+
+	/**
+	 * Replace the configuration by loading a full config file and committing it.
+	 */
+	public async replaceConfig(config: string): Promise<CommandResult> {
+		const fileName = '/tmp/n8n-replace.config';
+		const command = `load ${fileName}`;
+		const opPrompt = /\$\s*$/;
+		const configPrompt = /#\s*$/;
+
+		try {
+			if (!this.isConnected || !this.currentChannel) {
+				throw new Error('Not connected to device');
+			}
+
+			const lines = normalizeConfig(config, 'vyos');
+			if (lines.length === 0) {
+				throw new Error('The replacement configuration is empty');
+			}
+
+			// Stage the candidate with a quoted here-document so nothing in it is expanded
+			await this.writeChannel(
+				`cat > ${fileName} <<'N8N_EOF'${this.newline}${lines.join(this.newline)}${this.newline}N8N_EOF${this.newline}`,
+			);
+			await this.readUntilMatch(/N8N_EOF\s*[\r\n]+[^\r\n]*\$\s*$/, 60000);
+
+			await this.enterConfigMode();
+			await this.writeChannel(command + this.newline);
+			const loadOutput = await this.readUntilMatch(configPrompt, 120000);
+
+			if (!/Load complete/i.test(loadOutput) || /fail|error/i.test(loadOutput)) {
+				throw new Error(`Loading the replacement configuration failed:\n\n${loadOutput}`);
+			}
+
+			const commitOutput = await this.commit();
+			await this.exitConfigMode();
+			await this.removeFile(fileName, opPrompt);
+
+			return {
+				command,
+				output: this.sanitizeOutput(loadOutput + commitOutput, command),
+				success: true,
+			};
+		} catch (error) {
+			try {
+				// Leaving with "exit discard" drops the loaded candidate
+				await this.exitConfigMode();
+				await this.removeFile(fileName, opPrompt);
+			} catch (exitError) {
+				// Ignore cleanup errors if we're already handling an error
+			}
+
+			return {
+				command,
+				output: '',
+				success: false,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			};
+		}
+	}
+
+	/**
+	 * Commit set commands with commit-confirm so they are reverted unless confirmed in time.
+	 */
+	public async commitConfirmed(configCommands: string[], minutes: number): Promise<CommandResult> {
+		const command = `commit-confirm ${minutes}`;
+		const configPrompt = /#\s*$/;
+
+		try {
+			if (!this.isConnected || !this.currentChannel) {
+				throw new Error('Not connected to device');
+			}
+
+			await this.enterConfigMode();
+
+			let allOutput = '';
+			for (const configCommand of configCommands) {
+				await this.writeChannel(configCommand + this.newline);
+				const output = await this.readUntilMatch(configPrompt, 10000);
+				allOutput += output;
+
+				if (/Set failed|Delete failed|is not valid|Invalid command/i.test(output)) {
+					throw new Error(`Configuration error on command "${configCommand}": ${output}`);
+				}
+			}
+
+			await this.writeChannel(command + this.newline);
+			let commitOutput = await this.readUntilMatch(/\[confirm\]\s*$|#\s*$/, 120000);
+			if (/\[confirm\]\s*$/.test(commitOutput)) {
+				await this.writeChannel('y' + this.newline);
+				commitOutput += await this.readUntilMatch(configPrompt, 120000);
+			}
+
+			if (/Failed to generate committed config|Commit failed|Invalid command/i.test(commitOutput)) {
+				throw new Error(`Commit confirmed failed:\n\n${this.sanitizeOutput(commitOutput, command)}`);
+			}
+
+			await this.exitConfigMode();
+
+			return {
+				command,
+				output: this.sanitizeOutput(allOutput + commitOutput, command),
+				success: true,
+			};
+		} catch (error) {
+			try {
+				await this.discardChanges(configPrompt);
+			} catch (discardError) {
+				// Ignore discard errors if we're already handling an error
+			}
+
+			return {
+				command,
+				output: '',
+				success: false,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			};
+		}
+	}
+
+	/**
+	 * Confirm a pending commit-confirm.
+	 */
+	public async confirmCommit(): Promise<CommandResult> {
+		const command = 'confirm';
+
+		try {
+			if (!this.isConnected || !this.currentChannel) {
+				throw new Error('Not connected to device');
+			}
+
+			await this.enterConfigMode();
+			await this.writeChannel(command + this.newline);
+			const output = await this.readUntilMatch(/#\s*$/, 30000);
+			await this.exitConfigMode();
+
+			if (/No confirmation required|Invalid command|fail/i.test(output)) {
+				throw new Error(`Confirming commit failed:\n\n${this.sanitizeOutput(output, command)}`);
+			}
+
+			return {
+				command,
+				output: this.sanitizeOutput(output, command),
+				success: true,
+			};
+		} catch (error) {
+			return {
+				command,
+				output: '',
+				success: false,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			};
+		}
+	}
+
+	/**
+	 * Load a revision from the commit archive with rollback-soft and commit it.
+	 */
+	public async rollbackConfig(revision: string): Promise<CommandResult> {
+		const command = `rollback-soft ${revision}`;
+		const configPrompt = /#\s*$/;
+
+		try {
+			if (!this.isConnected || !this.currentChannel) {
+				throw new Error('Not connected to device');
+			}
+			if (!/^\d+$/.test(revision)) {
+				throw new Error(`Invalid revision "${revision}", expected a revision number`);
+			}
+
+			await this.enterConfigMode();
+			await this.writeChannel(command + this.newline);
+			const loadOutput = await this.readUntilMatch(configPrompt, 60000);
+
+			// Plain "rollback" reboots the device, so releases without rollback-soft are not supported
+			if (/Invalid command/i.test(loadOutput)) {
+				throw new Error('Rollback without a reboot requires VyOS 1.4 or later (rollback-soft)');
+			}
+			if (/fail|error/i.test(loadOutput)) {
+				throw new Error(`Loading revision ${revision} failed:\n\n${this.sanitizeOutput(loadOutput, command)}`);
+			}
+
+			const commitOutput = await this.commit();
+			await this.exitConfigMode();
+
+			return {
+				command,
+				output: this.sanitizeOutput(loadOutput + commitOutput, command),
+				success: true,
+			};
+		} catch (error) {
+			try {
+				await this.discardChanges(configPrompt);
+			} catch (discardError) {
+				// Ignore discard errors if we're already handling an error
+			}
+
+			return {
+				command,
+				output: '',
+				success: false,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			};
+		}
+	}
+
+	/**
+	 * List the commit archive from show system commit.
+	 */
+	public async getConfigRevisions(): Promise<ConfigRevisionsResult> {
+		const result = await this.sendCommand('show system commit');
+		return {
+			...result,
+			revisions: result.success ? parseSystemCommitHistory(result.output) : [],
+		};
+	}
+
+	/**
+	 * Ping in operational mode, with the VyOS 1.4 option keywords.
+	 */
+	protected getPingCommand(target: string, options: PingOptions): string {
+		const { count, size, source, vrf } = options;
+		return [
+			`ping ${target} count ${count}`,
+			size ? `size ${size}` : '',
+			source ? `${isIP(source) ? 'source-address' : 'interface'} ${source}` : '',
+			vrf ? `vrf ${vrf}` : '',
+		].filter(Boolean).join(' ');
+	}
+
+	/**
+	 * Traceroute in operational mode, with the VyOS 1.4 option keywords.
+	 */
+	protected getTracerouteCommand(target: string, options: PingOptions): string {
+		const { source, vrf } = options;
+		return [
+			`traceroute ${target}`,
+			source && isIP(source) ? `source-address ${source}` : '',
+			vrf ? `vrf ${vrf}` : '',
+		].filter(Boolean).join(' ');
+	}
+
+	/**
+	 * Facts; the uptime is read from /proc/uptime, which the operational shell can run.
+	 */
+	async getFacts(): Promise<DeviceStateResult<DeviceFacts | null>> {
+		return this.runGetter(
+			['show version', 'show host name', 'cat /proc/uptime', 'show interfaces'],
+			([version, hostname, uptime, interfaces]) => parseVyosFacts(version, hostname, uptime, interfaces),
+			null,
+		);
+	}
+
+	/**
+	 * Interfaces, with the MAC address and MTU from the kernel.
+	 */
+	async getInterfaces(): Promise<DeviceStateResult<InterfaceState[]>> {
+		return this.runGetter(
+			['show interfaces', 'ip -o link show'],
+			([interfaces, links]) => parseVyosInterfaces(interfaces, links),
+			[],
+		);
+	}
+
+	async getInterfacesIp(): Promise<DeviceStateResult<InterfaceAddress[]>> {
+		return this.runGetter(['show interfaces'], ([output]) => parseVyosInterfaceAddresses(output), []);
+	}
+
+	async getArpTable(): Promise<DeviceStateResult<ArpEntry[]>> {
+		return this.runGetter(['ip -4 neigh show'], ([output]) => parseVyosArpTable(output), []);
+	}
+
+	async getMacAddressTable(): Promise<DeviceStateResult<MacTableEntry[]>> {
+		return this.runGetter(['bridge fdb show'], ([output]) => parseVyosMacTable(output), []);
+	}
+
+	async getLldpNeighbors(): Promise<DeviceStateResult<LldpNeighbor[]>> {
+		return this.runGetter(['show lldp neighbors'], ([output]) => parseVyosLldpNeighbors(output), []);
+	}
+
+	async getBgpNeighbors(): Promise<DeviceStateResult<BgpNeighbor[]>> {
+		return this.runGetter(['show ip bgp summary'], ([output]) => parseBgpSummary(output), []);
+	}
+
+	/**
+	 * Checksum of a file on the device with sha256sum.
+	 */
+	protected async getRemoteChecksum(remotePath: string): Promise<RemoteChecksum | null> {
+		const command = `sha256sum '${remotePath.replace(/'/g, `'\\''`)}'`;
+		await this.writeChannel(command + this.newline);
+		const output = await this.readUntilMatch(/\$\s*$/, 300000);
+		const match = this.sanitizeOutput(output, command).match(/^([0-9a-f]{64})\s/m);
+		return match ? { algorithm: 'sha256', value: match[1] } : null;
+	}
+
+	private async removeFile(fileName: string, prompt: RegExp): Promise<void> {
+		await this.writeChannel(`rm -f ${fileName}` + this.newline);
+		await this.readUntilMatch(prompt, 5000);
+	}
+
 	/**
 	 * Save the configuration.
 	 */